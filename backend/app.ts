@@ -3,11 +3,22 @@ import contractsRoutes from "./routes/contractsRoutes";
 import scanRoutes from "./routes/scanRoutes";
 import dashboardRoutes from "./routes/dashboardRoutes";
 import chainRoutes from "./routes/chainRoutes";
+import signatureRoutes from "./routes/signatureRoutes";
+import ruleRoutes from "./routes/ruleRoutes";
+import webhookRoutes from "./routes/webhookRoutes";
+import adminRoutes from "./routes/adminRoutes";
+import analyzeRoutes from "./routes/analyzeRoutes";
 import errorHandler from "./middleware/errorHandler";
 import logger from "./utils/logger";
 
 const app = express();
 
+// Creation code with an ABI, multi-file Solidity sources (OpenZeppelin
+// imports alone are several hundred kb) and batches of up to 1000 scans with
+// ABIs outgrow the default 100kb body limit. Batches get the CSV upload limit.
+app.use("/analyze", express.json({ limit: "1mb" }));
+app.use("/contracts/:address/source", express.json({ limit: "10mb" }));
+app.use("/scans/batch", express.json({ limit: "5mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -34,6 +45,11 @@ app.use("/contracts", contractsRoutes);
 app.use("/scans", scanRoutes);
 app.use("/dashboard", dashboardRoutes);
 app.use("/chain", chainRoutes);
+app.use("/signatures", signatureRoutes);
+app.use("/rules", ruleRoutes);
+app.use("/webhooks", webhookRoutes);
+app.use("/admin", adminRoutes);
+app.use("/analyze", analyzeRoutes);
 
 app.use((_req, res, _next) => {
   res.status(404).json({ error: "Route not found" });
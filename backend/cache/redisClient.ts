@@ -3,6 +3,7 @@ import config from "../config/env";
 import logger from "../utils/logger";
 
 let client: Redis | null = null;
+let subscriber: Redis | null = null;
 
 export const getRedisClient = (): Redis => {
   if (client) {
@@ -34,4 +35,32 @@ export const closeRedisClient = async (): Promise<void> => {
   }
 };
 
+/**
+ * A connection in subscriber mode can't issue regular commands, so pub/sub
+ * listeners get their own.
+ */
+export const getRedisSubscriber = (): Redis => {
+  if (subscriber) {
+    return subscriber;
+  }
+
+  subscriber = new Redis(config.redisUrl, {
+    maxRetriesPerRequest: null,
+  });
+
+  subscriber.on("error", (err) => {
+    logger.warn(err, "Redis subscriber connection error");
+  });
+
+  return subscriber;
+};
+
+export const closeRedisSubscriber = async (): Promise<void> => {
+  if (subscriber) {
+    await subscriber.quit();
+    subscriber = null;
+    logger.info("Redis subscriber connection closed");
+  }
+};
+
 export default getRedisClient;
@@ -1,4 +1,5 @@
 import dotenv from "dotenv";
+import { HardFork, isHardFork } from "../types/analysis";
 
 dotenv.config();
 
@@ -16,10 +17,93 @@ const parseList = (value: string): string[] =>
     .map((entry) => entry.trim())
     .filter(Boolean);
 
+export type RpcMode = "live" | "record" | "replay";
+
+const parseRpcMode = (): RpcMode => {
+  const mode = process.env.RPC_MODE ?? "live";
+  if (mode !== "live" && mode !== "record" && mode !== "replay") {
+    throw new Error("Environment variable RPC_MODE must be one of live, record, replay");
+  }
+  return mode;
+};
+
+const rpcMode = parseRpcMode();
+
+export interface NetworkConfig {
+  name: string;
+  chainId: number;
+  rpcUrls: string[];
+  /** Uniswap V2 compatible router used by the trade simulation. */
+  dexRouter?: string;
+  /** Decides which opcodes exist and how SELFDESTRUCT behaves. */
+  hardFork: HardFork;
+}
+
+const knownChainIds: Record<string, number> = {
+  mainnet: 1,
+  sepolia: 11155111,
+  holesky: 17000,
+  polygon: 137,
+  arbitrum: 42161,
+  optimism: 10,
+  base: 8453,
+  bsc: 56,
+};
+
+// Other networks default to Prague, which added no opcodes over Cancun.
+const knownHardForks: Record<string, HardFork> = {
+  mainnet: "osaka",
+  sepolia: "osaka",
+  holesky: "osaka",
+};
+
+const knownDexRouters: Record<string, string> = {
+  mainnet: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D",
+  bsc: "0x10ED43C718714eb63d5aA57B5B53E0e68A4e4b3B",
+};
+
+// Each entry in NETWORKS reads <NAME>_RPC_URLS (comma-separated), <NAME>_CHAIN_ID,
+// <NAME>_DEX_ROUTER and <NAME>_HARD_FORK. Mainnet falls back to RPC_URL, well-known
+// names to their chain id, router and fork. Replay mode serves fixtures, so RPC URLs are optional.
+const parseNetworks = (): Record<string, NetworkConfig> => {
+  const names = parseList(process.env.NETWORKS ?? "mainnet").map((name) => name.toLowerCase());
+
+  return Object.fromEntries(
+    names.map((name) => {
+      const prefix = name.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+      const rpcUrl = (key: string) => (rpcMode === "replay" ? process.env[key] ?? "" : getEnv(key));
+      const rpcUrls = parseList(
+        name === "mainnet"
+          ? process.env[`${prefix}_RPC_URLS`] ?? rpcUrl("RPC_URL")
+          : rpcUrl(`${prefix}_RPC_URLS`)
+      );
+      const chainId = Number(
+        process.env[`${prefix}_CHAIN_ID`] ?? knownChainIds[name] ?? getEnv(`${prefix}_CHAIN_ID`)
+      );
+      if (!Number.isInteger(chainId) || chainId <= 0) {
+        throw new Error(`Environment variable ${prefix}_CHAIN_ID must be a positive integer`);
+      }
+      const dexRouter = process.env[`${prefix}_DEX_ROUTER`] ?? knownDexRouters[name];
+      const hardFork = process.env[`${prefix}_HARD_FORK`] ?? knownHardForks[name] ?? "prague";
+      if (!isHardFork(hardFork)) {
+        throw new Error(`Environment variable ${prefix}_HARD_FORK is not a known hard fork`);
+      }
+      return [
+        name,
+        { name, chainId, rpcUrls, hardFork, ...(dexRouter ? { dexRouter } : {}) },
+      ];
+    })
+  );
+};
+
 export const config = {
   nodeEnv: process.env.NODE_ENV ?? "development",
   port: Number(process.env.PORT ?? 3000),
-  rpcUrl: getEnv("RPC_URL"),
+  networks: parseNetworks(),
+  rpc: {
+    mode: rpcMode,
+    fixtureDir: process.env.RPC_FIXTURE_DIR ?? "fixtures/rpc",
+  },
   mongoUri: getEnv("MONGO_URI", "mongodb://localhost:27017/web3-security"),
   redisUrl: getEnv("REDIS_URL", "redis://localhost:6379"),
   kafka: {
@@ -29,8 +113,45 @@ export const config = {
       ...string[]
     ],
     topic: process.env.KAFKA_TOPIC ?? "contract-scan-requests",
+    deadLetterTopic:
+      process.env.KAFKA_DLQ_TOPIC ??
+      `${process.env.KAFKA_TOPIC ?? "contract-scan-requests"}.dlq`,
+  },
+  scanRetry: {
+    maxAttempts: Number(process.env.SCAN_MAX_ATTEMPTS ?? 4),
+    baseDelayMs: Number(process.env.SCAN_RETRY_BASE_MS ?? 2000),
+    maxDelayMs: Number(process.env.SCAN_RETRY_MAX_MS ?? 60000),
+    leaseMs: Number(process.env.SCAN_LEASE_MS ?? 600000),
   },
   cacheTtlSeconds: Number(process.env.CACHE_TTL_SECONDS ?? 600),
+  scoringProfile: process.env.SCORING_PROFILE ?? "standard",
+  simulation: {
+    enabled: process.env.SIMULATION_ENABLED === "true",
+    buyAmountWei: BigInt(process.env.SIMULATION_BUY_WEI ?? "10000000000000000"),
+    timeoutMs: Number(process.env.SIMULATION_TIMEOUT_MS ?? 30000),
+    fixtureDir: process.env.SIMULATION_FIXTURE_DIR,
+  },
+  sourceVerification: {
+    compileTimeoutMs: Number(process.env.SOURCE_COMPILE_TIMEOUT_MS ?? 120000),
+  },
+  delegation: {
+    minBalanceWei: BigInt(process.env.DELEGATION_MIN_BALANCE_WEI ?? "1000000000000000000"),
+  },
+  webhooks: {
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS ?? 10000),
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 5),
+    retryBaseSeconds: Number(process.env.WEBHOOK_RETRY_BASE_SECONDS ?? 30),
+    retryPollSeconds: Number(process.env.WEBHOOK_RETRY_POLL_SECONDS ?? 15),
+    /** Lets subscriptions target localhost and private networks, e.g. in local development. */
+    allowPrivateUrls: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true",
+  },
+  monitorIntervalSeconds: Number(process.env.MONITOR_INTERVAL_SECONDS ?? 60),
+  rescanIntervalSeconds: {
+    critical: Number(process.env.RESCAN_INTERVAL_CRITICAL_SECONDS ?? 3600),
+    high: Number(process.env.RESCAN_INTERVAL_HIGH_SECONDS ?? 21600),
+    medium: Number(process.env.RESCAN_INTERVAL_MEDIUM_SECONDS ?? 86400),
+    low: Number(process.env.RESCAN_INTERVAL_LOW_SECONDS ?? 604800),
+  },
 };
 
 export default config;
@@ -0,0 +1,81 @@
+import { Schema, model, Document } from "mongoose";
+import {
+  AnalysisFinding,
+  CompilerMetadata,
+  FunctionSummary,
+  HardFork,
+  InitCodeSummary,
+  OpcodeSummary,
+  RiskLevel,
+  ScoreBreakdown,
+  TokenInfo,
+} from "../types/analysis";
+
+/** "runtime" for deployed code, "creation" for init code as sent in a deployment. */
+export type ArtifactKind = "runtime" | "creation";
+
+/** A pre-deployment analysis of submitted bytecode, not tied to any contract. */
+export interface ArtifactScanDocument extends Document {
+  name?: string;
+  kind: ArtifactKind;
+  labels: string[];
+  metadata: Record<string, unknown>;
+  /** Hash of the submitted code; for creation code the runtime hash is `bytecodeHash`. */
+  artifactHash: string;
+  bytecodeHash: string;
+  riskScore: number;
+  riskLevel: RiskLevel;
+  scoringProfile: string;
+  scoreBreakdown: ScoreBreakdown;
+  findings: AnalysisFinding[];
+  opcodeSummary: OpcodeSummary;
+  functions: FunctionSummary[];
+  token?: TokenInfo;
+  compiler?: CompilerMetadata;
+  initCode?: InitCodeSummary;
+  hardFork: HardFork;
+  abi?: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const artifactScanSchema = new Schema<ArtifactScanDocument>(
+  {
+    name: { type: String },
+    kind: { type: String, required: true, enum: ["runtime", "creation"] },
+    labels: { type: [String], default: [] },
+    metadata: { type: Schema.Types.Mixed, default: {} },
+    artifactHash: { type: String, required: true, index: true },
+    bytecodeHash: { type: String, required: true },
+    riskScore: { type: Number, required: true },
+    riskLevel: {
+      type: String,
+      required: true,
+      enum: ["low", "medium", "high", "critical"],
+    },
+    scoringProfile: { type: String, required: true },
+    scoreBreakdown: { type: Schema.Types.Mixed, required: true },
+    findings: { type: Schema.Types.Mixed, default: [] },
+    opcodeSummary: { type: Schema.Types.Mixed, required: true },
+    functions: { type: Schema.Types.Mixed, default: [] },
+    token: { type: Schema.Types.Mixed },
+    compiler: { type: Schema.Types.Mixed },
+    initCode: { type: Schema.Types.Mixed },
+    hardFork: { type: String, required: true },
+    abi: { type: Schema.Types.Mixed },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        Reflect.deleteProperty(ret, "_id");
+        Reflect.deleteProperty(ret, "__v");
+      },
+    },
+  }
+);
+
+export const ArtifactScanModel = model<ArtifactScanDocument>("ArtifactScan", artifactScanSchema);
+
+export default ArtifactScanModel;
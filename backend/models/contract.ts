@@ -1,5 +1,38 @@
 import { Schema, model, Document, Types } from "mongoose";
-import { RiskLevel } from "../types/analysis";
+import { InterfaceAbi } from "ethers";
+import { CodeChange, ProxyInfo, RiskLevel, TokenInfo } from "../types/analysis";
+import { VerificationMatch } from "./verifiedSource";
+
+export interface ContractProxy extends ProxyInfo {
+  detectedAt: Date;
+}
+
+export interface ContractCodeChange extends CodeChange {
+  bytecodeHash: string;
+  detectedAt: Date;
+  scan: Types.ObjectId;
+}
+
+export interface ContractDelegation {
+  /** EIP-7702 delegate whose code runs for this EOA. */
+  target: string;
+  /** The delegate's own contract record, scanned separately. */
+  contract?: Types.ObjectId;
+  detectedAt: Date;
+}
+
+export interface ContractToken extends TokenInfo {
+  detectedAt: Date;
+}
+
+export interface ContractVerification {
+  source: Types.ObjectId;
+  compilerVersion: string;
+  contractName: string;
+  match: VerificationMatch;
+  bytecodeHash: string;
+  verifiedAt: Date;
+}
 
 export interface ContractDocument extends Document {
   address: string;
@@ -9,10 +42,86 @@ export interface ContractDocument extends Document {
   latestScan?: Types.ObjectId;
   riskScore?: number;
   riskLevel?: RiskLevel;
+  proxy?: ContractProxy;
+  implementation?: Types.ObjectId;
+  delegation?: ContractDelegation;
+  nextScanAt?: Date;
+  codeChange?: ContractCodeChange;
+  token?: ContractToken;
+  /** ABI of the verified source; used when a scan request brings none. */
+  abi?: InterfaceAbi;
+  verification?: ContractVerification;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const proxySchema = new Schema<ContractProxy>(
+  {
+    standard: {
+      type: String,
+      required: true,
+      enum: ["eip-1167", "eip-1967", "eip-1967-beacon", "eip-1822"],
+    },
+    implementation: { type: String, required: true, lowercase: true },
+    admin: { type: String, lowercase: true },
+    beacon: { type: String, lowercase: true },
+    detectedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const codeChangeSchema = new Schema<ContractCodeChange>(
+  {
+    kind: {
+      type: String,
+      required: true,
+      enum: ["metamorphic", "eoa-to-contract", "destroyed", "delegation-changed"],
+    },
+    previousBytecodeHash: { type: String, required: true },
+    bytecodeHash: { type: String, required: true },
+    detectedAt: { type: Date, required: true },
+    scan: { type: Schema.Types.ObjectId, ref: "Scan", required: true },
+  },
+  { _id: false }
+);
+
+const tokenSchema = new Schema<ContractToken>(
+  {
+    standards: {
+      type: [String],
+      required: true,
+      enum: ["erc20", "erc721", "erc1155", "erc4626"],
+    },
+    name: { type: String },
+    symbol: { type: String },
+    decimals: { type: Number },
+    totalSupply: { type: String },
+    detectedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const delegationSchema = new Schema<ContractDelegation>(
+  {
+    target: { type: String, required: true, lowercase: true },
+    contract: { type: Schema.Types.ObjectId, ref: "Contract" },
+    detectedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const verificationSchema = new Schema<ContractVerification>(
+  {
+    source: { type: Schema.Types.ObjectId, ref: "VerifiedSource", required: true },
+    compilerVersion: { type: String, required: true },
+    contractName: { type: String, required: true },
+    match: { type: String, required: true, enum: ["full", "partial"] },
+    bytecodeHash: { type: String, required: true },
+    verifiedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
 const contractSchema = new Schema<ContractDocument>(
   {
     address: { type: String, required: true, lowercase: true },
@@ -22,6 +131,14 @@ const contractSchema = new Schema<ContractDocument>(
     latestScan: { type: Schema.Types.ObjectId, ref: "Scan" },
     riskScore: { type: Number },
     riskLevel: { type: String, enum: ["low", "medium", "high", "critical"] },
+    proxy: { type: proxySchema },
+    implementation: { type: Schema.Types.ObjectId, ref: "Contract" },
+    delegation: { type: delegationSchema },
+    nextScanAt: { type: Date },
+    codeChange: { type: codeChangeSchema },
+    token: { type: tokenSchema },
+    abi: { type: Schema.Types.Mixed },
+    verification: { type: verificationSchema },
   },
   {
     timestamps: true,
@@ -37,6 +154,9 @@ const contractSchema = new Schema<ContractDocument>(
 
 contractSchema.index({ address: 1, network: 1 }, { unique: true });
 contractSchema.index({ riskLevel: 1 });
+contractSchema.index({ "proxy.standard": 1 }, { sparse: true });
+contractSchema.index({ nextScanAt: 1 });
+contractSchema.index({ "token.standards": 1 }, { sparse: true });
 
 export const ContractModel = model<ContractDocument>("Contract", contractSchema);
 
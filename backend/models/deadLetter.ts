@@ -0,0 +1,58 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type DeadLetterReason = "invalid-payload" | "retries-exhausted" | "processing-error";
+
+export interface DeadLetterDocument extends Document {
+  topic: string;
+  partition: number;
+  offset: string;
+  key?: string;
+  /** The original message value, kept verbatim so unparseable jobs can be inspected. */
+  value: string;
+  payload?: Record<string, unknown>;
+  scan?: Types.ObjectId;
+  reason: DeadLetterReason;
+  error: string;
+  attempts: number;
+  replayCount: number;
+  replayedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const deadLetterSchema = new Schema<DeadLetterDocument>(
+  {
+    topic: { type: String, required: true },
+    partition: { type: Number, required: true },
+    offset: { type: String, required: true },
+    key: { type: String },
+    value: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed },
+    scan: { type: Schema.Types.ObjectId, ref: "Scan" },
+    reason: {
+      type: String,
+      required: true,
+      enum: ["invalid-payload", "retries-exhausted", "processing-error"],
+    },
+    error: { type: String, required: true },
+    attempts: { type: Number, default: 0 },
+    replayCount: { type: Number, default: 0 },
+    replayedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        Reflect.deleteProperty(ret, "_id");
+        Reflect.deleteProperty(ret, "__v");
+      },
+    },
+  }
+);
+
+deadLetterSchema.index({ createdAt: -1 });
+
+export const DeadLetterModel = model<DeadLetterDocument>("DeadLetter", deadLetterSchema);
+
+export default DeadLetterModel;
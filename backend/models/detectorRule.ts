@@ -0,0 +1,32 @@
+import { Schema, model, Document } from "mongoose";
+import { RiskLevel } from "../types/analysis";
+
+export interface DetectorRuleDocument extends Document {
+  detectorId: string;
+  enabled: boolean;
+  severity?: RiskLevel;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const detectorRuleSchema = new Schema<DetectorRuleDocument>(
+  {
+    detectorId: { type: String, required: true, unique: true },
+    enabled: { type: Boolean, default: true },
+    severity: { type: String, enum: ["low", "medium", "high", "critical"] },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        Reflect.deleteProperty(ret, "_id");
+        Reflect.deleteProperty(ret, "__v");
+      },
+    },
+  }
+);
+
+export const DetectorRuleModel = model<DetectorRuleDocument>("DetectorRule", detectorRuleSchema);
+
+export default DetectorRuleModel;
@@ -0,0 +1,50 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type ProxyEventType = "upgraded" | "admin-changed" | "beacon-changed";
+
+export interface ProxyEventDocument extends Document {
+  contract: Types.ObjectId;
+  type: ProxyEventType;
+  previous?: string;
+  current?: string;
+  blockNumber: number;
+  scan?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const proxyEventSchema = new Schema<ProxyEventDocument>(
+  {
+    contract: {
+      type: Schema.Types.ObjectId,
+      ref: "Contract",
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: ["upgraded", "admin-changed", "beacon-changed"],
+      required: true,
+    },
+    previous: { type: String, lowercase: true },
+    current: { type: String, lowercase: true },
+    blockNumber: { type: Number, required: true },
+    scan: { type: Schema.Types.ObjectId, ref: "Scan" },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        Reflect.deleteProperty(ret, "_id");
+        Reflect.deleteProperty(ret, "__v");
+      },
+    },
+  }
+);
+
+proxyEventSchema.index({ contract: 1, createdAt: -1 });
+
+export const ProxyEventModel = model<ProxyEventDocument>("ProxyEvent", proxyEventSchema);
+
+export default ProxyEventModel;
@@ -1,24 +1,75 @@
 import { Schema, model, Document, Types } from "mongoose";
-import { AnalysisFinding, OpcodeSummary, RiskLevel } from "../types/analysis";
+import {
+  AnalysisFinding,
+  DetectorRef,
+  FunctionSummary,
+  CodeChange,
+  CompilerMetadata,
+  DelegationInfo,
+  HardFork,
+  OpcodeSummary,
+  ProxyInfo,
+  RiskLevel,
+  ScoreBreakdown,
+  TokenInfo,
+  TradeSimulation,
+} from "../types/analysis";
 
 export type ScanStatus = "pending" | "running" | "succeeded" | "failed";
 
+export type ScanTrigger =
+  | "manual"
+  | "proxy-implementation"
+  | "proxy-upgrade"
+  | "scheduled"
+  | "code-change"
+  | "eip7702-delegate";
+
 export interface ScanDocument extends Document {
   contract: Types.ObjectId;
   status: ScanStatus;
+  trigger: ScanTrigger;
   riskScore?: number;
   riskLevel?: RiskLevel;
+  scoringProfile?: string;
+  scoreBreakdown?: ScoreBreakdown;
   findings: AnalysisFinding[];
   opcodeSummary?: OpcodeSummary;
+  functions: FunctionSummary[];
+  token?: TokenInfo;
+  simulation?: TradeSimulation;
+  proxy?: ProxyInfo;
+  delegation?: DelegationInfo;
+  codeChange?: CodeChange;
+  compiler?: CompilerMetadata;
+  hardFork?: HardFork;
   bytecodeHash?: string;
   balanceWei?: string;
   blockNumber?: number;
+  /** Requested block number or hash; absent for scans of the latest block. */
+  blockTag?: number | string;
   error?: string;
+  /** Times a worker has started this scan, including retries. */
+  attempts: number;
+  /** Transient error behind the most recent retry. */
+  lastError?: string;
+  /** Until when the worker running this scan holds it; another may claim it afterwards. */
+  leaseExpiresAt?: Date;
   abi?: unknown;
+  parentScan?: Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const detectorRefSchema = new Schema<DetectorRef>(
+  {
+    id: { type: String, required: true },
+    version: { type: String, required: true },
+    originalSeverity: { type: String, enum: ["low", "medium", "high", "critical"] },
+  },
+  { _id: false }
+);
+
 const findingSchema = new Schema<AnalysisFinding>(
   {
     id: { type: String, required: true },
@@ -31,6 +82,8 @@ const findingSchema = new Schema<AnalysisFinding>(
     },
     references: { type: [String], default: [] },
     metadata: { type: Schema.Types.Mixed, default: {} },
+    detector: { type: detectorRefSchema },
+    sourceLocations: { type: Schema.Types.Mixed },
   },
   { _id: false }
 );
@@ -44,6 +97,21 @@ const opcodeSummarySchema = new Schema<OpcodeSummary>(
       default: {},
     },
     uniqueOpcodes: { type: Number, required: true },
+    dataBytes: { type: Number, default: 0 },
+    metadataBytes: { type: Number, default: 0 },
+    eof: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+const functionSummarySchema = new Schema<FunctionSummary>(
+  {
+    selector: { type: String, required: true },
+    entryPc: { type: Number, required: true },
+    signature: { type: String },
+    candidateSignatures: { type: [String], default: undefined },
+    dangerousOpcodes: { type: Schema.Types.Mixed, default: {} },
+    partial: { type: Boolean },
   },
   { _id: false }
 );
@@ -62,18 +130,45 @@ const scanSchema = new Schema<ScanDocument>(
       default: "pending",
       index: true,
     },
+    trigger: {
+      type: String,
+      enum: [
+        "manual",
+        "proxy-implementation",
+        "proxy-upgrade",
+        "scheduled",
+        "code-change",
+        "eip7702-delegate",
+      ],
+      default: "manual",
+    },
     riskScore: { type: Number },
     riskLevel: {
       type: String,
       enum: ["low", "medium", "high", "critical"],
     },
+    scoringProfile: { type: String },
+    scoreBreakdown: { type: Schema.Types.Mixed },
     findings: { type: [findingSchema], default: [] },
     opcodeSummary: { type: opcodeSummarySchema },
+    functions: { type: [functionSummarySchema], default: [] },
+    token: { type: Schema.Types.Mixed },
+    simulation: { type: Schema.Types.Mixed },
+    proxy: { type: Schema.Types.Mixed },
+    delegation: { type: Schema.Types.Mixed },
+    codeChange: { type: Schema.Types.Mixed },
+    compiler: { type: Schema.Types.Mixed },
+    hardFork: { type: String },
     bytecodeHash: { type: String, index: true },
     balanceWei: { type: String },
     blockNumber: { type: Number },
+    blockTag: { type: Schema.Types.Mixed },
     error: { type: String },
+    attempts: { type: Number, default: 0 },
+    lastError: { type: String },
+    leaseExpiresAt: { type: Date },
     abi: { type: Schema.Types.Mixed },
+    parentScan: { type: Schema.Types.ObjectId, ref: "Scan" },
   },
   {
     timestamps: true,
@@ -0,0 +1,58 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type BatchItemResult = "enqueued" | "deduplicated" | "invalid";
+
+export interface ScanBatchItem {
+  index: number;
+  address: string;
+  network?: string;
+  result: BatchItemResult;
+  scan?: Types.ObjectId;
+  error?: string;
+  details?: unknown;
+}
+
+export interface ScanBatchDocument extends Document {
+  source: "json" | "csv";
+  items: ScanBatchItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scanBatchItemSchema = new Schema<ScanBatchItem>(
+  {
+    index: { type: Number, required: true },
+    address: { type: String, required: true },
+    network: { type: String },
+    result: {
+      type: String,
+      required: true,
+      enum: ["enqueued", "deduplicated", "invalid"],
+    },
+    scan: { type: Schema.Types.ObjectId, ref: "Scan" },
+    error: { type: String },
+    details: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+const scanBatchSchema = new Schema<ScanBatchDocument>(
+  {
+    source: { type: String, required: true, enum: ["json", "csv"] },
+    items: { type: [scanBatchItemSchema], default: [] },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        Reflect.deleteProperty(ret, "_id");
+        Reflect.deleteProperty(ret, "__v");
+      },
+    },
+  }
+);
+
+export const ScanBatchModel = model<ScanBatchDocument>("ScanBatch", scanBatchSchema);
+
+export default ScanBatchModel;
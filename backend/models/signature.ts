@@ -0,0 +1,35 @@
+import { Schema, model, Document } from "mongoose";
+
+export type SignatureSource = "bundled" | "import";
+
+export interface SignatureDocument extends Document {
+  selector: string;
+  signature: string;
+  source: SignatureSource;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const signatureSchema = new Schema<SignatureDocument>(
+  {
+    selector: { type: String, required: true, lowercase: true, index: true },
+    signature: { type: String, required: true },
+    source: { type: String, enum: ["bundled", "import"], default: "import" },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        Reflect.deleteProperty(ret, "_id");
+        Reflect.deleteProperty(ret, "__v");
+      },
+    },
+  }
+);
+
+signatureSchema.index({ selector: 1, signature: 1 }, { unique: true });
+
+export const SignatureModel = model<SignatureDocument>("Signature", signatureSchema);
+
+export default SignatureModel;
@@ -0,0 +1,63 @@
+import { Schema, model, Document, Types } from "mongoose";
+import { InterfaceAbi } from "ethers";
+import { SourceMapData } from "../types/analysis";
+
+/**
+ * "full" when the compiled code matches byte for byte, "partial" when it only
+ * matches once the metadata hash is ignored (e.g. whitespace or comments differ).
+ */
+export type VerificationMatch = "full" | "partial";
+
+export interface CompilerSettings {
+  optimizer?: { enabled?: boolean; runs?: number };
+  evmVersion?: string;
+  viaIR?: boolean;
+  libraries?: Record<string, Record<string, string>>;
+}
+
+export interface VerifiedSourceDocument extends Document {
+  contract: Types.ObjectId;
+  compilerVersion: string;
+  /** Fully qualified as `path:Name`. */
+  contractName: string;
+  settings: CompilerSettings;
+  match: VerificationMatch;
+  /** Hash of the on-chain runtime code the sources were verified against. */
+  bytecodeHash: string;
+  abi: InterfaceAbi;
+  sourceMap: SourceMapData;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const verifiedSourceSchema = new Schema<VerifiedSourceDocument>(
+  {
+    contract: { type: Schema.Types.ObjectId, ref: "Contract", required: true },
+    compilerVersion: { type: String, required: true },
+    contractName: { type: String, required: true },
+    settings: { type: Schema.Types.Mixed, default: {} },
+    match: { type: String, required: true, enum: ["full", "partial"] },
+    bytecodeHash: { type: String, required: true },
+    abi: { type: Schema.Types.Mixed, required: true },
+    sourceMap: { type: Schema.Types.Mixed, required: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        Reflect.deleteProperty(ret, "_id");
+        Reflect.deleteProperty(ret, "__v");
+      },
+    },
+  }
+);
+
+verifiedSourceSchema.index({ contract: 1, bytecodeHash: 1 }, { unique: true });
+
+export const VerifiedSourceModel = model<VerifiedSourceDocument>(
+  "VerifiedSource",
+  verifiedSourceSchema
+);
+
+export default VerifiedSourceModel;
@@ -0,0 +1,78 @@
+import { Schema, model, Document, Types } from "mongoose";
+import { WebhookEvent } from "./webhookSubscription";
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookAttempt {
+  at: Date;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDeliveryDocument extends Document {
+  subscription: Types.ObjectId;
+  event: WebhookEvent;
+  scan: Types.ObjectId;
+  contract: Types.ObjectId;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  /** Unset once the delivery succeeds or runs out of attempts. */
+  nextAttemptAt?: Date;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attemptSchema = new Schema<WebhookAttempt>(
+  {
+    at: { type: Date, required: true },
+    statusCode: { type: Number },
+    error: { type: String },
+    durationMs: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const webhookDeliverySchema = new Schema<WebhookDeliveryDocument>(
+  {
+    subscription: {
+      type: Schema.Types.ObjectId,
+      ref: "WebhookSubscription",
+      required: true,
+    },
+    event: { type: String, required: true, enum: ["scan.completed", "risk.increased"] },
+    scan: { type: Schema.Types.ObjectId, ref: "Scan", required: true },
+    contract: { type: Schema.Types.ObjectId, ref: "Contract", required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: {
+      type: String,
+      enum: ["pending", "succeeded", "failed"],
+      default: "pending",
+    },
+    attempts: { type: [attemptSchema], default: [] },
+    nextAttemptAt: { type: Date },
+    deliveredAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        Reflect.deleteProperty(ret, "_id");
+        Reflect.deleteProperty(ret, "__v");
+      },
+    },
+  }
+);
+
+webhookDeliverySchema.index({ subscription: 1, createdAt: -1 });
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+export const WebhookDeliveryModel = model<WebhookDeliveryDocument>(
+  "WebhookDelivery",
+  webhookDeliverySchema
+);
+
+export default WebhookDeliveryModel;
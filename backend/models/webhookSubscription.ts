@@ -0,0 +1,66 @@
+import { Schema, model, Document } from "mongoose";
+import { RiskLevel } from "../types/analysis";
+
+export type WebhookEvent = "scan.completed" | "risk.increased";
+
+export interface WebhookFilters {
+  networks: string[];
+  labels: string[];
+  minRiskLevel?: RiskLevel;
+  findingIds: string[];
+}
+
+export interface WebhookSubscriptionDocument extends Document {
+  url: string;
+  description?: string;
+  /** HMAC-SHA256 signing key; never serialized. */
+  secret: string;
+  enabled: boolean;
+  events: WebhookEvent[];
+  filters: WebhookFilters;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const filtersSchema = new Schema<WebhookFilters>(
+  {
+    networks: { type: [String], default: [] },
+    labels: { type: [String], default: [] },
+    minRiskLevel: { type: String, enum: ["low", "medium", "high", "critical"] },
+    findingIds: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
+const webhookSubscriptionSchema = new Schema<WebhookSubscriptionDocument>(
+  {
+    url: { type: String, required: true },
+    description: { type: String },
+    secret: { type: String, required: true },
+    enabled: { type: Boolean, default: true, index: true },
+    events: {
+      type: [String],
+      enum: ["scan.completed", "risk.increased"],
+      default: ["scan.completed", "risk.increased"],
+    },
+    filters: { type: filtersSchema, default: () => ({}) },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        Reflect.deleteProperty(ret, "_id");
+        Reflect.deleteProperty(ret, "__v");
+        Reflect.deleteProperty(ret, "secret");
+      },
+    },
+  }
+);
+
+export const WebhookSubscriptionModel = model<WebhookSubscriptionDocument>(
+  "WebhookSubscription",
+  webhookSubscriptionSchema
+);
+
+export default WebhookSubscriptionModel;
@@ -0,0 +1,61 @@
+import config from "./config/env";
+import connectMongo, { disconnectMongo } from "./database/mongoClient";
+import getRedisClient, { closeRedisClient } from "./cache/redisClient";
+import { disconnectKafka, getKafkaProducer } from "./queue/kafka";
+import { pollProxies } from "./services/monitorService";
+import { enqueueDueRescans } from "./services/schedulerService";
+import logger from "./utils/logger";
+import { flushRpcFixtures } from "./utils/provider";
+
+let timer: NodeJS.Timeout | null = null;
+let stopping = false;
+
+const runCycle = async (): Promise<void> => {
+  const startedAt = Date.now();
+  try {
+    const changed = await pollProxies();
+    const rescans = await enqueueDueRescans();
+    logger.info(
+      { changed, rescans, durationMs: Date.now() - startedAt },
+      "Monitor cycle completed"
+    );
+  } catch (err) {
+    logger.error({ err }, "Monitor cycle failed");
+  } finally {
+    if (!stopping) {
+      timer = setTimeout(runCycle, config.monitorIntervalSeconds * 1000);
+    }
+  }
+};
+
+const startMonitor = async (): Promise<void> => {
+  await connectMongo();
+  getRedisClient();
+  await getKafkaProducer();
+
+  logger.info({ intervalSeconds: config.monitorIntervalSeconds }, "Monitor started");
+  await runCycle();
+};
+
+const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
+  logger.info({ signal }, "Monitor shutting down");
+  stopping = true;
+  if (timer) {
+    clearTimeout(timer);
+  }
+  await Promise.allSettled([
+    flushRpcFixtures(),
+    disconnectMongo(),
+    closeRedisClient(),
+    disconnectKafka(),
+  ]);
+  process.exit(0);
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+startMonitor().catch((err) => {
+  logger.error({ err }, "Monitor failed to start");
+  process.exit(1);
+});
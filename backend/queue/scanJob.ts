@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { ScanJobPayload } from "../types/analysis";
+
+const scanJobSchema = z.object({
+  scanId: z.string().regex(/^[0-9a-f]{24}$/i, "Expected an ObjectId"),
+  contractId: z.string().regex(/^[0-9a-f]{24}$/i, "Expected an ObjectId"),
+  address: z.string().min(1),
+  network: z.string().optional(),
+  abi: z.any().optional(),
+  scoringProfile: z.string().optional(),
+  blockTag: z.union([z.number().int().nonnegative(), z.string()]).optional(),
+});
+
+/** Parses a raw Kafka message value; throws on malformed JSON or a bad shape. */
+export const parseScanJob = (value: string): ScanJobPayload => {
+  const parsed = scanJobSchema.parse(JSON.parse(value));
+  return {
+    scanId: parsed.scanId,
+    contractId: parsed.contractId,
+    address: parsed.address,
+    ...(parsed.network ? { network: parsed.network } : {}),
+    ...(parsed.abi ? { abi: parsed.abi } : {}),
+    ...(parsed.scoringProfile ? { scoringProfile: parsed.scoringProfile } : {}),
+    ...(parsed.blockTag !== undefined ? { blockTag: parsed.blockTag } : {}),
+  };
+};
+
+export default parseScanJob;
@@ -0,0 +1,59 @@
+import { Router } from "express";
+import { z } from "zod";
+import asyncHandler from "../utils/asyncHandler";
+import { listDeadLetters, replayDeadLetter } from "../services/deadLetterService";
+
+const router = Router();
+
+router.get(
+  "/dead-letters",
+  asyncHandler(async (req, res) => {
+    const querySchema = z.object({
+      reason: z.enum(["invalid-payload", "retries-exhausted", "processing-error"]).optional(),
+      replayed: z
+        .enum(["true", "false"])
+        .transform((value) => value === "true")
+        .optional(),
+      limit: z
+        .string()
+        .transform((value) => parseInt(value, 10))
+        .optional(),
+      skip: z
+        .string()
+        .transform((value) => parseInt(value, 10))
+        .optional(),
+    });
+
+    const { reason, replayed, limit, skip } = querySchema.parse(req.query);
+
+    const options: Parameters<typeof listDeadLetters>[0] = {
+      limit: limit ?? 20,
+      skip: skip ?? 0,
+    };
+
+    if (reason) {
+      options.reason = reason;
+    }
+
+    if (replayed !== undefined) {
+      options.replayed = replayed;
+    }
+
+    const deadLetters = await listDeadLetters(options);
+    res.json({ data: deadLetters });
+  })
+);
+
+router.post(
+  "/dead-letters/:deadLetterId/replay",
+  asyncHandler(async (req, res) => {
+    const { deadLetterId } = req.params;
+    if (!deadLetterId) {
+      return res.status(400).json({ error: "Dead letter ID is required" });
+    }
+    const deadLetter = await replayDeadLetter(deadLetterId);
+    res.status(202).json(deadLetter);
+  })
+);
+
+export default router;
@@ -0,0 +1,73 @@
+import { Router } from "express";
+import { z } from "zod";
+import asyncHandler from "../utils/asyncHandler";
+import { analyzeArtifact, getArtifactScan } from "../services/artifactService";
+import { isHardFork } from "../types/analysis";
+
+const router = Router();
+
+const analyzeSchema = z.object({
+  bytecode: z
+    .string()
+    .regex(/^(0x)?([0-9a-fA-F]{2})+$/, "Expected non-empty hex-encoded bytecode"),
+  kind: z.enum(["runtime", "creation"]).default("runtime"),
+  abi: z.any().optional(),
+  scoringProfile: z.string().optional(),
+  network: z.string().optional(),
+  hardFork: z.string().refine(isHardFork, "Unknown hard fork").optional(),
+  persist: z.boolean().optional(),
+  name: z.string().min(1).optional(),
+  labels: z.array(z.string()).optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+router.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const {
+      bytecode,
+      kind,
+      abi,
+      scoringProfile,
+      network,
+      hardFork,
+      persist,
+      name,
+      labels,
+      metadata,
+    } = analyzeSchema.parse(req.body);
+    const { report, artifact } = await analyzeArtifact({
+      bytecode,
+      kind,
+      ...(abi ? { abi } : {}),
+      ...(scoringProfile ? { scoringProfile } : {}),
+      ...(network ? { network } : {}),
+      ...(hardFork ? { hardFork } : {}),
+      ...(persist !== undefined ? { persist } : {}),
+      ...(name ? { name } : {}),
+      ...(labels ? { labels } : {}),
+      ...(metadata ? { metadata } : {}),
+    });
+    if (artifact) {
+      return res.status(201).json({ ...report, artifactId: artifact.id });
+    }
+    res.json(report);
+  })
+);
+
+router.get(
+  "/:artifactId",
+  asyncHandler(async (req, res) => {
+    const { artifactId } = req.params;
+    if (!artifactId) {
+      return res.status(400).json({ error: "Artifact scan ID is required" });
+    }
+    const artifact = await getArtifactScan(artifactId);
+    if (!artifact) {
+      return res.status(404).json({ error: "Artifact scan not found" });
+    }
+    res.json(artifact);
+  })
+);
+
+export default router;
@@ -1,13 +1,19 @@
 import { Router } from "express";
+import { z } from "zod";
 import asyncHandler from "../utils/asyncHandler";
 import { getBlockNumber, getContractState } from "./ethService";
 
 const router = Router();
 
+const networkQuerySchema = z.object({
+  network: z.string().optional(),
+});
+
 router.get(
   "/block",
-  asyncHandler(async (_req, res) => {
-    const blockNumber = await getBlockNumber();
+  asyncHandler(async (req, res) => {
+    const { network } = networkQuerySchema.parse(req.query);
+    const blockNumber = await getBlockNumber(network);
     res.json({ blockNumber });
   })
 );
@@ -19,7 +25,8 @@ router.get(
     if (!address) {
       return res.status(400).json({ error: "Address parameter is required" });
     }
-    const state = await getContractState(address);
+    const { network } = networkQuerySchema.parse(req.query);
+    const state = await getContractState(address, network);
     res.json(state);
   })
 );
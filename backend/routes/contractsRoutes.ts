@@ -7,7 +7,14 @@ import {
   listContracts,
   normalizeAddress,
 } from "../services/contractService";
-import { createScanRequest, listScansForContract } from "../services/scanService";
+import {
+  createScanRequest,
+  getContractHistory,
+  listScansForContract,
+} from "../services/scanService";
+import { diffContractScans } from "../services/scanDiffService";
+import { getContractSource, verifyContractSource } from "../services/sourceVerificationService";
+import { blockTagSchema, scanRequestSchema } from "./scanSchemas";
 
 const router = Router();
 
@@ -19,6 +26,7 @@ router.get(
     const querySchema = z.object({
       riskLevel: riskLevelSchema,
       network: z.string().optional(),
+      tokenStandard: z.enum(["erc20", "erc721", "erc1155", "erc4626"]).optional(),
       limit: z
         .string()
         .transform((value) => parseInt(value, 10))
@@ -29,7 +37,7 @@ router.get(
         .optional(),
     });
 
-    const { riskLevel, network, limit, skip } = querySchema.parse(req.query);
+    const { riskLevel, network, tokenStandard, limit, skip } = querySchema.parse(req.query);
 
     const options: Parameters<typeof listContracts>[0] = {
       limit: limit ?? 20,
@@ -44,6 +52,10 @@ router.get(
       options.network = network;
     }
 
+    if (tokenStandard) {
+      options.tokenStandard = tokenStandard;
+    }
+
     const contracts = await listContracts(options);
     res.json({ data: contracts });
   })
@@ -88,6 +100,150 @@ router.get(
   })
 );
 
+router.get(
+  "/:address/scans/diff",
+  asyncHandler(async (req, res) => {
+    const { address } = req.params;
+    if (!address) {
+      return res.status(400).json({ error: "Address parameter is required" });
+    }
+    const querySchema = z.object({
+      network: z.string().optional(),
+      from: z.string().optional(),
+      to: z.string().optional(),
+    });
+
+    const { network, from, to } = querySchema.parse(req.query);
+
+    const options: Parameters<typeof diffContractScans>[1] = {};
+    if (network) {
+      options.network = network;
+    }
+    if (from) {
+      options.from = from;
+    }
+    if (to) {
+      options.to = to;
+    }
+
+    const diff = await diffContractScans(address, options);
+    res.json(diff);
+  })
+);
+
+router.get(
+  "/:address/history",
+  asyncHandler(async (req, res) => {
+    const { address } = req.params;
+    if (!address) {
+      return res.status(400).json({ error: "Address parameter is required" });
+    }
+    const querySchema = z.object({
+      network: z.string().optional(),
+    });
+
+    const { network } = querySchema.parse(req.query);
+
+    const history = await getContractHistory(address, network);
+    res.json({ data: history });
+  })
+);
+
+const sourceSchema = z.object({
+  network: z.string().optional(),
+  compilerVersion: z.string().min(1),
+  contractName: z.string().min(1).optional(),
+  sources: z
+    .record(z.union([z.string(), z.object({ content: z.string() })]))
+    .refine((sources) => Object.keys(sources).length > 0, {
+      message: "Provide at least one source",
+    }),
+  settings: z
+    .object({
+      optimizer: z
+        .object({ enabled: z.boolean().optional(), runs: z.number().int().positive().optional() })
+        .optional(),
+      evmVersion: z.string().optional(),
+      viaIR: z.boolean().optional(),
+      libraries: z.record(z.record(z.string())).optional(),
+    })
+    .optional(),
+});
+
+const toCompilerSettings = (
+  settings: NonNullable<z.infer<typeof sourceSchema>["settings"]>
+): NonNullable<Parameters<typeof verifyContractSource>[0]["settings"]> => {
+  const { optimizer, evmVersion, viaIR, libraries } = settings;
+  return {
+    ...(optimizer
+      ? {
+          optimizer: {
+            ...(optimizer.enabled !== undefined ? { enabled: optimizer.enabled } : {}),
+            ...(optimizer.runs !== undefined ? { runs: optimizer.runs } : {}),
+          },
+        }
+      : {}),
+    ...(evmVersion ? { evmVersion } : {}),
+    ...(viaIR !== undefined ? { viaIR } : {}),
+    ...(libraries ? { libraries } : {}),
+  };
+};
+
+router.post(
+  "/:address/source",
+  asyncHandler(async (req, res) => {
+    const { address } = req.params;
+    if (!address) {
+      return res.status(400).json({ error: "Address parameter is required" });
+    }
+    const payload = sourceSchema.parse(req.body);
+    const input: Parameters<typeof verifyContractSource>[0] = {
+      address,
+      compilerVersion: payload.compilerVersion,
+      sources: Object.fromEntries(
+        Object.entries(payload.sources).map(([path, source]) => [
+          path,
+          typeof source === "string" ? source : source.content,
+        ])
+      ),
+    };
+
+    if (payload.network) {
+      input.network = payload.network;
+    }
+    if (payload.contractName) {
+      input.contractName = payload.contractName;
+    }
+    if (payload.settings) {
+      input.settings = toCompilerSettings(payload.settings);
+    }
+
+    const { contract, source, match } = await verifyContractSource(input);
+    res.status(201).json({ match, verification: contract.verification, source });
+  })
+);
+
+router.get(
+  "/:address/source",
+  asyncHandler(async (req, res) => {
+    const { address } = req.params;
+    if (!address) {
+      return res.status(400).json({ error: "Address parameter is required" });
+    }
+    const querySchema = z.object({
+      network: z.string().optional(),
+    });
+
+    const { network } = querySchema.parse(req.query);
+
+    const source = await getContractSource(address, network);
+    if (!source) {
+      return res.status(404).json({ error: "Contract has no verified source" });
+    }
+    res.json(source);
+  })
+);
+
 const createContractSchema = z.object({
   address: z.string().min(1),
   network: z.string().optional(),
@@ -95,6 +251,8 @@ const createContractSchema = z.object({
   metadata: z.record(z.any()).optional(),
   abi: z.any().optional(),
   enqueueScan: z.boolean().optional(),
+  scoringProfile: z.string().optional(),
+  blockTag: blockTagSchema,
 });
 
 router.post(
@@ -135,6 +293,12 @@ router.post(
       if (payload.metadata) {
         scanPayload.metadata = payload.metadata;
       }
+      if (payload.scoringProfile) {
+        scanPayload.scoringProfile = payload.scoringProfile;
+      }
+      if (payload.blockTag !== undefined) {
+        scanPayload.blockTag = payload.blockTag;
+      }
 
       scan = await createScanRequest(scanPayload);
     }
@@ -143,13 +307,6 @@ router.post(
   })
 );
 
-const scanRequestSchema = z.object({
-  abi: z.any().optional(),
-  network: z.string().optional(),
-  labels: z.array(z.string()).optional(),
-  metadata: z.record(z.any()).optional(),
-});
-
 router.post(
   "/:address/scan",
   asyncHandler(async (req, res) => {
@@ -174,6 +331,12 @@ router.post(
     if (payload.metadata) {
       scanPayload.metadata = payload.metadata;
     }
+    if (payload.scoringProfile) {
+      scanPayload.scoringProfile = payload.scoringProfile;
+    }
+    if (payload.blockTag !== undefined) {
+      scanPayload.blockTag = payload.blockTag;
+    }
 
     const scan = await createScanRequest(scanPayload);
 
@@ -1,16 +1,16 @@
 import { formatEther } from "ethers";
 import { normalizeAddress } from "../services/contractService";
 import { getCachedBytecode, setCachedBytecode } from "../services/cacheService";
-import getProvider from "../utils/provider";
+import getProvider, { getNetworkConfig } from "../utils/provider";
 
-const provider = getProvider();
-
-export const getBlockNumber = async (): Promise<number> => {
-  return provider.getBlockNumber();
+export const getBlockNumber = async (network = "mainnet"): Promise<number> => {
+  return getProvider(network).getBlockNumber();
 };
 
-export const getContractState = async (address: string) => {
+export const getContractState = async (address: string, network = "mainnet") => {
   const checksum = normalizeAddress(address);
+  const networkName = getNetworkConfig(network).name;
+  const provider = getProvider(networkName);
 
   const [blockNumber, balance, txCount] = await Promise.all([
     provider.getBlockNumber(),
@@ -18,14 +18,15 @@ export const getContractState = async (address: string) => {
     provider.getTransactionCount(checksum),
   ]);
 
-  let bytecode = await getCachedBytecode(checksum);
+  let bytecode = await getCachedBytecode(networkName, checksum);
   if (!bytecode) {
     bytecode = await provider.getCode(checksum);
-    await setCachedBytecode(checksum, bytecode);
+    await setCachedBytecode(networkName, checksum, bytecode);
   }
 
   return {
     address: checksum,
+    network: networkName,
     balance: formatEther(balance),
     balanceWei: balance.toString(),
     bytecode,
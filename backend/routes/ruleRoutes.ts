@@ -0,0 +1,91 @@
+import { Router } from "express";
+import { z } from "zod";
+import asyncHandler from "../utils/asyncHandler";
+import {
+  createRule,
+  deleteRule,
+  getRule,
+  listRules,
+  updateRule,
+} from "../services/ruleService";
+
+const router = Router();
+
+const severitySchema = z.enum(["low", "medium", "high", "critical"]);
+
+const createSchema = z.object({
+  detectorId: z.string().min(1),
+  enabled: z.boolean().optional(),
+  severity: severitySchema.optional(),
+});
+
+const updateSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    severity: severitySchema.nullable().optional(),
+  })
+  .refine((value) => value.enabled !== undefined || value.severity !== undefined, {
+    message: "Provide enabled or severity",
+  });
+
+router.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    const rules = await listRules();
+    res.json({ data: rules });
+  })
+);
+
+router.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const { detectorId, enabled, severity } = createSchema.parse(req.body);
+    const rule = await createRule(detectorId, {
+      ...(enabled !== undefined ? { enabled } : {}),
+      ...(severity ? { severity } : {}),
+    });
+    res.status(201).json(rule);
+  })
+);
+
+router.get(
+  "/:detectorId",
+  asyncHandler(async (req, res) => {
+    const { detectorId } = req.params;
+    if (!detectorId) {
+      return res.status(400).json({ error: "Detector id parameter is required" });
+    }
+    const rule = await getRule(detectorId);
+    res.json(rule);
+  })
+);
+
+router.patch(
+  "/:detectorId",
+  asyncHandler(async (req, res) => {
+    const { detectorId } = req.params;
+    if (!detectorId) {
+      return res.status(400).json({ error: "Detector id parameter is required" });
+    }
+    const { enabled, severity } = updateSchema.parse(req.body);
+    const rule = await updateRule(detectorId, {
+      ...(enabled !== undefined ? { enabled } : {}),
+      ...(severity !== undefined ? { severity } : {}),
+    });
+    res.json(rule);
+  })
+);
+
+router.delete(
+  "/:detectorId",
+  asyncHandler(async (req, res) => {
+    const { detectorId } = req.params;
+    if (!detectorId) {
+      return res.status(400).json({ error: "Detector id parameter is required" });
+    }
+    const rule = await deleteRule(detectorId);
+    res.json(rule);
+  })
+);
+
+export default router;
@@ -1,7 +1,18 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import { z } from "zod";
 import asyncHandler from "../utils/asyncHandler";
 import { getScanById, listScans } from "../services/scanService";
+import { createScanBatch, getScanBatchProgress } from "../services/batchService";
+import { diffScans } from "../services/scanDiffService";
+import {
+  ScanEvent,
+  getScanSnapshot,
+  isTerminalStatus,
+  subscribeToScanEvents,
+} from "../services/scanEventService";
+import { listScoringProfiles } from "../services/analysis/scoring";
+import config from "../config/env";
+import { parseBatchBody } from "./scanSchemas";
 
 const router = Router();
 
@@ -38,6 +49,39 @@ router.get(
   })
 );
 
+router.get(
+  "/scoring-profiles",
+  asyncHandler(async (_req, res) => {
+    res.json({
+      default: config.scoringProfile,
+      data: listScoringProfiles(),
+    });
+  })
+);
+
+router.post(
+  "/batch",
+  express.text({ type: ["text/csv", "application/csv"], limit: "5mb" }),
+  asyncHandler(async (req, res) => {
+    const { source, entries } = parseBatchBody(req.body);
+
+    const batch = await createScanBatch(source, entries);
+    res.status(201).json({ batchId: batch._id, items: batch.toJSON().items });
+  })
+);
+
+router.get(
+  "/batch/:batchId",
+  asyncHandler(async (req, res) => {
+    const { batchId } = req.params;
+    if (!batchId) {
+      return res.status(400).json({ error: "Batch ID is required" });
+    }
+    const progress = await getScanBatchProgress(batchId);
+    res.json(progress);
+  })
+);
+
 router.get(
   "/:scanId",
   asyncHandler(async (req, res) => {
@@ -53,4 +97,74 @@ router.get(
   })
 );
 
+const SSE_HEARTBEAT_MS = 15_000;
+
+router.get(
+  "/:scanId/events",
+  asyncHandler(async (req, res) => {
+    const { scanId } = req.params;
+    if (!scanId) {
+      return res.status(400).json({ error: "Scan ID is required" });
+    }
+
+    // Subscribe before reading the snapshot so a transition in between is
+    // not lost; events older than the snapshot are dropped below.
+    const buffered: ScanEvent[] = [];
+    let relay: (event: ScanEvent) => void = (event) => buffered.push(event);
+    const unsubscribe = subscribeToScanEvents((event) => {
+      if (event.scanId === scanId) relay(event);
+    });
+
+    const snapshot = await getScanSnapshot(scanId).catch((error: unknown) => {
+      unsubscribe();
+      throw error;
+    });
+    if (!snapshot) {
+      unsubscribe();
+      return res.status(404).json({ error: "Scan not found" });
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), SSE_HEARTBEAT_MS);
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    req.on("close", close);
+
+    let lastAt = snapshot.at;
+    const send = (event: ScanEvent) => {
+      if (res.writableEnded || event.at < lastAt) return;
+      lastAt = event.at;
+      res.write(`event: status\ndata: ${JSON.stringify(event)}\n\n`);
+      if (isTerminalStatus(event.status)) close();
+    };
+
+    send(snapshot);
+    if (res.writableEnded) return;
+    relay = send;
+    buffered.forEach(send);
+  })
+);
+
+router.get(
+  "/:scanId/diff/:otherScanId",
+  asyncHandler(async (req, res) => {
+    const { scanId, otherScanId } = req.params;
+    if (!scanId || !otherScanId) {
+      return res.status(400).json({ error: "Both scan IDs are required" });
+    }
+    const diff = await diffScans(scanId, otherScanId);
+    res.json(diff);
+  })
+);
+
 export default router;
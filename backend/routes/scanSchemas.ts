@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { BatchEntry } from "../services/batchService";
+import { CreateScanRequest } from "../services/scanService";
+import { parseCsv } from "../utils/csv";
+
+export const blockTagSchema = z
+  .union([
+    z.number().int().nonnegative(),
+    z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Expected a block number or 32-byte block hash"),
+  ])
+  .optional();
+
+export const scanRequestSchema = z.object({
+  abi: z.any().optional(),
+  network: z.string().optional(),
+  labels: z.array(z.string()).optional(),
+  metadata: z.record(z.any()).optional(),
+  scoringProfile: z.string().optional(),
+  blockTag: blockTagSchema,
+});
+
+export const batchEntrySchema = scanRequestSchema.extend({
+  address: z.string().min(1),
+});
+
+const batchBodySchema = z.union([
+  z.array(z.unknown()),
+  z.object({ entries: z.array(z.unknown()) }).transform((body) => body.entries),
+]);
+
+/**
+ * Maps a CSV row onto the JSON entry shape: `labels` are `;`-separated,
+ * `abi` and `metadata` hold JSON and numeric `blockTag`s become block numbers.
+ */
+const csvRowToEntry = (row: Record<string, string>): Record<string, unknown> => {
+  const entry: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (value === "") continue;
+    if (column === "labels") {
+      entry.labels = value
+        .split(";")
+        .map((label) => label.trim())
+        .filter(Boolean);
+    } else if (column === "abi" || column === "metadata") {
+      entry[column] = JSON.parse(value);
+    } else if (column === "blockTag" && /^\d+$/.test(value)) {
+      entry.blockTag = Number(value);
+    } else {
+      entry[column] = value;
+    }
+  }
+  return entry;
+};
+
+const toBatchEntry = (raw: unknown): BatchEntry => {
+  const parsed = batchEntrySchema.safeParse(raw);
+  if (!parsed.success) {
+    const fields = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+    return {
+      address: typeof fields.address === "string" ? fields.address : "",
+      ...(typeof fields.network === "string" ? { network: fields.network } : {}),
+      error: "Validation failed",
+      details: parsed.error.issues,
+    };
+  }
+
+  const { address, network, abi, labels, metadata, scoringProfile, blockTag } = parsed.data;
+  const request: CreateScanRequest = { address };
+  if (network) {
+    request.network = network;
+  }
+  if (abi) {
+    request.abi = abi;
+  }
+  if (labels) {
+    request.labels = labels;
+  }
+  if (metadata) {
+    request.metadata = metadata;
+  }
+  if (scoringProfile) {
+    request.scoringProfile = scoringProfile;
+  }
+  if (blockTag !== undefined) {
+    request.blockTag = blockTag;
+  }
+  return { request };
+};
+
+/**
+ * Turns a POST /scans/batch body into entries: a CSV string (one row per
+ * scan), or a JSON array of entries, bare or under `entries`. Entries that
+ * fail validation are kept with the reason so the batch reports them.
+ */
+export const parseBatchBody = (
+  body: unknown
+): { source: "json" | "csv"; entries: BatchEntry[] } => {
+  if (typeof body === "string") {
+    return {
+      source: "csv",
+      entries: parseCsv(body).map((row) => {
+        try {
+          return toBatchEntry(csvRowToEntry(row));
+        } catch (error) {
+          return {
+            address: row.address ?? "",
+            ...(row.network ? { network: row.network } : {}),
+            error: "Invalid JSON in CSV row",
+            details: error instanceof Error ? error.message : error,
+          };
+        }
+      }),
+    };
+  }
+  return { source: "json", entries: batchBodySchema.parse(body ?? {}).map(toBatchEntry) };
+};
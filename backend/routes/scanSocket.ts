@@ -0,0 +1,96 @@
+import { IncomingMessage, Server } from "node:http";
+import { WebSocket, WebSocketServer } from "ws";
+import { z } from "zod";
+import { normalizeAddress } from "../services/contractService";
+import { ScanEvent, subscribeToScanEvents } from "../services/scanEventService";
+import logger from "../utils/logger";
+import { getNetworkConfig } from "../utils/provider";
+
+export const SCAN_SOCKET_PATH = "/scans/stream";
+
+const PING_INTERVAL_MS = 30_000;
+
+/** No address means every scan, which is what the dashboard listens to. */
+interface ScanFilter {
+  address?: string;
+  network?: string;
+}
+
+const subscribeMessageSchema = z.object({
+  type: z.literal("subscribe"),
+  address: z.string().optional(),
+  network: z.string().optional(),
+});
+
+const toFilter = (address?: string | null, network?: string | null): ScanFilter => ({
+  ...(address ? { address: normalizeAddress(address) } : {}),
+  ...(network ? { network: getNetworkConfig(network).name } : {}),
+});
+
+const matches = (filter: ScanFilter, event: ScanEvent): boolean =>
+  (!filter.address || filter.address === event.address) &&
+  (!filter.network || filter.network === event.network);
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Streams scan status events to WebSocket clients. The initial filter comes
+ * from the `address`/`network` query string; clients can change it later by
+ * sending `{ "type": "subscribe", "address"?, "network"? }`.
+ */
+export const attachScanSocket = (server: Server): WebSocketServer => {
+  const wss = new WebSocketServer({ server, path: SCAN_SOCKET_PATH });
+  const alive = new WeakSet<WebSocket>();
+
+  wss.on("connection", (socket: WebSocket, req: IncomingMessage) => {
+    const query = new URL(req.url ?? "", "http://localhost").searchParams;
+    let filter: ScanFilter;
+    try {
+      filter = toFilter(query.get("address"), query.get("network"));
+    } catch (error) {
+      socket.close(1008, errorMessage(error));
+      return;
+    }
+
+    alive.add(socket);
+    socket.on("pong", () => alive.add(socket));
+
+    const unsubscribe = subscribeToScanEvents((event) => {
+      if (socket.readyState === WebSocket.OPEN && matches(filter, event)) {
+        socket.send(JSON.stringify({ type: "scan", event }));
+      }
+    });
+
+    socket.on("message", (data) => {
+      try {
+        const message = subscribeMessageSchema.parse(JSON.parse(data.toString()));
+        filter = toFilter(message.address, message.network);
+        socket.send(JSON.stringify({ type: "subscribed", filter }));
+      } catch (error) {
+        socket.send(JSON.stringify({ type: "error", error: errorMessage(error) }));
+      }
+    });
+
+    socket.on("close", unsubscribe);
+    socket.send(JSON.stringify({ type: "subscribed", filter }));
+  });
+
+  // Drop clients that stopped answering pings so their listeners go away.
+  const ping = setInterval(() => {
+    for (const socket of wss.clients) {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      alive.delete(socket);
+      socket.ping();
+    }
+  }, PING_INTERVAL_MS);
+  wss.on("close", () => clearInterval(ping));
+
+  logger.info({ path: SCAN_SOCKET_PATH }, "Scan event WebSocket ready");
+  return wss;
+};
+
+export default attachScanSocket;
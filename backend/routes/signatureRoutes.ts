@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { z } from "zod";
+import asyncHandler from "../utils/asyncHandler";
+import { importSignatures, lookupSignatures } from "../services/signatureService";
+
+const router = Router();
+
+router.get(
+  "/:selector",
+  asyncHandler(async (req, res) => {
+    const selector = z
+      .string()
+      .regex(/^0x[0-9a-fA-F]{8}$/, "Selector must be 4 bytes of hex")
+      .parse(req.params.selector)
+      .toLowerCase();
+
+    const candidates = await lookupSignatures([selector]);
+    res.json({ selector, signatures: candidates[selector] ?? [] });
+  })
+);
+
+const importSchema = z.object({
+  signatures: z.array(z.string().min(1)).min(1).max(5000),
+});
+
+router.post(
+  "/import",
+  asyncHandler(async (req, res) => {
+    const { signatures } = importSchema.parse(req.body);
+    const result = await importSignatures(signatures);
+    res.status(201).json(result);
+  })
+);
+
+export default router;
@@ -0,0 +1,161 @@
+import { Router } from "express";
+import { z } from "zod";
+import config from "../config/env";
+import asyncHandler from "../utils/asyncHandler";
+import { isPrivateUrl } from "../utils/privateAddress";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  listWebhookDeliveries,
+  listWebhooks,
+  updateWebhook,
+} from "../services/webhookService";
+
+const router = Router();
+
+const riskLevelSchema = z.enum(["low", "medium", "high", "critical"]);
+
+const urlSchema = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//i.test(value), { message: "URL must use http or https" })
+  .refine((value) => config.webhooks.allowPrivateUrls || !isPrivateUrl(value), {
+    message: "URL must not point at localhost or a private network",
+  });
+
+const filtersSchema = z.object({
+  networks: z.array(z.string().min(1)).optional(),
+  labels: z.array(z.string().min(1)).optional(),
+  minRiskLevel: riskLevelSchema.nullable().optional(),
+  findingIds: z.array(z.string().min(1)).optional(),
+});
+
+const eventsSchema = z.array(z.enum(["scan.completed", "risk.increased"])).min(1);
+
+const createSchema = z.object({
+  url: urlSchema,
+  description: z.string().optional(),
+  enabled: z.boolean().optional(),
+  events: eventsSchema.optional(),
+  filters: filtersSchema.optional(),
+});
+
+const updateSchema = createSchema.partial().extend({
+  rotateSecret: z.boolean().optional(),
+});
+
+const toInput = (payload: z.infer<typeof updateSchema>) => {
+  const { filters } = payload;
+  return {
+    ...(payload.url ? { url: payload.url } : {}),
+    ...(payload.description !== undefined ? { description: payload.description } : {}),
+    ...(payload.enabled !== undefined ? { enabled: payload.enabled } : {}),
+    ...(payload.events ? { events: payload.events } : {}),
+    ...(payload.rotateSecret ? { rotateSecret: true } : {}),
+    ...(filters
+      ? {
+          filters: {
+            ...(filters.networks ? { networks: filters.networks } : {}),
+            ...(filters.labels ? { labels: filters.labels } : {}),
+            ...(filters.findingIds ? { findingIds: filters.findingIds } : {}),
+            ...(filters.minRiskLevel !== undefined ? { minRiskLevel: filters.minRiskLevel } : {}),
+          },
+        }
+      : {}),
+  };
+};
+
+router.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    const webhooks = await listWebhooks();
+    res.json({ data: webhooks });
+  })
+);
+
+router.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const payload = createSchema.parse(req.body);
+    const { subscription, secret } = await createWebhook({
+      ...toInput(payload),
+      url: payload.url,
+    });
+    res.status(201).json({ ...subscription.toJSON(), secret });
+  })
+);
+
+router.get(
+  "/:webhookId",
+  asyncHandler(async (req, res) => {
+    const { webhookId } = req.params;
+    if (!webhookId) {
+      return res.status(400).json({ error: "Webhook ID is required" });
+    }
+    const webhook = await getWebhook(webhookId);
+    res.json(webhook);
+  })
+);
+
+router.patch(
+  "/:webhookId",
+  asyncHandler(async (req, res) => {
+    const { webhookId } = req.params;
+    if (!webhookId) {
+      return res.status(400).json({ error: "Webhook ID is required" });
+    }
+    const payload = updateSchema.parse(req.body);
+    const { subscription, secret } = await updateWebhook(webhookId, toInput(payload));
+    res.json({ ...subscription.toJSON(), ...(secret ? { secret } : {}) });
+  })
+);
+
+router.delete(
+  "/:webhookId",
+  asyncHandler(async (req, res) => {
+    const { webhookId } = req.params;
+    if (!webhookId) {
+      return res.status(400).json({ error: "Webhook ID is required" });
+    }
+    const webhook = await deleteWebhook(webhookId);
+    res.json(webhook);
+  })
+);
+
+router.get(
+  "/:webhookId/deliveries",
+  asyncHandler(async (req, res) => {
+    const { webhookId } = req.params;
+    if (!webhookId) {
+      return res.status(400).json({ error: "Webhook ID is required" });
+    }
+    const querySchema = z.object({
+      status: z.enum(["pending", "succeeded", "failed"]).optional(),
+      limit: z
+        .string()
+        .transform((value) => parseInt(value, 10))
+        .optional(),
+      skip: z
+        .string()
+        .transform((value) => parseInt(value, 10))
+        .optional(),
+    });
+
+    const { status, limit, skip } = querySchema.parse(req.query);
+
+    const options: Parameters<typeof listWebhookDeliveries>[1] = {
+      limit: limit ?? 20,
+      skip: skip ?? 0,
+    };
+
+    if (status) {
+      options.status = status;
+    }
+
+    const deliveries = await listWebhookDeliveries(webhookId, options);
+    res.json({ data: deliveries });
+  })
+);
+
+export default router;
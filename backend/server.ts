@@ -1,19 +1,24 @@
 import app from "./app";
 import config from "./config/env";
 import connectMongo, { disconnectMongo } from "./database/mongoClient";
-import getRedisClient, { closeRedisClient } from "./cache/redisClient";
+import getRedisClient, { closeRedisClient, closeRedisSubscriber } from "./cache/redisClient";
 import { disconnectKafka, getKafkaProducer } from "./queue/kafka";
+import { seedSignatures } from "./services/signatureService";
+import attachScanSocket from "./routes/scanSocket";
 import logger from "./utils/logger";
+import { flushRpcFixtures } from "./utils/provider";
 
 const startServer = async (): Promise<void> => {
   try {
     await connectMongo();
+    await seedSignatures();
     getRedisClient();
     await getKafkaProducer();
 
-    app.listen(config.port, () => {
+    const server = app.listen(config.port, () => {
       logger.info({ port: config.port }, "API listening");
     });
+    attachScanSocket(server);
   } catch (err) {
     logger.error({ err }, "Failed to bootstrap application");
     process.exit(1);
@@ -22,7 +27,13 @@ const startServer = async (): Promise<void> => {
 
 const shutdown = async (signal: NodeJS.Signals) => {
   logger.info({ signal }, "Shutting down gracefully");
-  await Promise.allSettled([disconnectMongo(), closeRedisClient(), disconnectKafka()]);
+  await Promise.allSettled([
+    flushRpcFixtures(),
+    disconnectMongo(),
+    closeRedisClient(),
+    closeRedisSubscriber(),
+    disconnectKafka(),
+  ]);
   process.exit(0);
 };
 
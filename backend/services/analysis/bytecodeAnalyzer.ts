@@ -1,109 +1,32 @@
-import { Interface, InterfaceAbi, keccak256, FunctionFragment } from "ethers";
-import { AnalysisFinding, AnalysisReport, RiskLevel } from "../../types/analysis";
-
-const opcodeMetadata = {
-  f0: {
-    name: "CREATE",
-    severity: "medium" as RiskLevel,
-    title: "Contract deploys other contracts",
-    description:
-      "CREATE opcode detected. Factories and proxies often use CREATE. Review deployment logic for controlled usage.",
-  },
-  f1: {
-    name: "CALL",
-    severity: "medium" as RiskLevel,
-    title: "External call detected",
-    description:
-      "CALL opcode can forward arbitrary gas and value. Ensure called addresses are trusted or validated.",
-  },
-  f2: {
-    name: "CALLCODE",
-    severity: "critical" as RiskLevel,
-    title: "Legacy CALLCODE usage",
-    description:
-      "CALLCODE shares context with callee similar to DELEGATECALL and is widely considered unsafe.",
-  },
-  f4: {
-    name: "DELEGATECALL",
-    severity: "high" as RiskLevel,
-    title: "Delegatecall usage",
-    description:
-      "DELEGATECALL executes external code in the caller context. Ensure delegate target and storage layout are controlled.",
-  },
-  f5: {
-    name: "CREATE2",
-    severity: "medium" as RiskLevel,
-    title: "Deterministic deployments",
-    description:
-      "CREATE2 opcode detected. Verify salts and initialization logic to avoid collision or misuse.",
-  },
-  fa: {
-    name: "STATICCALL",
-    severity: "low" as RiskLevel,
-    title: "Static call usage",
-    description:
-      "STATICCALL is read-only but may indicate reliance on external contracts. Confirm upstream contract assumptions.",
-  },
-  ff: {
-    name: "SELFDESTRUCT",
-    severity: "high" as RiskLevel,
-    title: "Self-destruct capability",
-    description:
-      "SELFDESTRUCT enables the contract to wipe code and force-send funds. Ensure destruction is properly restricted.",
-  },
-  "3f": {
-    name: "EXTCODESIZE",
-    severity: "low" as RiskLevel,
-    title: "Contract existence checks",
-    description:
-      "EXTCODESIZE is often used to detect contracts. Ensure protections against flash-loan or phishing bypasses.",
-  },
-  "32": {
-    name: "ORIGIN",
-    severity: "high" as RiskLevel,
-    title: "tx.origin authentication",
-    description:
-      "ORIGIN opcode suggests reliance on tx.origin. This pattern is dangerous for authentication flows.",
-  },
-  "55": {
-    name: "SSTORE",
-    severity: "low" as RiskLevel,
-    title: "Storage mutation",
-    description:
-      "SSTORE indicates mutable state. Combined with admin-like functions this could enable privileged behavior.",
-  },
-} satisfies Record<
-  string,
-  { name: string; severity: RiskLevel; title: string; description: string }
->;
-
-const severityWeight: Record<RiskLevel, number> = {
-  low: 1,
-  medium: 3,
-  high: 6,
-  critical: 10,
-};
-
-const adminKeywords = [
-  "owner",
-  "admin",
-  "setadmin",
-  "setowner",
-  "pause",
-  "unpause",
-  "upgrade",
-  "transferownership",
-];
-
-const financialKeywords = [
-  "withdraw",
-  "deposit",
-  "transfer",
-  "mint",
-  "burn",
-  "sweep",
-  "claim",
-];
+import { Interface, InterfaceAbi, keccak256 } from "ethers";
+import {
+  AnalysisReport,
+  CodeChange,
+  DelegationInfo,
+  DetectorRule,
+  HardFork,
+  InitCodeSummary,
+  ProxyInfo,
+  SourceMapData,
+  TokenInfo,
+  TokenMetadata,
+  TradeSimulation,
+} from "../../types/analysis";
+import decodeCompilerMetadata from "./compilerMetadata";
+import parseDelegationDesignator from "./delegation";
+import disassemble from "./disassembler";
+import { latestHardFork } from "./opcodes";
+import extractFunctions from "./functionExtractor";
+import runDetectors, { dangerousOpcodeNames, guardedOpcodeNames } from "./detectors";
+import analyzeGuards from "./guardAnalysis";
+import {
+  defaultScoringProfile,
+  evaluateRiskLevel,
+  getScoringProfile,
+  scoreFindings,
+} from "./scoring";
+import classifyToken from "./tokenStandards";
+import { createSourceMapper, mapFindingSources } from "./sourceMap";
 
 const normalizeBytecode = (bytecode: string): string => {
   if (!bytecode) {
@@ -112,109 +35,77 @@ const normalizeBytecode = (bytecode: string): string => {
   return bytecode.startsWith("0x") ? bytecode.toLowerCase() : `0x${bytecode.toLowerCase()}`;
 };
 
-const isPushOpcode = (opcode: number): boolean => opcode >= 0x60 && opcode <= 0x7f;
-
 interface AnalyzeOptions {
   address: string;
   bytecode: string;
   balanceWei?: string;
   blockNumber?: number;
   abi?: InterfaceAbi;
+  signatureCandidates?: Record<string, string[]>;
+  proxy?: ProxyInfo;
+  previousBytecodeHash?: string;
+  /** Per-detector overrides keyed by detector id. */
+  rules?: Record<string, DetectorRule>;
+  /** Name of the scoring profile; defaults to the standard profile. */
+  scoringProfile?: string;
+  /** On-chain name, symbol, decimals and supply; only used if the code is a token. */
+  tokenMetadata?: TokenMetadata;
+  simulation?: TradeSimulation;
+  /** Verified source for this exact code; findings then carry source locations. */
+  sourceMap?: SourceMapData;
+  /** The network's active fork; defaults to the latest one. */
+  hardFork?: HardFork;
+  /** What is known about the delegate if the code is an EIP-7702 designator. */
+  delegate?: Omit<DelegationInfo, "target">;
+  minDelegatedBalanceWei?: bigint;
+  /** Constructor summary when `bytecode` is runtime code split out of creation code. */
+  initCode?: InitCodeSummary;
 }
 
-const evaluateRiskLevel = (score: number): RiskLevel => {
-  if (score >= 18) return "critical";
-  if (score >= 12) return "high";
-  if (score >= 6) return "medium";
-  return "low";
-};
-
-const appendFinding = (
-  findings: AnalysisFinding[],
-  metadataKey: string,
-  occurrences: number
-) => {
-  const entry = opcodeMetadata[metadataKey as keyof typeof opcodeMetadata];
-  if (!entry) return;
-
-  findings.push({
-    id: `${entry.name.toLowerCase()}-usage`,
-    title: entry.title,
-    description: `${entry.description} Observed ${occurrences} time(s).`,
-    severity: entry.severity,
-    metadata: {
-      occurrences,
-    },
-  });
-};
-
-const analyzeAbi = (
-  abi: InterfaceAbi | undefined
-): Pick<AnalysisFinding, "id" | "title" | "description" | "severity" | "metadata">[] => {
+const resolveSignatures = (
+  abi: InterfaceAbi | undefined,
+  signatureCandidates: Record<string, string[]> = {}
+): Map<string, string[]> => {
+  const signatures = new Map(Object.entries(signatureCandidates));
   if (!abi) {
-    return [];
+    return signatures;
   }
 
-  let iface: Interface;
   try {
-    iface = new Interface(abi);
-  } catch (err) {
-    return [
-      {
-        id: "abi-parse-error",
-        title: "ABI parsing failed",
-        description: `Provided ABI could not be parsed: ${
-          err instanceof Error ? err.message : String(err)
-        }`,
-        severity: "medium",
-        metadata: { rawError: err instanceof Error ? err.stack : err },
-      },
-    ];
+    new Interface(abi).forEachFunction((fragment) => {
+      signatures.set(fragment.selector, [fragment.format("sighash")]);
+    });
+  } catch {
+    // parse errors are reported by the abi-parse-error detector
   }
+  return signatures;
+};
 
-  const functionFragments = iface.fragments.filter(
-    (fragment): fragment is FunctionFragment => fragment.type === "function"
-  );
-
-  const findings: AnalysisFinding[] = [];
-
-  let adminFunctionCount = 0;
-  let financialFunctionCount = 0;
+// EOAs hash to "0x0" so an empty account never collides with real code.
+export const hashBytecode = (bytecode: string): string => {
+  const normalized = normalizeBytecode(bytecode);
+  return normalized === "0x" ? "0x0" : keccak256(normalized);
+};
 
-  for (const fragment of functionFragments) {
-    const fn = fragment.name?.toLowerCase();
-    if (!fn) {
-      continue;
-    }
-    if (adminKeywords.some((keyword) => fn.includes(keyword))) {
-      adminFunctionCount += 1;
-    }
-    if (financialKeywords.some((keyword) => fn.includes(keyword))) {
-      financialFunctionCount += 1;
-    }
+const detectCodeChange = (
+  previousBytecodeHash: string | undefined,
+  bytecodeHash: string,
+  delegated: boolean
+): CodeChange | null => {
+  if (!previousBytecodeHash || previousBytecodeHash === bytecodeHash) {
+    return null;
   }
-
-  if (adminFunctionCount > 0) {
-    findings.push({
-      id: "admin-function-detected",
-      title: "Administrative functions exposed",
-      description: `Detected ${adminFunctionCount} function(s) that match common administrative patterns.`,
-      severity: adminFunctionCount > 2 ? "high" : "medium",
-      metadata: { count: adminFunctionCount },
-    });
+  // Designators differ only by target, so any change means a new delegate.
+  if (delegated) {
+    return { kind: "delegation-changed", previousBytecodeHash };
   }
-
-  if (financialFunctionCount > 0) {
-    findings.push({
-      id: "financial-function-detected",
-      title: "Financial control functions exposed",
-      description: `Detected ${financialFunctionCount} function(s) with financial authority patterns.`,
-      severity: "medium",
-      metadata: { count: financialFunctionCount },
-    });
+  if (previousBytecodeHash === "0x0") {
+    return { kind: "eoa-to-contract", previousBytecodeHash };
   }
-
-  return findings;
+  if (bytecodeHash === "0x0") {
+    return { kind: "destroyed", previousBytecodeHash };
+  }
+  return { kind: "metamorphic", previousBytecodeHash };
 };
 
 export const analyzeBytecode = ({
@@ -223,109 +114,138 @@ export const analyzeBytecode = ({
   balanceWei,
   blockNumber,
   abi,
+  signatureCandidates,
+  proxy,
+  previousBytecodeHash,
+  rules,
+  scoringProfile = defaultScoringProfile,
+  tokenMetadata,
+  simulation,
+  sourceMap,
+  hardFork = latestHardFork,
+  delegate,
+  minDelegatedBalanceWei,
+  initCode,
 }: AnalyzeOptions): AnalysisReport => {
+  const profile = getScoringProfile(scoringProfile);
+  if (!profile) {
+    throw new Error(`Unknown scoring profile: ${scoringProfile}`);
+  }
+
   const normalizedBytecode = normalizeBytecode(bytecode);
   const hex = normalizedBytecode.slice(2);
 
-  if (hex.length === 0) {
-    return {
-      address,
-      riskScore: 0,
-      riskLevel: "low",
-      findings: [
-        {
-          id: "empty-bytecode",
-          title: "Externally Owned Account",
-          description:
-            "No bytecode found at this address. It is likely an externally owned account (EOA).",
-          severity: "low",
-        },
-      ],
-      opcodeSummary: {
-        totalOpcodes: 0,
-        dangerousOpcodeHits: {},
-        uniqueOpcodes: 0,
-      },
-      bytecodeHash: "0x0",
-      ...(balanceWei !== undefined ? { balanceWei } : {}),
-      ...(blockNumber !== undefined ? { blockNumber } : {}),
-    };
-  }
-
-  const uniqueOpcodes = new Set<string>();
+  const bytecodeHash = hashBytecode(normalizedBytecode);
+  const delegateTarget = parseDelegationDesignator(hex);
+  const delegation: DelegationInfo | undefined = delegateTarget
+    ? { target: delegateTarget, ...delegate }
+    : undefined;
+  const codeChange = detectCodeChange(previousBytecodeHash, bytecodeHash, delegation !== undefined);
+
+  // A delegated EOA has no code of its own; the designator is not instructions.
+  const disassembly = hex.length > 0 && !delegation ? disassemble(hex) : null;
+  const compiler = disassembly?.metadata ? decodeCompilerMetadata(disassembly.metadata) : undefined;
+  const uniqueOpcodes = new Set<number>();
   const dangerousOpcodeHits: Record<string, number> = {};
+  const programCounters: Record<string, number[]> = {};
   let totalOpcodes = 0;
+  let dataBytes = 0;
 
-  for (let i = 0; i < hex.length; ) {
-    const opcodeHex = hex.slice(i, i + 2);
-    i += 2;
-    totalOpcodes += 1;
-
-    uniqueOpcodes.add(opcodeHex);
-
-    const opcodeValue = parseInt(opcodeHex, 16);
-    if (isPushOpcode(opcodeValue)) {
-      const pushLength = opcodeValue - 0x5f;
-      i += pushLength * 2;
+  for (const block of disassembly?.blocks ?? []) {
+    if (!block.reachable) {
+      dataBytes += block.length;
+      continue;
     }
 
-    if (opcodeMetadata[opcodeHex as keyof typeof opcodeMetadata]) {
-      const entry = opcodeMetadata[opcodeHex as keyof typeof opcodeMetadata];
-      dangerousOpcodeHits[entry.name] = (dangerousOpcodeHits[entry.name] ?? 0) + 1;
+    for (const instruction of block.instructions) {
+      totalOpcodes += 1;
+      uniqueOpcodes.add(instruction.opcode);
+      (programCounters[instruction.name] ??= []).push(instruction.pc);
     }
   }
 
-  const findings: AnalysisFinding[] = [];
-
-  for (const [opcodeHex, entry] of Object.entries(opcodeMetadata)) {
-    const opcodeName = entry.name;
-    const occurrences = dangerousOpcodeHits[opcodeName];
-    if (occurrences) {
-      appendFinding(findings, opcodeHex, occurrences);
+  for (const name of dangerousOpcodeNames) {
+    const pcs = programCounters[name];
+    if (pcs) {
+      dangerousOpcodeHits[name] = pcs.length;
     }
   }
 
-  findings.push(...analyzeAbi(abi));
+  const signatures = resolveSignatures(abi, signatureCandidates);
+  const functions = disassembly ? extractFunctions(disassembly, signatures) : [];
 
-  if (balanceWei && findings.some((finding) => finding.severity === "high" || finding.severity === "critical")) {
-    findings.push({
-      id: "high-balance-with-risks",
-      title: "Balance guarded by risky patterns",
-      description:
-        "This contract holds funds and exposes high severity opcodes. Confirm access controls and upgrade paths.",
-      severity: "high",
-      metadata: { balanceWei },
-    });
-  }
+  const standards = disassembly
+    ? classifyToken([...functions.map((fn) => fn.selector), ...(abi ? signatures.keys() : [])])
+    : [];
+  const token: TokenInfo | undefined =
+    standards.length > 0 ? { standards, ...tokenMetadata } : undefined;
 
-  if (totalOpcodes / (hex.length / 2 || 1) < 0.25) {
-    findings.push({
-      id: "suspicious-padding",
-      title: "Large segments of bytecode data",
-      description:
-        "Significant portions of the bytecode are data segments rather than logic opcodes. Review for embedded payloads or obfuscation.",
-      severity: "medium",
-    });
-  }
-
-  const totalRiskScore = findings.reduce(
-    (acc, finding) => acc + severityWeight[finding.severity],
-    0
+  const detected = runDetectors(
+    {
+      address,
+      bytecodeHash,
+      disassembly,
+      programCounters,
+      callerGuards: disassembly
+        ? analyzeGuards(disassembly, new Set(guardedOpcodeNames))
+        : new Map(),
+      dataBytes,
+      functions,
+      hardFork,
+      ...(abi ? { abi } : {}),
+      ...(balanceWei !== undefined ? { balanceWei } : {}),
+      ...(proxy ? { proxy } : {}),
+      ...(delegation ? { delegation } : {}),
+      ...(minDelegatedBalanceWei !== undefined ? { minDelegatedBalanceWei } : {}),
+      ...(codeChange ? { codeChange } : {}),
+      ...(token ? { token } : {}),
+      ...(simulation ? { simulation } : {}),
+      ...(compiler ? { compiler } : {}),
+      ...(initCode ? { initCode } : {}),
+    },
+    rules
   );
+  const findings =
+    sourceMap && hex.length > 0
+      ? mapFindingSources(detected, createSourceMapper(sourceMap, hex))
+      : detected;
 
-  const riskLevel = evaluateRiskLevel(totalRiskScore);
+  const scoreBreakdown = scoreFindings(findings, profile);
+  const riskLevel = evaluateRiskLevel(scoreBreakdown.total, profile);
 
   const report: AnalysisReport = {
     address,
-    riskScore: totalRiskScore,
+    riskScore: scoreBreakdown.total,
     riskLevel,
+    scoreBreakdown,
     findings,
     opcodeSummary: {
       totalOpcodes,
       dangerousOpcodeHits,
       uniqueOpcodes: uniqueOpcodes.size,
+      dataBytes,
+      metadataBytes: (disassembly?.metadata?.length ?? 0) / 2,
+      ...(disassembly?.eof
+        ? {
+            eof: {
+              version: disassembly.eof.version,
+              codeSections: disassembly.eof.codeSections.length,
+              containerSections: disassembly.eof.containerSections.length,
+              dataSize: disassembly.eof.data.size,
+            },
+          }
+        : {}),
     },
-    bytecodeHash: keccak256(normalizedBytecode),
+    functions,
+    ...(token ? { token } : {}),
+    ...(simulation ? { simulation } : {}),
+    ...(proxy ? { proxy } : {}),
+    ...(delegation ? { delegation } : {}),
+    ...(codeChange ? { codeChange } : {}),
+    ...(compiler ? { compiler } : {}),
+    ...(initCode ? { initCode } : {}),
+    hardFork,
+    bytecodeHash,
     ...(balanceWei !== undefined ? { balanceWei } : {}),
     ...(blockNumber !== undefined ? { blockNumber } : {}),
   };
@@ -0,0 +1,143 @@
+import { encodeBase58 } from "ethers";
+import { CompilerMetadata } from "../../types/analysis";
+
+type CborValue = number | string | boolean | null | Uint8Array | CborValue[] | CborMap;
+type CborMap = Map<CborValue, CborValue>;
+
+// Trailers are a few dozen bytes; anything deeper is not compiler output.
+const MAX_DEPTH = 4;
+
+class CborReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  private byte(): number {
+    const value = this.bytes[this.offset];
+    if (value === undefined) throw new Error("Unexpected end of CBOR data");
+    this.offset += 1;
+    return value;
+  }
+
+  private take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) throw new Error("Unexpected end of CBOR data");
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  private argument(info: number): number {
+    if (info < 24) return info;
+    if (info > 27) throw new Error(`Unsupported CBOR length encoding ${info}`);
+    let value = 0;
+    for (const byte of this.take(2 ** (info - 24))) value = value * 256 + byte;
+    return value;
+  }
+
+  read(depth = 0): CborValue {
+    if (depth > MAX_DEPTH) throw new Error("CBOR nesting too deep");
+    const initial = this.byte();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return this.argument(info);
+      case 1:
+        return -1 - this.argument(info);
+      case 2:
+        return this.take(this.argument(info));
+      case 3:
+        return Buffer.from(this.take(this.argument(info))).toString("utf8");
+      case 4:
+        return Array.from({ length: this.argument(info) }, () => this.read(depth + 1));
+      case 5: {
+        const map: CborMap = new Map();
+        for (let i = this.argument(info); i > 0; i -= 1) {
+          map.set(this.read(depth + 1), this.read(depth + 1));
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        break;
+    }
+    throw new Error(`Unsupported CBOR item 0x${initial.toString(16)}`);
+  }
+}
+
+/** Undefined unless `hex` holds exactly one well-formed item. */
+const readCbor = (hex: string): CborValue | undefined => {
+  try {
+    const reader = new CborReader(Buffer.from(hex, "hex"));
+    const value = reader.read();
+    return reader.done ? value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const toHex = (bytes: Uint8Array): string => `0x${Buffer.from(bytes).toString("hex")}`;
+
+/** Versions are `[major, minor, patch]` arrays, 3-byte strings, or prerelease text. */
+const decodeVersion = (value: CborValue | undefined): string | undefined => {
+  if (typeof value === "string") return value;
+  const parts = value instanceof Uint8Array ? [...value] : Array.isArray(value) ? value : null;
+  if (!parts || parts.length !== 3 || !parts.every((part) => typeof part === "number")) {
+    return undefined;
+  }
+  return parts.join(".");
+};
+
+const fromMap = (map: CborMap, compiler?: CompilerMetadata["compiler"]): CompilerMetadata => {
+  const ipfs = map.get("ipfs");
+  const bzzr1 = map.get("bzzr1");
+  const bzzr0 = map.get("bzzr0");
+  const swarm =
+    bzzr1 instanceof Uint8Array
+      ? { version: "bzzr1" as const, hash: toHex(bzzr1) }
+      : bzzr0 instanceof Uint8Array
+        ? { version: "bzzr0" as const, hash: toHex(bzzr0) }
+        : undefined;
+  const version = decodeVersion(map.has("vyper") ? map.get("vyper") : map.get("solc"));
+
+  return {
+    // solc only started embedding its version in 0.5.9; older trailers carry
+    // just the Swarm hash.
+    compiler: compiler ?? (map.has("vyper") ? "vyper" : "solc"),
+    ...(version ? { version } : {}),
+    ...(ipfs instanceof Uint8Array ? { ipfs: encodeBase58(ipfs) } : {}),
+    ...(swarm ? { swarm } : {}),
+    ...(map.get("experimental") === true ? { experimental: true } : {}),
+  };
+};
+
+/**
+ * Decodes the CBOR trailer split off by the disassembler, including its two
+ * trailing length bytes. solc writes a map
+ * (`ipfs`/`bzzr0`/`bzzr1`, `solc`, `experimental`); vyper writes `{vyper: [...]}`
+ * before 0.3.10 and an array of section lengths ending in that map since.
+ * Returns undefined when the trailer isn't recognizable compiler output.
+ */
+export const decodeCompilerMetadata = (metadataHex: string): CompilerMetadata | undefined => {
+  const hex = metadataHex.startsWith("0x") ? metadataHex.slice(2) : metadataHex;
+  if (hex.length < 4) return undefined;
+  const value = readCbor(hex.slice(0, -4));
+  if (value instanceof Map) {
+    const known = ["ipfs", "bzzr0", "bzzr1", "solc", "vyper", "experimental"];
+    return known.some((key) => value.has(key)) ? fromMap(value) : undefined;
+  }
+  if (Array.isArray(value)) {
+    const last = value[value.length - 1];
+    return last instanceof Map && last.has("vyper") ? fromMap(last, "vyper") : undefined;
+  }
+  return undefined;
+};
+
+export default decodeCompilerMetadata;
@@ -0,0 +1,11 @@
+// EIP-7702 sets an EOA's code to `0xef0100 || address` to point it at the
+// code that runs when it is called.
+const DESIGNATOR = /^(?:0x)?ef0100([0-9a-f]{40})$/;
+
+/** The delegate's address when the code is an EIP-7702 delegation designator. */
+export const parseDelegationDesignator = (bytecode: string): string | null => {
+  const match = DESIGNATOR.exec(bytecode.toLowerCase());
+  return match ? `0x${match[1]}` : null;
+};
+
+export default parseDelegationDesignator;
@@ -0,0 +1,192 @@
+import { FunctionFragment, Interface } from "ethers";
+import { Detector, DetectorContext, DetectorFinding } from "./types";
+import { functionLabel } from "./opcodeDetectors";
+
+const adminKeywords = [
+  "owner",
+  "admin",
+  "setadmin",
+  "setowner",
+  "pause",
+  "unpause",
+  "upgrade",
+  "transferownership",
+];
+
+const financialKeywords = [
+  "withdraw",
+  "deposit",
+  "transfer",
+  "mint",
+  "burn",
+  "sweep",
+  "claim",
+];
+
+interface NamedFunctions {
+  /** Candidate names per function; a function matches if any candidate does. */
+  nameCandidates: string[][];
+  selectors: string[];
+  /** Display labels, only set when names come from the signature database. */
+  labels?: string[];
+}
+
+export interface FunctionMatch {
+  /** Function names from the ABI, or signature labels from the database. */
+  labels: string[];
+  selectors: string[];
+  fromSignatureDatabase: boolean;
+}
+
+const signatureName = (signature: string): string => signature.slice(0, signature.indexOf("("));
+
+const parseAbi = (context: DetectorContext): Interface | null => {
+  if (!context.abi) return null;
+  try {
+    return new Interface(context.abi);
+  } catch {
+    return null;
+  }
+};
+
+// Without an ABI the name heuristics run on selectors resolved through the
+// signature database.
+const namedFunctions = (context: DetectorContext): NamedFunctions | null => {
+  if (context.abi) {
+    const iface = parseAbi(context);
+    if (!iface) return null;
+    const fragments = iface.fragments.filter(
+      (fragment): fragment is FunctionFragment => fragment.type === "function"
+    );
+    return {
+      nameCandidates: fragments.map((fragment) => [fragment.name]),
+      selectors: fragments.map((fragment) => fragment.selector),
+    };
+  }
+
+  const resolved = context.functions.filter((fn) => fn.signature || fn.candidateSignatures);
+  return {
+    nameCandidates: resolved.map((fn) =>
+      (fn.candidateSignatures ?? [fn.signature as string]).map(signatureName)
+    ),
+    selectors: resolved.map((fn) => fn.selector),
+    labels: resolved.map(functionLabel),
+  };
+};
+
+/** Functions with a name (lowercased) accepted by `test`, or null if there are none. */
+export const matchFunctionNames = (
+  context: DetectorContext,
+  test: (name: string) => boolean
+): FunctionMatch | null => {
+  const named = namedFunctions(context);
+  if (!named) return null;
+
+  const match: FunctionMatch = {
+    labels: [],
+    selectors: [],
+    fromSignatureDatabase: named.labels !== undefined,
+  };
+  named.nameCandidates.forEach((candidates, index) => {
+    const names = candidates.map((name) => name.toLowerCase()).filter(Boolean);
+    if (names.some(test)) {
+      match.labels.push(named.labels?.[index] ?? names[0] ?? "");
+      match.selectors.push(named.selectors[index] as string);
+    }
+  });
+
+  return match.labels.length > 0 ? match : null;
+};
+
+const matchKeywords = (context: DetectorContext, keywords: string[]) => {
+  const match = matchFunctionNames(context, (fn) =>
+    keywords.some((keyword) => fn.includes(keyword))
+  );
+  if (!match) return null;
+
+  return {
+    count: match.labels.length,
+    metadata: {
+      count: match.labels.length,
+      ...(match.fromSignatureDatabase
+        ? { source: "signature-database", functions: match.labels }
+        : {}),
+    },
+  };
+};
+
+export const abiParseDetector: Detector = {
+  id: "abi-parse-error",
+  version: "1.0.0",
+  title: "ABI parsing failed",
+  category: "abi",
+  defaultSeverity: "medium",
+  run: ({ abi }) => {
+    if (!abi) return [];
+    try {
+      new Interface(abi);
+      return [];
+    } catch (err) {
+      return [
+        {
+          id: "abi-parse-error",
+          title: "ABI parsing failed",
+          description: `Provided ABI could not be parsed: ${
+            err instanceof Error ? err.message : String(err)
+          }`,
+          metadata: { rawError: err instanceof Error ? err.stack : err },
+        },
+      ];
+    }
+  },
+};
+
+export const adminFunctionDetector: Detector = {
+  id: "admin-function-detected",
+  version: "1.0.0",
+  title: "Administrative functions exposed",
+  category: "access-control",
+  defaultSeverity: "medium",
+  run: (context) => {
+    const match = matchKeywords(context, adminKeywords);
+    if (!match) return [];
+    const finding: DetectorFinding = {
+      id: "admin-function-detected",
+      title: "Administrative functions exposed",
+      description: `Detected ${match.count} function(s) that match common administrative patterns.`,
+      metadata: match.metadata,
+    };
+    if (match.count > 2) {
+      finding.severity = "high";
+    }
+    return [finding];
+  },
+};
+
+export const financialFunctionDetector: Detector = {
+  id: "financial-function-detected",
+  version: "1.0.0",
+  title: "Financial control functions exposed",
+  category: "financial",
+  defaultSeverity: "medium",
+  run: (context) => {
+    const match = matchKeywords(context, financialKeywords);
+    if (!match) return [];
+    return [
+      {
+        id: "financial-function-detected",
+        title: "Financial control functions exposed",
+        description: `Detected ${match.count} function(s) with financial authority patterns.`,
+        metadata: match.metadata,
+      },
+    ];
+  },
+};
+
+export const abiDetectors: Detector[] = [
+  abiParseDetector,
+  adminFunctionDetector,
+  financialFunctionDetector,
+];
+
+export default abiDetectors;
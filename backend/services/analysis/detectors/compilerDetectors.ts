@@ -0,0 +1,85 @@
+import compilerBugs from "../../../data/compilerBugs.json";
+import { CompilerMetadata, RiskLevel } from "../../../types/analysis";
+import { Detector, DetectorFinding } from "./types";
+
+interface CompilerBug {
+  compiler: CompilerMetadata["compiler"];
+  name: string;
+  summary: string;
+  severity: RiskLevel;
+  /** First affected release; every earlier release is affected when omitted. */
+  introduced?: string;
+  /** First release with the fix. */
+  fixed?: string;
+  /** Exact affected releases, for bugs that don't span a contiguous range. */
+  versions?: string[];
+  /** What the code has to do for the bug to matter; not checked against bytecode. */
+  conditions?: string;
+  link: string;
+}
+
+const bugs = compilerBugs as CompilerBug[];
+
+/** Prerelease and build suffixes are dropped; a nightly counts as its release. */
+const parseVersion = (version: string): number[] | null => {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)/.exec(version);
+  return match ? match.slice(1).map(Number) : null;
+};
+
+const compareVersions = (a: number[], b: number[]): number => {
+  for (let i = 0; i < 3; i += 1) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const affects = (bug: CompilerBug, compiler: string, version: number[]): boolean => {
+  if (bug.compiler !== compiler) return false;
+  if (bug.versions) {
+    return bug.versions.some((listed) => {
+      const parsed = parseVersion(listed);
+      return parsed !== null && compareVersions(parsed, version) === 0;
+    });
+  }
+  const introduced = bug.introduced ? parseVersion(bug.introduced) : null;
+  const fixed = bug.fixed ? parseVersion(bug.fixed) : null;
+  return (
+    (!introduced || compareVersions(version, introduced) >= 0) &&
+    (!fixed || compareVersions(version, fixed) < 0)
+  );
+};
+
+const bugFinding = (bug: CompilerBug, compiler: CompilerMetadata): DetectorFinding => ({
+  id: `compiler-bug-${bug.name.toLowerCase()}`,
+  title: `Known ${bug.compiler} bug: ${bug.name}`,
+  description: `Compiled with ${bug.compiler} ${compiler.version}. ${bug.summary}${
+    bug.conditions ? ` Only affects code that meets these conditions: ${bug.conditions}` : ""
+  }`,
+  severity: bug.severity,
+  references: [bug.link],
+  metadata: {
+    bug: bug.name,
+    compiler: bug.compiler,
+    version: compiler.version,
+    ...(bug.fixed ? { fixedIn: bug.fixed } : {}),
+    ...(bug.conditions ? { conditions: bug.conditions } : {}),
+  },
+});
+
+export const compilerBugDetector: Detector = {
+  id: "compiler-known-bug",
+  version: "1.0.0",
+  title: "Known compiler bug",
+  category: "compiler",
+  defaultSeverity: "low",
+  run: ({ compiler }) => {
+    const version = compiler?.version ? parseVersion(compiler.version) : null;
+    if (!compiler || !version) return [];
+    return bugs
+      .filter((bug) => affects(bug, compiler.compiler, version))
+      .map((bug) => bugFinding(bug, compiler));
+  },
+};
+
+export default [compilerBugDetector];
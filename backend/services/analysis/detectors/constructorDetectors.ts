@@ -0,0 +1,33 @@
+import { Detector } from "./types";
+
+/**
+ * Contracts deployed by a constructor never pass through the runtime
+ * analysis, so their existence is raised for a separate review.
+ */
+export const constructorCreateDetector: Detector = {
+  id: "constructor-deploys-contracts",
+  version: "1.0.0",
+  title: "Constructor deploys contracts",
+  category: "constructor",
+  defaultSeverity: "medium",
+  run: ({ initCode }) => {
+    if (!initCode) return [];
+    const { createPcs, create2Pcs } = initCode;
+    const locations = [
+      ...(createPcs.length > 0 ? [`CREATE at ${createPcs.join(", ")}`] : []),
+      ...(create2Pcs.length > 0 ? [`CREATE2 at ${create2Pcs.join(", ")}`] : []),
+    ];
+    if (locations.length === 0) return [];
+
+    return [
+      {
+        id: "constructor-deploys-contracts",
+        title: "Constructor deploys contracts",
+        description: `The constructor deploys other contracts (${locations.join("; ")}). Their code is not part of this report; review their creation code as well.`,
+        metadata: { createPcs, create2Pcs },
+      },
+    ];
+  },
+};
+
+export default [constructorCreateDetector];
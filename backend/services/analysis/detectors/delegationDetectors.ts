@@ -0,0 +1,81 @@
+import { DelegationInfo, RiskLevel } from "../../../types/analysis";
+import { Detector } from "./types";
+
+const DEFAULT_MIN_BALANCE_WEI = 10n ** 18n;
+
+const riskyLevels: RiskLevel[] = ["high", "critical"];
+
+const delegateConcern = (delegation: DelegationInfo): string | null => {
+  if (delegation.targetHasCode === false) {
+    return "has no code yet, so whatever is deployed there later will control the account";
+  }
+  // The inline analysis sees the code at this block; the latest scan may be older.
+  const rated = delegation.targetAnalysis ?? delegation.targetScan;
+  if (!rated) {
+    return "has not been analyzed, so nothing is known about what it does";
+  }
+  if (riskyLevels.includes(rated.riskLevel)) {
+    return `was rated ${rated.riskLevel} risk (score ${rated.riskScore})`;
+  }
+  return null;
+};
+
+export const delegatedEoaDetector: Detector = {
+  id: "eip7702-delegation",
+  version: "1.1.0",
+  title: "EIP-7702 delegated account",
+  category: "delegation",
+  defaultSeverity: "low",
+  scope: "empty",
+  run: ({ delegation }) =>
+    delegation
+      ? [
+          {
+            id: "eip7702-delegated-eoa",
+            title: "EIP-7702 delegated account",
+            description: `This is an externally owned account whose code is delegated to ${delegation.target}. Calls to it run the delegate's code against this account's storage and balance, and the key holder can change the delegation at any time. The delegate's code is analyzed with this scan and also scanned separately.`,
+            references: ["https://eips.ethereum.org/EIPS/eip-7702"],
+            metadata: { ...delegation },
+          },
+        ]
+      : [],
+};
+
+/**
+ * Funds held by a delegated EOA are only as safe as the delegate's code, so
+ * a meaningful balance behind risky or undeployed code is raised on its own.
+ */
+export const fundedRiskyDelegationDetector: Detector = {
+  id: "eip7702-funded-risky-delegate",
+  version: "1.1.0",
+  title: "Funded account delegates to risky code",
+  category: "delegation",
+  defaultSeverity: "high",
+  scope: "empty",
+  run: ({ delegation, balanceWei, minDelegatedBalanceWei = DEFAULT_MIN_BALANCE_WEI }) => {
+    if (!delegation || !balanceWei || BigInt(balanceWei) < minDelegatedBalanceWei) return [];
+    const concern = delegateConcern(delegation);
+    if (!concern) return [];
+
+    return [
+      {
+        id: "eip7702-funded-risky-delegate",
+        title: "Funded account delegates to risky code",
+        description: `This account holds ${balanceWei} wei and delegates its code to ${delegation.target}, which ${concern}. Whoever can call into the delegate's code may be able to move these funds.`,
+        ...((delegation.targetAnalysis ?? delegation.targetScan)?.riskLevel === "critical"
+          ? { severity: "critical" as const }
+          : {}),
+        references: ["https://eips.ethereum.org/EIPS/eip-7702"],
+        metadata: {
+          target: delegation.target,
+          balanceWei,
+          minBalanceWei: minDelegatedBalanceWei.toString(),
+          ...(delegation.targetAnalysis ? { targetAnalysis: delegation.targetAnalysis } : {}),
+          ...(delegation.targetScan ? { targetScan: delegation.targetScan } : {}),
+        },
+      },
+    ];
+  },
+};
+
+export default [delegatedEoaDetector, fundedRiskyDelegationDetector];
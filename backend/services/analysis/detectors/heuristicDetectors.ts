@@ -0,0 +1,92 @@
+import { Detector } from "./types";
+
+export const emptyBytecodeDetector: Detector = {
+  id: "empty-bytecode",
+  version: "1.1.0",
+  title: "Externally Owned Account",
+  category: "account",
+  defaultSeverity: "low",
+  scope: "empty",
+  // Delegated EOAs are reported by the EIP-7702 detectors instead.
+  run: ({ delegation }) =>
+    delegation
+      ? []
+      : [
+          {
+            id: "empty-bytecode",
+            title: "Externally Owned Account",
+            description:
+              "No bytecode found at this address. It is likely an externally owned account (EOA).",
+          },
+        ],
+};
+
+// Runs after the other code detectors so it can see their findings.
+export const highBalanceDetector: Detector = {
+  id: "high-balance-with-risks",
+  version: "1.0.0",
+  title: "Balance guarded by risky patterns",
+  category: "balance",
+  defaultSeverity: "high",
+  run: ({ balanceWei, findings }) => {
+    if (
+      !balanceWei ||
+      !findings.some((finding) => finding.severity === "high" || finding.severity === "critical")
+    ) {
+      return [];
+    }
+    return [
+      {
+        id: "high-balance-with-risks",
+        title: "Balance guarded by risky patterns",
+        description:
+          "This contract holds funds and exposes high severity opcodes. Confirm access controls and upgrade paths.",
+        metadata: { balanceWei },
+      },
+    ];
+  },
+};
+
+export const unresolvedJumpDetector: Detector = {
+  id: "unresolved-jumps",
+  version: "1.0.0",
+  title: "Computed jump targets",
+  category: "obfuscation",
+  defaultSeverity: "low",
+  run: ({ disassembly }) => {
+    if (!disassembly || disassembly.unresolvedJumps.length === 0) return [];
+
+    return [
+      {
+        id: "unresolved-jumps",
+        title: "Computed jump targets",
+        description: `${disassembly.unresolvedJumps.length} jump(s) take a target computed at runtime, so every JUMPDEST was treated as reachable from them. Compilers rarely emit these; hand-written or obfuscated code uses them to hide control flow.`,
+        metadata: { jumpPcs: disassembly.unresolvedJumps },
+      },
+    ];
+  },
+};
+
+export const suspiciousPaddingDetector: Detector = {
+  id: "suspicious-padding",
+  version: "1.0.0",
+  title: "Large segments of bytecode data",
+  category: "obfuscation",
+  defaultSeverity: "medium",
+  run: ({ disassembly, dataBytes }) => {
+    if (!disassembly || disassembly.codeSize === 0) return [];
+
+    const opaqueDataBytes = dataBytes - disassembly.orphanedCodeBytes;
+    if (opaqueDataBytes / disassembly.codeSize <= 0.5) return [];
+
+    return [
+      {
+        id: "suspicious-padding",
+        title: "Large segments of bytecode data",
+        description:
+          "Significant portions of the bytecode are data segments rather than logic opcodes. Review for embedded payloads or obfuscation.",
+        metadata: { dataBytes: opaqueDataBytes, codeSize: disassembly.codeSize },
+      },
+    ];
+  },
+};
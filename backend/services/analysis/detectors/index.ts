@@ -0,0 +1,82 @@
+import { AnalysisFinding, DetectorRule } from "../../../types/analysis";
+import abiDetectors from "./abiDetectors";
+import compilerDetectors from "./compilerDetectors";
+import constructorDetectors from "./constructorDetectors";
+import delegationDetectors from "./delegationDetectors";
+import {
+  emptyBytecodeDetector,
+  highBalanceDetector,
+  suspiciousPaddingDetector,
+  unresolvedJumpDetector,
+} from "./heuristicDetectors";
+import lifecycleDetectors from "./lifecycleDetectors";
+import opcodeDetectors from "./opcodeDetectors";
+import reentrancyDetector from "./reentrancyDetector";
+import simulationDetectors from "./simulationDetectors";
+import tokenDetectors from "./tokenDetectors";
+import { Detector, DetectorContext } from "./types";
+
+export type { Detector, DetectorContext, DetectorFinding, DetectorScope } from "./types";
+export { dangerousOpcodeNames, guardedOpcodeNames } from "./opcodeDetectors";
+
+// Order matters: detectors see the findings of every detector before them.
+export const detectors: Detector[] = [
+  emptyBytecodeDetector,
+  ...delegationDetectors,
+  ...opcodeDetectors,
+  reentrancyDetector,
+  ...abiDetectors,
+  ...lifecycleDetectors,
+  ...tokenDetectors,
+  ...simulationDetectors,
+  ...compilerDetectors,
+  ...constructorDetectors,
+  highBalanceDetector,
+  unresolvedJumpDetector,
+  suspiciousPaddingDetector,
+];
+
+const detectorsById = new Map(detectors.map((detector) => [detector.id, detector]));
+
+export const getDetector = (id: string): Detector | undefined => detectorsById.get(id);
+
+const inScope = (detector: Detector, hasCode: boolean): boolean => {
+  const scope = detector.scope ?? "code";
+  return scope === "any" || (scope === "code") === hasCode;
+};
+
+/**
+ * Runs every enabled detector in registry order. A rule's severity override
+ * replaces whatever the detector reported; the original is kept on the
+ * finding so results stay explainable after rules change.
+ */
+export const runDetectors = (
+  context: Omit<DetectorContext, "findings">,
+  rules: Record<string, DetectorRule> = {}
+): AnalysisFinding[] => {
+  const findings: AnalysisFinding[] = [];
+  const hasCode = context.disassembly !== null;
+
+  for (const detector of detectors) {
+    const rule = rules[detector.id];
+    if (rule?.enabled === false || !inScope(detector, hasCode)) continue;
+
+    for (const output of detector.run({ ...context, findings })) {
+      const reported = output.severity ?? detector.defaultSeverity;
+      const severity = rule?.severity ?? reported;
+      findings.push({
+        ...output,
+        severity,
+        detector: {
+          id: detector.id,
+          version: detector.version,
+          ...(severity !== reported ? { originalSeverity: reported } : {}),
+        },
+      });
+    }
+  }
+
+  return findings;
+};
+
+export default runDetectors;
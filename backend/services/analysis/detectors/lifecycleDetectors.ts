@@ -0,0 +1,113 @@
+import { ProxyInfo } from "../../../types/analysis";
+import { Detector, DetectorFinding } from "./types";
+
+const proxyStandardLabels: Record<ProxyInfo["standard"], string> = {
+  "eip-1167": "EIP-1167",
+  "eip-1967": "EIP-1967",
+  "eip-1967-beacon": "EIP-1967 beacon",
+  "eip-1822": "EIP-1822 (UUPS)",
+};
+
+const proxyFinding = (proxy: ProxyInfo): DetectorFinding => {
+  const metadata = { ...proxy };
+
+  if (proxy.standard === "eip-1167") {
+    return {
+      id: "minimal-proxy",
+      title: "EIP-1167 minimal proxy",
+      description: `This contract is an immutable clone delegating every call to ${proxy.implementation}. Its behavior is defined by the implementation, which is scanned separately.`,
+      severity: "low",
+      references: ["https://eips.ethereum.org/EIPS/eip-1167"],
+      metadata,
+    };
+  }
+
+  const upgradeAuthority = proxy.beacon
+    ? `the beacon at ${proxy.beacon}`
+    : proxy.admin
+      ? `the admin ${proxy.admin}`
+      : "the implementation's upgrade function";
+
+  return {
+    id: "upgradeable-proxy",
+    title: "Upgradeable proxy",
+    description: `This ${proxyStandardLabels[proxy.standard]} proxy delegates to ${proxy.implementation}, which is scanned separately. The logic can be replaced by ${upgradeAuthority}.`,
+    references: [
+      proxy.standard === "eip-1822"
+        ? "https://eips.ethereum.org/EIPS/eip-1822"
+        : "https://eips.ethereum.org/EIPS/eip-1967",
+    ],
+    metadata,
+  };
+};
+
+export const proxyDetector: Detector = {
+  id: "proxy-pattern",
+  version: "1.0.0",
+  title: "Proxy pattern",
+  category: "proxy",
+  defaultSeverity: "medium",
+  run: ({ proxy }) => (proxy ? [proxyFinding(proxy)] : []),
+};
+
+export const codeChangeDetector: Detector = {
+  id: "code-change",
+  version: "1.1.0",
+  title: "Code changed since previous scan",
+  category: "code-change",
+  defaultSeverity: "critical",
+  scope: "any",
+  run: ({ codeChange, bytecodeHash, delegation }) => {
+    if (!codeChange) return [];
+    const metadata = { ...codeChange, bytecodeHash };
+
+    switch (codeChange.kind) {
+      case "eoa-to-contract":
+        return [
+          {
+            id: "code-deployed-at-eoa",
+            title: "Code appeared at a previously empty address",
+            description:
+              "An earlier scan found no code at this address. Contracts deployed to pre-computed CREATE2 addresses can receive funds before their logic is known.",
+            severity: "medium",
+            metadata,
+          },
+        ];
+      case "destroyed":
+        return [
+          {
+            id: "code-removed",
+            title: "Contract code removed",
+            description:
+              "An earlier scan found code at this address but it is now empty. The contract self-destructed and may be redeployed with different logic.",
+            severity: "high",
+            metadata,
+          },
+        ];
+      case "delegation-changed":
+        return [
+          {
+            id: "eip7702-delegation-changed",
+            title: "EIP-7702 delegation changed",
+            description: `This account now delegates to ${delegation?.target ?? "another address"} under EIP-7702, which differs from the previous scan. The key holder can repoint or revoke the delegation at any time, so earlier results no longer describe the code that runs here.`,
+            severity: "medium",
+            metadata: { ...metadata, ...(delegation ? { target: delegation.target } : {}) },
+          },
+        ];
+      default:
+        return [
+          {
+            id: "metamorphic-contract",
+            title: "Bytecode changed in place",
+            description:
+              "The code at this address differs from the previous scan. This is the signature of a metamorphic contract redeployed through CREATE2 after SELFDESTRUCT.",
+            metadata,
+          },
+        ];
+    }
+  },
+};
+
+export const lifecycleDetectors: Detector[] = [proxyDetector, codeChangeDetector];
+
+export default lifecycleDetectors;
@@ -0,0 +1,304 @@
+import { FunctionSummary, HardFork, RiskLevel } from "../../../types/analysis";
+import { CallerGuard } from "../guardAnalysis";
+import { getOpcodeByName, isForkActive } from "../opcodes";
+import { Detector, DetectorContext } from "./types";
+
+/**
+ * How caller checks on the paths to an opcode adjust severity. Privileged
+ * opcodes are raised when any path skips the check and lowered when every
+ * path has one; guardable opcodes are only ever lowered.
+ */
+type GuardPolicy = "privileged" | "guardable";
+
+interface OpcodeRule {
+  name: string;
+  category: string;
+  severity: RiskLevel;
+  title: string;
+  description: string;
+  guardPolicy?: GuardPolicy;
+  /** Replaces the severity and description on networks past a fork that changed the opcode. */
+  afterFork?: {
+    fork: HardFork;
+    severity: RiskLevel;
+    description: string;
+    references: string[];
+  };
+}
+
+const opcodeRules: OpcodeRule[] = [
+  {
+    name: "CREATE",
+    category: "deployment",
+    severity: "medium",
+    title: "Contract deploys other contracts",
+    description:
+      "CREATE opcode detected. Factories and proxies often use CREATE. Review deployment logic for controlled usage.",
+    guardPolicy: "guardable",
+  },
+  {
+    name: "CALL",
+    category: "external-call",
+    severity: "medium",
+    title: "External call detected",
+    description:
+      "CALL opcode can forward arbitrary gas and value. Ensure called addresses are trusted or validated.",
+    guardPolicy: "guardable",
+  },
+  {
+    name: "CALLCODE",
+    category: "external-call",
+    severity: "critical",
+    title: "Legacy CALLCODE usage",
+    description:
+      "CALLCODE shares context with callee similar to DELEGATECALL and is widely considered unsafe.",
+    guardPolicy: "privileged",
+  },
+  {
+    name: "DELEGATECALL",
+    category: "external-call",
+    severity: "high",
+    title: "Delegatecall usage",
+    description:
+      "DELEGATECALL executes external code in the caller context. Ensure delegate target and storage layout are controlled.",
+    guardPolicy: "privileged",
+  },
+  {
+    name: "CREATE2",
+    category: "deployment",
+    severity: "medium",
+    title: "Deterministic deployments",
+    description:
+      "CREATE2 opcode detected. Verify salts and initialization logic to avoid collision or misuse.",
+    guardPolicy: "guardable",
+  },
+  {
+    name: "STATICCALL",
+    category: "external-call",
+    severity: "low",
+    title: "Static call usage",
+    description:
+      "STATICCALL is read-only but may indicate reliance on external contracts. Confirm upstream contract assumptions.",
+  },
+  {
+    name: "SELFDESTRUCT",
+    category: "self-destruct",
+    severity: "high",
+    title: "Self-destruct capability",
+    description:
+      "SELFDESTRUCT enables the contract to wipe code and force-send funds. Ensure destruction is properly restricted.",
+    guardPolicy: "privileged",
+    afterFork: {
+      fork: "cancun",
+      severity: "medium",
+      description:
+        "SELFDESTRUCT force-sends the contract's entire balance to any address. Since Cancun (EIP-6780) it only wipes code and storage when called in the transaction that created the contract, so here it mainly acts as a way to sweep funds. Ensure it is properly restricted.",
+      references: ["https://eips.ethereum.org/EIPS/eip-6780"],
+    },
+  },
+  {
+    name: "EXTCALL",
+    category: "external-call",
+    severity: "medium",
+    title: "External call detected",
+    description:
+      "EXTCALL (EOF) calls another contract with all remaining gas and optional value. Ensure called addresses are trusted or validated.",
+  },
+  {
+    name: "EXTDELEGATECALL",
+    category: "external-call",
+    severity: "high",
+    title: "Delegatecall usage",
+    description:
+      "EXTDELEGATECALL (EOF) executes external code in the caller context. Ensure delegate target and storage layout are controlled.",
+  },
+  {
+    name: "EXTCODESIZE",
+    category: "introspection",
+    severity: "low",
+    title: "Contract existence checks",
+    description:
+      "EXTCODESIZE is often used to detect contracts. Ensure protections against flash-loan or phishing bypasses.",
+  },
+  {
+    name: "ORIGIN",
+    category: "authentication",
+    severity: "high",
+    title: "tx.origin authentication",
+    description:
+      "ORIGIN opcode suggests reliance on tx.origin. This pattern is dangerous for authentication flows.",
+  },
+  {
+    name: "SSTORE",
+    category: "storage",
+    severity: "low",
+    title: "Storage mutation",
+    description:
+      "SSTORE indicates mutable state. Combined with admin-like functions this could enable privileged behavior.",
+  },
+];
+
+/** Opcodes counted in the report's dangerousOpcodeHits summary. */
+export const dangerousOpcodeNames = opcodeRules.map((rule) => rule.name);
+
+/** Opcodes whose paths are checked for caller guards. */
+export const guardedOpcodeNames = opcodeRules
+  .filter((rule) => rule.guardPolicy)
+  .map((rule) => rule.name);
+
+const severityLevels: RiskLevel[] = ["low", "medium", "high", "critical"];
+
+const shiftSeverity = (severity: RiskLevel, steps: number): RiskLevel =>
+  severityLevels[
+    Math.min(Math.max(severityLevels.indexOf(severity) + steps, 0), severityLevels.length - 1)
+  ] as RiskLevel;
+
+const describeGuard = (guard: CallerGuard): string =>
+  guard.kind === "storage"
+    ? `the address in storage slot ${guard.slot}${guard.offset ? ` (byte ${guard.offset})` : ""}`
+    : `the hardcoded address ${guard.address}`;
+
+const guardAssessment = (rule: OpcodeRule, pcs: number[], context: DetectorContext) => {
+  const reaches = pcs.flatMap((pc) => {
+    const reach = context.callerGuards.get(pc);
+    return reach ? [{ pc, ...reach }] : [];
+  });
+  if (!rule.guardPolicy || reaches.length === 0) return null;
+
+  const unguarded = reaches.filter((reach) => reach.unguarded).map((reach) => reach.pc);
+  // Too many paths to follow them all: a missing caller check can't be ruled out.
+  const incomplete = reaches
+    .filter((reach) => !reach.unguarded && reach.incomplete)
+    .map((reach) => reach.pc);
+  const guarded = reaches
+    .filter((reach) => !reach.unguarded && !reach.incomplete)
+    .map((reach) => reach.pc);
+  const guards = reaches.filter((reach) => !reach.incomplete).flatMap((reach) => reach.guards);
+  const uniqueGuards = [...new Map(guards.map((guard) => [JSON.stringify(guard), guard])).values()];
+
+  // Proxies forward every call through an unguarded DELEGATECALL by design.
+  const raise =
+    unguarded.length > 0 &&
+    rule.guardPolicy === "privileged" &&
+    !(rule.name === "DELEGATECALL" && context.proxy);
+  const lower = unguarded.length === 0 && guarded.length === pcs.length;
+
+  const note = lower
+    ? ` Every path to ${rule.name} first checks the caller against ${uniqueGuards
+        .map(describeGuard)
+        .join(" or ")}.`
+    : unguarded.length > 0 && rule.guardPolicy === "privileged"
+      ? ` ${unguarded.length} occurrence(s) can be reached without checking the caller.`
+      : incomplete.length > 0
+        ? ` ${incomplete.length} occurrence(s) are reached on more paths than were followed, so a missing caller check can't be ruled out.`
+        : "";
+
+  return {
+    steps: raise ? 1 : lower ? -1 : 0,
+    note,
+    metadata: {
+      guardedProgramCounters: guarded,
+      unguardedProgramCounters: unguarded,
+      ...(incomplete.length > 0 ? { incompleteProgramCounters: incomplete } : {}),
+      ...(uniqueGuards.length > 0 ? { guards: uniqueGuards } : {}),
+      ...(uniqueGuards.some((guard) => guard.kind === "storage")
+        ? {
+            guardSlots: [
+              ...new Set(
+                uniqueGuards.flatMap((guard) => (guard.kind === "storage" ? [guard.slot] : []))
+              ),
+            ],
+          }
+        : {}),
+    },
+  };
+};
+
+export const functionLabel = (fn: FunctionSummary): string =>
+  fn.signature ??
+  (fn.candidateSignatures ? `${fn.selector} (${fn.candidateSignatures.join(" | ")})` : fn.selector);
+
+const describeReachability = (functions: FunctionSummary[], opcodeName: string): string => {
+  const labels = functions.slice(0, 5).map((fn) => `\`${functionLabel(fn)}\``);
+  const remainder = functions.length - labels.length;
+  const subject = remainder > 0 ? `${labels.join(", ")} and ${remainder} more` : labels.join(", ");
+  return `${subject} can reach ${opcodeName}.`;
+};
+
+const opcodeDetector = (rule: OpcodeRule): Detector => ({
+  id: `${rule.name.toLowerCase()}-usage`,
+  version: rule.afterFork ? "1.3.0" : rule.guardPolicy ? "1.2.0" : "1.0.0",
+  title: rule.title,
+  category: rule.category,
+  defaultSeverity: rule.severity,
+  run: (context) => {
+    const pcs = context.programCounters[rule.name];
+    if (!pcs) return [];
+
+    const occurrences = pcs.length;
+    const reaching = context.functions.filter((fn) => fn.dangerousOpcodes[rule.name]);
+    const reachability = reaching.length > 0 ? ` ${describeReachability(reaching, rule.name)}` : "";
+    const assessment = guardAssessment(rule, pcs, context);
+    const forked =
+      rule.afterFork && isForkActive(rule.afterFork.fork, context.hardFork) ? rule.afterFork : null;
+
+    return [
+      {
+        id: `${rule.name.toLowerCase()}-usage`,
+        title: rule.title,
+        description: `${forked?.description ?? rule.description}${reachability}${assessment?.note ?? ""} Observed ${occurrences} time(s).`,
+        severity: shiftSeverity(forked?.severity ?? rule.severity, assessment?.steps ?? 0),
+        ...(forked ? { references: forked.references } : {}),
+        metadata: {
+          occurrences,
+          programCounters: pcs,
+          ...(forked ? { hardFork: context.hardFork } : {}),
+          ...(reaching.length > 0 ? { functions: reaching.map(functionLabel) } : {}),
+          ...(assessment ? { accessControl: assessment.metadata } : {}),
+        },
+      },
+    ];
+  },
+});
+
+/**
+ * Reachable opcodes the network's fork doesn't have yet, typically PUSH0 or
+ * TSTORE from code compiled for a newer EVM version than the chain runs.
+ */
+export const forkCompatibilityDetector: Detector = {
+  id: "opcode-unsupported-by-fork",
+  version: "1.0.0",
+  title: "Opcodes not available on this network",
+  category: "compatibility",
+  defaultSeverity: "medium",
+  run: ({ disassembly, programCounters, hardFork }) => {
+    if (!disassembly || disassembly.eof) return [];
+
+    const unsupported = Object.entries(programCounters).flatMap(([name, pcs]) => {
+      const since = getOpcodeByName(name)?.since;
+      return since && !isForkActive(since, hardFork) ? [{ name, since, programCounters: pcs }] : [];
+    });
+    if (unsupported.length === 0) return [];
+
+    const listed = unsupported.map(({ name, since }) => `${name} (${since})`).join(", ");
+    return [
+      {
+        id: "opcode-unsupported-by-fork",
+        title: "Opcodes not available on this network",
+        description: `This network runs ${hardFork}, but the code uses opcodes from later forks: ${listed}. They execute as invalid instructions here, so every path reaching them reverts. The code was likely compiled for a newer EVM version than the chain supports.`,
+        metadata: {
+          hardFork,
+          opcodes: unsupported,
+          programCounters: unsupported.flatMap((entry) => entry.programCounters),
+        },
+      },
+    ];
+  },
+};
+
+export const opcodeDetectors: Detector[] = [
+  ...opcodeRules.map(opcodeDetector),
+  forkCompatibilityDetector,
+];
+
+export default opcodeDetectors;
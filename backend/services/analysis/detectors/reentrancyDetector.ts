@@ -0,0 +1,83 @@
+import { HardFork } from "../../../types/analysis";
+import { isForkActive } from "../opcodes";
+import analyzeReentrancy, { ReentrancyPath } from "../reentrancyAnalysis";
+import { functionLabel } from "./opcodeDetectors";
+import { Detector } from "./types";
+
+const describeLocks = (guarded: ReentrancyPath[], hardFork: HardFork): string => {
+  if (!guarded.every((path) => path.guardStorage === "transient")) {
+    return "every such path holds a reentrancy lock.";
+  }
+  return isForkActive("cancun", hardFork)
+    ? "every such path holds a transient-storage (EIP-1153) reentrancy lock, which is cleared when the transaction ends."
+    : `every such path holds a transient-storage lock. TLOAD and TSTORE only exist from Cancun on, so on this network (${hardFork}) these functions revert before making the call.`;
+};
+
+export const reentrancyDetector: Detector = {
+  id: "reentrancy-state-write-after-call",
+  version: "1.2.0",
+  title: "State written after external call",
+  category: "reentrancy",
+  defaultSeverity: "high",
+  run: ({ disassembly, functions, hardFork }) => {
+    if (!disassembly) return [];
+
+    const { paths, incomplete } = analyzeReentrancy(disassembly, functions);
+    if (paths.length === 0 && incomplete.length === 0) return [];
+
+    const labels = new Map(functions.map((fn) => [fn.selector, functionLabel(fn)]));
+    const describe = (selectors: Iterable<string>): string =>
+      [...selectors].map((selector) => `\`${labels.get(selector) ?? selector}\``).join(", ");
+    const unguarded = paths.filter((path) => !path.reentrancyGuard);
+    const affected = new Set((unguarded.length > 0 ? unguarded : paths).map((path) => path.selector));
+    const unfollowed =
+      incomplete.length > 0
+        ? ` Not every path through ${describe(incomplete)} could be followed, so other writes after calls there can't be ruled out.`
+        : "";
+
+    const finding = (() => {
+      if (unguarded.length > 0) {
+        return {
+          title: "State written after external call",
+          description: `${describe(affected)} can update storage after an external call that forwards gas or value, without a reentrancy lock. The callee can re-enter before state is settled.${unfollowed}`,
+        };
+      }
+      if (incomplete.length > 0) {
+        // Locked paths alone don't justify "low" while others went unchecked.
+        return {
+          title: "Reentrancy check incomplete",
+          description: `Not every path through ${describe(incomplete)} could be followed, so a storage write after an external call that forwards gas or value can't be ruled out.${
+            paths.length > 0 ? ` On the paths that were followed, ${describeLocks(paths, hardFork)}` : ""
+          }`,
+          severity: "medium" as const,
+        };
+      }
+      return {
+        title: "State written after external call",
+        description: `${describe(affected)} update storage after an external call, but ${describeLocks(paths, hardFork)}`,
+        severity: "low" as const,
+      };
+    })();
+
+    return [
+      {
+        id: "reentrancy-state-write-after-call",
+        ...finding,
+        references: ["https://swcregistry.io/docs/SWC-107"],
+        metadata: {
+          paths: paths.map((path) => ({
+            ...path,
+            ...(labels.get(path.selector) !== path.selector
+              ? { function: labels.get(path.selector) }
+              : {}),
+          })),
+          ...(incomplete.length > 0
+            ? { incompleteFunctions: incomplete.map((selector) => labels.get(selector) ?? selector) }
+            : {}),
+        },
+      },
+    ];
+  },
+};
+
+export default reentrancyDetector;
@@ -0,0 +1,140 @@
+import { RiskLevel, TradeSimulation, TradeStep } from "../../../types/analysis";
+import { Detector, DetectorContext } from "./types";
+
+// Sell taxes at or above this keep practically nothing for the seller.
+const HONEYPOT_TAX_BPS = 9000;
+// Below this a measured difference is rounding or reflection dust.
+const REPORTED_TAX_BPS = 50;
+
+const completed = (context: DetectorContext): TradeSimulation | null =>
+  context.simulation?.status === "completed" ? context.simulation : null;
+
+const percent = (bps: number): string => `${(bps / 100).toFixed(2)}%`;
+
+const stepMetadata = (step: TradeStep | undefined) =>
+  step
+    ? {
+        status: step.status,
+        amountIn: step.amountIn,
+        ...(step.expectedOut !== undefined ? { expectedOut: step.expectedOut } : {}),
+        ...(step.amountOut !== undefined ? { amountOut: step.amountOut } : {}),
+        ...(step.taxBps !== undefined ? { taxBps: step.taxBps } : {}),
+        ...(step.revertReason ? { revertReason: step.revertReason } : {}),
+      }
+    : undefined;
+
+export const honeypotDetector: Detector = {
+  id: "token-honeypot",
+  version: "1.0.0",
+  title: "Token cannot be sold",
+  category: "token-trading",
+  defaultSeverity: "critical",
+  run: (context) => {
+    const simulation = completed(context);
+    if (simulation?.buy?.status !== "succeeded") return [];
+
+    const { sell, transfer } = simulation;
+    const reasons: string[] = [];
+    if (sell?.status === "reverted") {
+      reasons.push(`selling reverted${sell.revertReason ? ` (${sell.revertReason})` : ""}`);
+    } else if (sell?.taxBps !== undefined && sell.taxBps >= HONEYPOT_TAX_BPS) {
+      reasons.push(`selling returned only ${percent(10_000 - sell.taxBps)} of the quoted amount`);
+    }
+    if (transfer?.status === "reverted") {
+      reasons.push(
+        `transfers between holders reverted${transfer.revertReason ? ` (${transfer.revertReason})` : ""}`
+      );
+    }
+    if (reasons.length === 0) return [];
+
+    return [
+      {
+        id: "token-honeypot",
+        title: "Token cannot be sold",
+        description: `A simulated buy succeeded but ${reasons.join(
+          " and "
+        )}. Buyers are likely unable to exit.`,
+        metadata: {
+          blockNumber: simulation.blockNumber,
+          pair: simulation.pair,
+          buy: stepMetadata(simulation.buy),
+          transfer: stepMetadata(transfer),
+          sell: stepMetadata(sell),
+        },
+      },
+    ];
+  },
+};
+
+export const transferTaxDetector: Detector = {
+  id: "token-transfer-tax",
+  version: "1.0.0",
+  title: "Measured transfer tax",
+  category: "token-fees",
+  defaultSeverity: "medium",
+  run: (context) => {
+    const simulation = completed(context);
+    if (!simulation) return [];
+
+    const taxes = {
+      buy: simulation.buy?.taxBps,
+      transfer: simulation.transfer?.taxBps,
+      sell: simulation.sell?.status === "succeeded" ? simulation.sell.taxBps : undefined,
+    };
+    const measured = Object.entries(taxes).filter(
+      (entry): entry is [string, number] => entry[1] !== undefined && entry[1] >= REPORTED_TAX_BPS
+    );
+    if (measured.length === 0) return [];
+
+    const highest = Math.max(...measured.map(([, bps]) => bps));
+    // Sell taxes at honeypot levels are reported by token-honeypot instead.
+    if (highest >= HONEYPOT_TAX_BPS && taxes.sell === highest) return [];
+
+    const severity: RiskLevel = highest >= 2500 ? "high" : highest >= 1000 ? "medium" : "low";
+    return [
+      {
+        id: "token-transfer-tax",
+        title: "Measured transfer tax",
+        description: `Simulated trades lost ${measured
+          .map(([step, bps]) => `${percent(bps)} on ${step}`)
+          .join(", ")} compared to the router quote.`,
+        severity,
+        metadata: {
+          blockNumber: simulation.blockNumber,
+          pair: simulation.pair,
+          ...Object.fromEntries(measured.map(([step, bps]) => [`${step}TaxBps`, bps])),
+        },
+      },
+    ];
+  },
+};
+
+export const maxTransactionDetector: Detector = {
+  id: "token-max-transaction",
+  version: "1.0.0",
+  title: "Transaction size limit",
+  category: "token-trading",
+  defaultSeverity: "medium",
+  run: (context) => {
+    const limit = completed(context)?.maxTransaction;
+    if (!limit) return [];
+    return [
+      {
+        id: "token-max-transaction",
+        title: "Transaction size limit",
+        description: `A simulated buy of ${limit.smallestReverted} token units reverted after one of ${
+          limit.largestSucceeded
+        } succeeded${limit.revertReason ? ` (${limit.revertReason})` : ""}. Large holders may be unable to sell in one transaction.`,
+        metadata: { ...limit, blockNumber: context.simulation?.blockNumber },
+      },
+    ];
+  },
+};
+
+export const simulationDetectors: Detector[] = [
+  honeypotDetector,
+  transferTaxDetector,
+  maxTransactionDetector,
+];
+
+export default simulationDetectors;
@@ -0,0 +1,210 @@
+import { FunctionFragment } from "ethers";
+import analyzeGuards, { CallerGuard } from "../guardAnalysis";
+import { FunctionMatch, matchFunctionNames } from "./abiDetectors";
+import { Detector, DetectorContext } from "./types";
+
+// ERC-4626 `mint(shares, receiver)` is a deposit, not a supply expansion.
+const VAULT_MINT_SELECTOR = FunctionFragment.from("mint(uint256,address)").selector;
+
+const listNames = ["blacklist", "blocklist", "denylist", "whitelist", "allowlist", "freeze", "frozen"];
+const balanceWriters = [
+  "setbalance",
+  "updatebalance",
+  "modifybalance",
+  "adjustbalance",
+  "changebalance",
+  "editbalance",
+  "destroyblackfunds",
+];
+const feeSetter = /^(set|update|change|adjust)\w*(fee|tax)/;
+// `mint`, `mintTo`, `mintBatch` and Tether-style `issue`, but not `MINTER_ROLE`
+const minter = /^(mint(?!er)|issue$)/;
+const pauser = /^(un)?pause(?!d|r)/;
+
+const matchTokenFunctions = (
+  context: DetectorContext,
+  test: (name: string) => boolean
+): FunctionMatch | null => (context.token ? matchFunctionNames(context, test) : null);
+
+const functionsMetadata = (match: FunctionMatch) => ({
+  functions: match.labels,
+  selectors: match.selectors,
+  ...(match.fromSignatureDatabase ? { source: "signature-database" } : {}),
+});
+
+/**
+ * Guards shared by every storage write in the given functions, or null if
+ * any write is reachable without a single-owner caller check, or might be.
+ */
+const ownerGuards = (context: DetectorContext, selectors: string[]): CallerGuard[] | null => {
+  const { disassembly } = context;
+  if (!disassembly) return null;
+
+  const guards = new Map<string, CallerGuard>();
+  for (const selector of selectors) {
+    const fn = context.functions.find((entry) => entry.selector === selector);
+    if (!fn) return null;
+
+    const reach = [...analyzeGuards(disassembly, new Set(["SSTORE"]), fn.entryPc).values()];
+    if (reach.length === 0 || reach.some((status) => status.unguarded || status.incomplete)) {
+      return null;
+    }
+    for (const guard of reach.flatMap((status) => status.guards)) {
+      guards.set(JSON.stringify(guard), guard);
+    }
+  }
+  return [...guards.values()];
+};
+
+export const tokenMintDetector: Detector = {
+  id: "token-owner-mint",
+  version: "1.1.0",
+  title: "Owner-controlled minting",
+  category: "token-supply",
+  defaultSeverity: "high",
+  run: (context) => {
+    const match = matchTokenFunctions(context, (name) => minter.test(name));
+    if (!match) return [];
+
+    const vault = context.token?.standards.includes("erc4626");
+    const selectors = match.selectors.filter(
+      (selector) => !(vault && selector === VAULT_MINT_SELECTOR)
+    );
+    if (selectors.length === 0) return [];
+
+    const fungible = context.token?.standards.includes("erc20");
+    const guards = ownerGuards(context, selectors);
+
+    if (guards) {
+      return [
+        {
+          id: "token-owner-mint",
+          title: "Owner-controlled minting",
+          description: `A single privileged address can mint new tokens through ${match.labels.join(
+            ", "
+          )}. ${fungible ? "Holders can be diluted at any time." : "Supply is not fixed."}`,
+          ...(fungible ? {} : { severity: "medium" as const }),
+          metadata: {
+            ...functionsMetadata(match),
+            guards,
+            guardSlots: guards.flatMap((guard) => (guard.kind === "storage" ? [guard.slot] : [])),
+          },
+        },
+      ];
+    }
+
+    return [
+      {
+        id: "token-owner-mint",
+        title: "Mint function exposed",
+        description: `The token exposes ${match.labels.join(
+          ", "
+        )}. No single-owner caller check was found on every path, so access is role-based, public, or could not be resolved.`,
+        severity: "medium",
+        metadata: functionsMetadata(match),
+      },
+    ];
+  },
+};
+
+export const tokenBlacklistDetector: Detector = {
+  id: "token-blacklist",
+  version: "1.0.0",
+  title: "Holder blacklist or whitelist",
+  category: "token-control",
+  defaultSeverity: "high",
+  run: (context) => {
+    const match = matchTokenFunctions(context, (name) =>
+      listNames.some((keyword) => name.includes(keyword))
+    );
+    if (!match) return [];
+    return [
+      {
+        id: "token-blacklist",
+        title: "Holder blacklist or whitelist",
+        description: `Transfers can be restricted per address through ${match.labels.join(
+          ", "
+        )}. A privileged account may freeze holders' balances.`,
+        metadata: functionsMetadata(match),
+      },
+    ];
+  },
+};
+
+export const tokenPausableDetector: Detector = {
+  id: "token-pausable",
+  version: "1.0.0",
+  title: "Pausable transfers",
+  category: "token-control",
+  defaultSeverity: "medium",
+  run: (context) => {
+    const match = matchTokenFunctions(context, (name) => pauser.test(name));
+    if (!match) return [];
+    return [
+      {
+        id: "token-pausable",
+        title: "Pausable transfers",
+        description: `Transfers can be halted for every holder through ${match.labels.join(", ")}.`,
+        metadata: functionsMetadata(match),
+      },
+    ];
+  },
+};
+
+export const tokenFeeDetector: Detector = {
+  id: "token-fee-setter",
+  version: "1.0.0",
+  title: "Adjustable transfer fee",
+  category: "token-fees",
+  defaultSeverity: "medium",
+  run: (context) => {
+    const match = matchTokenFunctions(context, (name) => feeSetter.test(name));
+    if (!match) return [];
+    return [
+      {
+        id: "token-fee-setter",
+        title: "Adjustable transfer fee",
+        description: `Fees or taxes on transfers can be changed after deployment through ${match.labels.join(
+          ", "
+        )}. Unbounded setters allow a sell tax high enough to trap holders.`,
+        metadata: functionsMetadata(match),
+      },
+    ];
+  },
+};
+
+// Only the function name is matched; nothing in the bytecode confirms that
+// the function writes holder balances, so the finding stays at medium.
+export const tokenBalanceDetector: Detector = {
+  id: "token-balance-manipulation",
+  version: "1.1.0",
+  title: "Balance-modifying function name",
+  category: "token-balance",
+  defaultSeverity: "medium",
+  run: (context) => {
+    const match = matchTokenFunctions(context, (name) =>
+      balanceWriters.some((keyword) => name.includes(keyword))
+    );
+    if (!match) return [];
+    return [
+      {
+        id: "token-balance-manipulation",
+        title: "Balance-modifying function name",
+        description: `The token exposes ${match.labels.join(
+          ", "
+        )}, whose name suggests it can rewrite or wipe holder balances outside of transfers, mints and burns. This is a name match only; the bytecode was not checked for writes to balances.`,
+        metadata: { ...functionsMetadata(match), evidence: "function-name" },
+      },
+    ];
+  },
+};
+
+export const tokenDetectors: Detector[] = [
+  tokenMintDetector,
+  tokenBlacklistDetector,
+  tokenPausableDetector,
+  tokenFeeDetector,
+  tokenBalanceDetector,
+];
+
+export default tokenDetectors;
@@ -0,0 +1,68 @@
+import type { InterfaceAbi } from "ethers";
+import {
+  AnalysisFinding,
+  CodeChange,
+  CompilerMetadata,
+  DelegationInfo,
+  FunctionSummary,
+  HardFork,
+  InitCodeSummary,
+  ProxyInfo,
+  RiskLevel,
+  TokenInfo,
+  TradeSimulation,
+} from "../../../types/analysis";
+import { Disassembly } from "../disassembler";
+import { GuardReach } from "../guardAnalysis";
+
+export interface DetectorContext {
+  address: string;
+  bytecodeHash: string;
+  /** Null for accounts without code. */
+  disassembly: Disassembly | null;
+  /** Program counters of every reachable instruction, keyed by opcode name. */
+  programCounters: Record<string, number[]>;
+  /** Caller-guard status of privileged instructions, keyed by program counter. */
+  callerGuards: Map<number, GuardReach>;
+  dataBytes: number;
+  functions: FunctionSummary[];
+  /** Active fork of the scanned network. */
+  hardFork: HardFork;
+  abi?: InterfaceAbi;
+  balanceWei?: string;
+  proxy?: ProxyInfo;
+  /** Set for EOAs with an EIP-7702 delegation; `disassembly` is then null. */
+  delegation?: DelegationInfo;
+  /** Balance from which a delegation to risky or undeployed code is reported. */
+  minDelegatedBalanceWei?: bigint;
+  codeChange?: CodeChange;
+  /** Set when the dispatcher or ABI matches a token standard. */
+  token?: TokenInfo;
+  /** Result of the optional buy/transfer/sell simulation for ERC-20 tokens. */
+  simulation?: TradeSimulation;
+  /** Compiler and version from the metadata trailer, when present. */
+  compiler?: CompilerMetadata;
+  /** Set when creation code was submitted; describes its constructor. */
+  initCode?: InitCodeSummary;
+  /** Findings reported by detectors that ran earlier, after rule overrides. */
+  findings: readonly AnalysisFinding[];
+}
+
+export type DetectorFinding = Omit<AnalysisFinding, "severity" | "detector"> & {
+  severity?: RiskLevel;
+};
+
+/** Which accounts a detector runs against; defaults to "code". */
+export type DetectorScope = "code" | "empty" | "any";
+
+export interface Detector {
+  id: string;
+  /** Bump whenever the detector's output changes for the same input. */
+  version: string;
+  title: string;
+  /** Findings in the same category are subject to diminishing returns when scored. */
+  category: string;
+  defaultSeverity: RiskLevel;
+  scope?: DetectorScope;
+  run(context: DetectorContext): DetectorFinding[];
+}
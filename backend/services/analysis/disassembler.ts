@@ -0,0 +1,496 @@
+import decodeCompilerMetadata from "./compilerMetadata";
+import { EofContainer, EofSection, parseEofContainer } from "./eof";
+import {
+  eofTerminatingOpcodes,
+  getOpcodeInfo,
+  haltingOpcodes,
+  isPushOpcode,
+  opcodeName,
+  pushSize,
+} from "./opcodes";
+
+export interface Instruction {
+  pc: number;
+  opcode: number;
+  name: string;
+  pushData?: string;
+  /** Immediate bytes of EOF instructions such as RJUMP offsets or CALLF section indexes. */
+  immediate?: string;
+}
+
+export interface BasicBlock {
+  start: number;
+  length: number;
+  instructions: Instruction[];
+  successors: number[];
+  /** Blocks never reached from the entry point are treated as data, not code. */
+  reachable: boolean;
+}
+
+export interface Disassembly {
+  codeSize: number;
+  metadata?: string;
+  /** Section layout when the code is an EOF container rather than legacy bytecode. */
+  eof?: EofContainer;
+  blocks: BasicBlock[];
+  blockAt: Map<number, BasicBlock>;
+  unresolvedJumps: number[];
+  /** Unreachable bytes that still decode as functions without callers. */
+  orphanedCodeBytes: number;
+}
+
+type AbstractValue = bigint | null;
+
+interface WorkItem {
+  start: number;
+  stack: AbstractValue[];
+  /** Set on paths that went through a widened block. */
+  widened?: boolean;
+}
+
+const JUMPDEST = 0x5b;
+const JUMP = 0x56;
+const JUMPI = 0x57;
+
+const MAX_STATES_PER_BLOCK = 32;
+const STACK_SIGNATURE_DEPTH = 16;
+// Signature of the one extra state a block gets once it has seen too many.
+const WIDENED = "*";
+
+const blockTerminators = new Set([...haltingOpcodes, JUMPI]);
+
+/**
+ * Splits the CBOR metadata trailer appended by solc (length excludes the two
+ * length bytes) and vyper >= 0.3.10 (length includes them) from the code.
+ * The trailer is only split off when it decodes as compiler metadata; any
+ * other tail is kept as code.
+ */
+export const splitMetadata = (hex: string): { code: string; metadata?: string } => {
+  const byteLength = hex.length / 2;
+  if (byteLength < 2) {
+    return { code: hex };
+  }
+
+  const declared = parseInt(hex.slice(-4), 16);
+  for (const start of [byteLength - 2 - declared, byteLength - declared]) {
+    if (start <= 0 || start >= byteLength - 2) {
+      continue;
+    }
+    const metadata = hex.slice(start * 2);
+    if (decodeCompilerMetadata(metadata)) {
+      return { code: hex.slice(0, start * 2), metadata };
+    }
+  }
+
+  return { code: hex };
+};
+
+const decodeInstructions = (hex: string): Instruction[] => {
+  const instructions: Instruction[] = [];
+  const byteLength = hex.length / 2;
+
+  for (let pc = 0; pc < byteLength; ) {
+    const opcode = parseInt(hex.slice(pc * 2, pc * 2 + 2), 16);
+    const instruction: Instruction = { pc, opcode, name: opcodeName(opcode) };
+    const size = pushSize(opcode);
+    if (size > 0) {
+      instruction.pushData = hex.slice(pc * 2 + 2, (pc + 1 + size) * 2).padEnd(size * 2, "0");
+    }
+    instructions.push(instruction);
+    pc += 1 + size;
+  }
+
+  return instructions;
+};
+
+const instructionSize = (instruction: Instruction): number => 1 + pushSize(instruction.opcode);
+
+const buildBlocks = (instructions: Instruction[]): BasicBlock[] => {
+  const blocks: BasicBlock[] = [];
+  let current: BasicBlock | null = null;
+
+  for (const instruction of instructions) {
+    if (!current || instruction.opcode === JUMPDEST) {
+      current = {
+        start: instruction.pc,
+        length: 0,
+        instructions: [],
+        successors: [],
+        reachable: false,
+      };
+      blocks.push(current);
+    }
+    current.instructions.push(instruction);
+    current.length += instructionSize(instruction);
+
+    if (blockTerminators.has(instruction.opcode) || !getOpcodeInfo(instruction.opcode)) {
+      current = null;
+    }
+  }
+
+  return blocks;
+};
+
+const stackSignature = (stack: AbstractValue[]): string =>
+  stack
+    .slice(-STACK_SIGNATURE_DEPTH)
+    .map((value) => (value === null ? "?" : value.toString(16)))
+    .join(",");
+
+const execute = (instruction: Instruction, stack: AbstractValue[]): void => {
+  const info = getOpcodeInfo(instruction.opcode);
+  if (!info) return;
+
+  while (stack.length < info.pops) {
+    stack.unshift(null);
+  }
+
+  if (instruction.opcode === 0x5f) {
+    stack.push(0n);
+  } else if (isPushOpcode(instruction.opcode)) {
+    stack.push(BigInt(`0x${instruction.pushData ?? "0"}`));
+  } else if (info.name.startsWith("DUP")) {
+    stack.push(stack[stack.length - info.pops] ?? null);
+  } else if (info.name.startsWith("SWAP")) {
+    const top = stack.length - 1;
+    const other = stack.length - info.pops;
+    [stack[top], stack[other]] = [stack[other] ?? null, stack[top] ?? null];
+  } else {
+    stack.splice(stack.length - info.pops, info.pops);
+    for (let i = 0; i < info.pushes; i += 1) {
+      stack.push(null);
+    }
+  }
+};
+
+interface Exploration {
+  visited: Map<number, Set<string>>;
+  successors: Map<number, Set<number>>;
+  unresolved: Set<number>;
+  /** Jumps whose target was lost because their block's stack was widened. */
+  widened: Set<number>;
+}
+
+const createExploration = (): Exploration => ({
+  visited: new Map(),
+  successors: new Map(),
+  unresolved: new Set(),
+  widened: new Set(),
+});
+
+const isJumpTarget = (
+  blockAt: Map<number, BasicBlock>,
+  target: AbstractValue
+): target is bigint =>
+  target !== null &&
+  target <= BigInt(Number.MAX_SAFE_INTEGER) &&
+  blockAt.get(Number(target))?.instructions[0]?.opcode === JUMPDEST;
+
+const explore = (
+  blockAt: Map<number, BasicBlock>,
+  worklist: WorkItem[],
+  { visited, successors, unresolved, widened }: Exploration
+): void => {
+  while (worklist.length > 0) {
+    const item = worklist.pop() as WorkItem;
+    const { start } = item;
+    const block = blockAt.get(start);
+    if (!block) continue;
+
+    const seen = visited.get(start) ?? new Set<string>();
+    let stack = item.stack;
+    let signature = stackSignature(stack);
+    if (seen.has(signature)) continue;
+    // Blocks shared by many paths, typically internal functions called from
+    // many sites, are explored once more with nothing known about the stack
+    // rather than dropping the remaining states, so the return addresses
+    // those states carried are not lost.
+    let fromWidened = item.widened ?? false;
+    if (seen.size >= MAX_STATES_PER_BLOCK) {
+      if (seen.has(WIDENED)) continue;
+      stack = [];
+      signature = WIDENED;
+      fromWidened = true;
+    }
+    seen.add(signature);
+    visited.set(start, seen);
+
+    const blockSuccessors = successors.get(start) ?? new Set<number>();
+    successors.set(start, blockSuccessors);
+    const state = stack.slice();
+    const last = block.instructions[block.instructions.length - 1] as Instruction;
+    const next = start + block.length;
+
+    for (const instruction of block.instructions.slice(0, -1)) {
+      execute(instruction, state);
+    }
+
+    if (last.opcode === JUMP || last.opcode === JUMPI) {
+      const target = state.pop() ?? null;
+      if (last.opcode === JUMPI) {
+        state.pop();
+      }
+      if (isJumpTarget(blockAt, target)) {
+        blockSuccessors.add(Number(target));
+        worklist.push({ start: Number(target), stack: state.slice(), widened: fromWidened });
+      } else if (signature === WIDENED || state.length === 0 && stack.length === 0 && seen.has(WIDENED)) {
+        widened.add(last.pc);
+      } else if (fromWidened) {
+        widened.add(last.pc);
+      } else {
+        unresolved.add(last.pc);
+      }
+      if (last.opcode === JUMPI && blockAt.has(next)) {
+        blockSuccessors.add(next);
+        worklist.push({ start: next, stack: state, widened: fromWidened });
+      }
+      continue;
+    }
+
+    execute(last, state);
+    if (!haltingOpcodes.has(last.opcode) && getOpcodeInfo(last.opcode) && blockAt.has(next)) {
+      blockSuccessors.add(next);
+      worklist.push({ start: next, stack: state, widened: fromWidened });
+    }
+  }
+};
+
+const RJUMP = 0xe0;
+const RJUMPI = 0xe1;
+const RJUMPV = 0xe2;
+const CALLF = 0xe3;
+const JUMPF = 0xe5;
+
+const decodeEofSection = (hex: string, section: EofSection): Instruction[] => {
+  const instructions: Instruction[] = [];
+  const end = section.offset + section.size;
+
+  for (let pc = section.offset; pc < end; ) {
+    const opcode = parseInt(hex.slice(pc * 2, pc * 2 + 2), 16);
+    const info = getOpcodeInfo(opcode, "eof");
+    const instruction: Instruction = { pc, opcode, name: opcodeName(opcode, "eof") };
+    let size = pushSize(opcode);
+    if (size > 0) {
+      instruction.pushData = hex.slice(pc * 2 + 2, (pc + 1 + size) * 2).padEnd(size * 2, "0");
+    } else if (info?.immediate) {
+      // RJUMPV carries a max index followed by one 2-byte offset per case.
+      size =
+        opcode === RJUMPV
+          ? 1 + (parseInt(hex.slice(pc * 2 + 2, pc * 2 + 4) || "0", 16) + 1) * 2
+          : info.immediate;
+      instruction.immediate = hex.slice(pc * 2 + 2, (pc + 1 + size) * 2);
+    }
+    instructions.push(instruction);
+    pc += 1 + size;
+  }
+
+  return instructions;
+};
+
+const eofInstructionSize = (instruction: Instruction): number =>
+  1 + (instruction.pushData ?? instruction.immediate ?? "").length / 2;
+
+const int16 = (hex: string): number => {
+  const value = parseInt(hex, 16);
+  return value >= 0x8000 ? value - 0x10000 : value;
+};
+
+/** Targets of EOF relative jumps, which are relative to the end of the immediate. */
+const relativeTargets = (instruction: Instruction): number[] => {
+  const immediate = instruction.immediate ?? "";
+  const next = instruction.pc + eofInstructionSize(instruction);
+  if (instruction.opcode === RJUMP || instruction.opcode === RJUMPI) {
+    return [next + int16(immediate)];
+  }
+  if (instruction.opcode === RJUMPV) {
+    const offsets = immediate.slice(2).match(/.{4}/g) ?? [];
+    return offsets.map((offset) => next + int16(offset));
+  }
+  return [];
+};
+
+/**
+ * EOF jumps are static, so blocks and successors come straight from the
+ * code: no stack tracking and no unresolved jumps. Code sections are
+ * reachable from section 0 through CALLF and JUMPF.
+ */
+const disassembleEof = (hex: string, container: EofContainer): Disassembly => {
+  const blocks: BasicBlock[] = [];
+
+  for (const section of container.codeSections) {
+    const instructions = decodeEofSection(hex, section);
+    const leaders = new Set([section.offset, ...instructions.flatMap(relativeTargets)]);
+    let current: BasicBlock | null = null;
+
+    for (const instruction of instructions) {
+      if (!current || leaders.has(instruction.pc)) {
+        current = {
+          start: instruction.pc,
+          length: 0,
+          instructions: [],
+          successors: [],
+          reachable: false,
+        };
+        blocks.push(current);
+      }
+      current.instructions.push(instruction);
+      const next = instruction.pc + eofInstructionSize(instruction);
+      current.length = next - current.start;
+
+      const targets = relativeTargets(instruction);
+      const halts =
+        eofTerminatingOpcodes.has(instruction.opcode) || !getOpcodeInfo(instruction.opcode, "eof");
+      if (targets.length > 0 || halts || leaders.has(next)) {
+        const fallsThrough = !halts && next < section.offset + section.size;
+        current.successors = [...new Set([...targets, ...(fallsThrough ? [next] : [])])].sort(
+          (a, b) => a - b
+        );
+        current = null;
+      }
+    }
+  }
+
+  const blockAt = new Map(blocks.map((block) => [block.start, block]));
+  const worklist = container.codeSections[0] ? [container.codeSections[0].offset] : [];
+  while (worklist.length > 0) {
+    const block = blockAt.get(worklist.pop() as number);
+    if (!block || block.reachable) continue;
+    block.reachable = true;
+    worklist.push(...block.successors);
+    for (const instruction of block.instructions) {
+      if (instruction.opcode === CALLF || instruction.opcode === JUMPF) {
+        const section = container.codeSections[parseInt(instruction.immediate ?? "", 16)];
+        if (section) worklist.push(section.offset);
+      }
+    }
+  }
+
+  // solc appends the CBOR metadata to the data section.
+  const data = hex.slice(container.data.offset * 2);
+  const { metadata } = splitMetadata(data);
+
+  return {
+    codeSize: container.codeSections.reduce((total, section) => total + section.size, 0),
+    ...(metadata !== undefined ? { metadata } : {}),
+    eof: container,
+    blocks,
+    blockAt,
+    unresolvedJumps: [],
+    orphanedCodeBytes: 0,
+  };
+};
+
+/**
+ * Decodes runtime bytecode into basic blocks and resolves jump targets by
+ * tracking constant stack values along every path from the entry block.
+ * Jumps whose target cannot be resolved fall back to every JUMPDEST in the
+ * code, so nothing a computed jump could reach is dismissed as data. The
+ * same goes for return jumps in blocks reached in more states than are
+ * tracked. EOF containers are split into their sections and decoded
+ * without guessing.
+ */
+export const disassemble = (hex: string): Disassembly => {
+  const container = parseEofContainer(hex);
+  if (container) {
+    return disassembleEof(hex, container);
+  }
+
+  const { code, metadata } = splitMetadata(hex);
+  const blocks = buildBlocks(decodeInstructions(code));
+  const blockAt = new Map(blocks.map((block) => [block.start, block]));
+  const exploration = createExploration();
+  const { visited, successors, unresolved, widened } = exploration;
+
+  const drain = (worklist: WorkItem[]) => {
+    explore(blockAt, worklist, exploration);
+    for (const start of visited.keys()) {
+      (blockAt.get(start) as BasicBlock).reachable = true;
+    }
+  };
+
+  drain(blocks.length > 0 ? [{ start: 0, stack: [] }] : []);
+
+  // A computed jump can land on any JUMPDEST, not only ones pushed as constants.
+  const candidates = blocks
+    .filter((block) => block.instructions[0]?.opcode === JUMPDEST)
+    .map((block) => block.start);
+
+  // Jumps left without a target by widening get the same fallback, but are
+  // not reported as unresolved: their targets were constants all along.
+  for (let changed = unresolved.size + widened.size > 0; changed; ) {
+    changed = false;
+    const worklist: WorkItem[] = [];
+    // Pushed first so that a target shared with a truly unresolved jump is
+    // explored, and reported, as the latter's.
+    for (const jumpPc of [...widened, ...unresolved]) {
+      const block = blocks.find(
+        (entry) => jumpPc >= entry.start && jumpPc < entry.start + entry.length
+      ) as BasicBlock;
+      const blockSuccessors = successors.get(block.start) as Set<number>;
+      for (const target of candidates) {
+        if (blockSuccessors.has(target)) continue;
+        blockSuccessors.add(target);
+        worklist.push({ start: target, stack: [], widened: !unresolved.has(jumpPc) });
+        changed = true;
+      }
+    }
+
+    drain(worklist);
+  }
+
+  for (const block of blocks) {
+    block.successors = [...(successors.get(block.start) ?? [])].sort((a, b) => a - b);
+  }
+
+  let orphanedCodeBytes = 0;
+  let inOrphanedChain = false;
+  for (const block of blocks) {
+    if (block.reachable) {
+      inOrphanedChain = false;
+      continue;
+    }
+    if (block.instructions[0]?.opcode === JUMPDEST) {
+      inOrphanedChain = true;
+    }
+    if (inOrphanedChain) {
+      orphanedCodeBytes += block.length;
+    }
+    const last = block.instructions[block.instructions.length - 1] as Instruction;
+    if (haltingOpcodes.has(last.opcode) || !getOpcodeInfo(last.opcode)) {
+      inOrphanedChain = false;
+    }
+  }
+
+  return {
+    codeSize: code.length / 2,
+    ...(metadata !== undefined ? { metadata } : {}),
+    blocks,
+    blockAt,
+    unresolvedJumps: [...unresolved].sort((a, b) => a - b),
+    orphanedCodeBytes,
+  };
+};
+
+/**
+ * Blocks reachable from `entry` when only statically tracked jumps are
+ * followed. Unlike the contract-wide pass there is no fallback for
+ * unresolved jumps, so internal calls stay attributed to their caller.
+ * `complete` is false when a block was reached in more states than are
+ * tracked; the return jumps that lost their targets are not followed, so
+ * blocks after them may be missing.
+ */
+export const traceFrom = (
+  disassembly: Disassembly,
+  entry: number
+): { blocks: BasicBlock[]; complete: boolean } => {
+  const exploration = createExploration();
+  explore(disassembly.blockAt, [{ start: entry, stack: [] }], exploration);
+  return {
+    blocks: [...exploration.visited.keys()]
+      .sort((a, b) => a - b)
+      .map((start) => disassembly.blockAt.get(start) as BasicBlock),
+    complete: exploration.widened.size === 0,
+  };
+};
+
+export default disassemble;
@@ -0,0 +1,126 @@
+export interface EofSection {
+  /** Byte offset within the container. */
+  offset: number;
+  size: number;
+}
+
+export interface EofCodeSection extends EofSection {
+  inputs: number;
+  /** 0x80 marks a section that never returns. */
+  outputs: number;
+  maxStackIncrease: number;
+}
+
+export interface EofContainer {
+  version: number;
+  codeSections: EofCodeSection[];
+  /** Nested containers deployed by EOFCREATE or RETURNCONTRACT. */
+  containerSections: EofSection[];
+  data: EofSection & { declaredSize: number };
+}
+
+const MAGIC = "ef00";
+const KIND_TYPES = 0x01;
+const KIND_CODE = 0x02;
+const KIND_CONTAINER = 0x03;
+const KIND_DATA = 0x04;
+const TERMINATOR = 0x00;
+
+export const isEofCode = (hex: string): boolean => hex.startsWith(MAGIC);
+
+class HeaderReader {
+  offset = 0;
+
+  constructor(private readonly bytes: Buffer) {}
+
+  uint(size: number): number {
+    if (this.offset + size > this.bytes.length) throw new Error("Truncated EOF header");
+    const value = this.bytes.readUIntBE(this.offset, size);
+    this.offset += size;
+    return value;
+  }
+
+  expect(kind: number): void {
+    if (this.uint(1) !== kind) throw new Error(`Expected EOF section kind ${kind}`);
+  }
+}
+
+const parseWith = (bytes: Buffer, containerSizeBytes: number): EofContainer => {
+  const header = new HeaderReader(bytes);
+  header.offset = 2;
+  const version = header.uint(1);
+  if (version !== 1) throw new Error(`Unsupported EOF version ${version}`);
+
+  header.expect(KIND_TYPES);
+  const typesSize = header.uint(2);
+  header.expect(KIND_CODE);
+  const codeSizes = Array.from({ length: header.uint(2) }, () => header.uint(2));
+  if (codeSizes.length === 0 || typesSize !== codeSizes.length * 4) {
+    throw new Error("EOF type section does not match the code sections");
+  }
+
+  let containerSizes: number[] = [];
+  let kind = header.uint(1);
+  if (kind === KIND_CONTAINER) {
+    containerSizes = Array.from({ length: header.uint(2) }, () => header.uint(containerSizeBytes));
+    kind = header.uint(1);
+  }
+  if (kind !== KIND_DATA) throw new Error("Missing EOF data section");
+  const declaredDataSize = header.uint(2);
+  header.expect(TERMINATOR);
+
+  const types = new HeaderReader(bytes);
+  types.offset = header.offset;
+  let offset = header.offset + typesSize;
+  const codeSections = codeSizes.map((size) => {
+    const section = {
+      offset,
+      size,
+      inputs: types.uint(1),
+      outputs: types.uint(1),
+      maxStackIncrease: types.uint(2),
+    };
+    offset += size;
+    return section;
+  });
+  const containerSections = containerSizes.map((size) => {
+    const section = { offset, size };
+    offset += size;
+    return section;
+  });
+
+  // Deployed containers carry all their data; only nested initcode
+  // containers may declare more than they hold.
+  const dataSize = bytes.length - offset;
+  if (dataSize < 0 || dataSize > declaredDataSize) {
+    throw new Error("EOF section sizes do not add up to the container size");
+  }
+
+  return {
+    version,
+    codeSections,
+    containerSections,
+    data: { offset, size: dataSize, declaredSize: declaredDataSize },
+  };
+};
+
+/**
+ * Parses an EOF container header (magic `0xEF00`). Returns null when the
+ * header is malformed or its sizes don't add up, so pre-London code that
+ * happens to start with `0xEF` is still treated as legacy bytecode.
+ */
+export const parseEofContainer = (hex: string): EofContainer | null => {
+  if (!isEofCode(hex)) return null;
+  const bytes = Buffer.from(hex, "hex");
+  // Container sizes were widened from two to four bytes late in the spec.
+  for (const containerSizeBytes of [4, 2]) {
+    try {
+      return parseWith(bytes, containerSizeBytes);
+    } catch {
+      // try the next header layout
+    }
+  }
+  return null;
+};
+
+export default parseEofContainer;
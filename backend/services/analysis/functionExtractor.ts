@@ -0,0 +1,88 @@
+import { FunctionSummary } from "../../types/analysis";
+import disassemble, { Disassembly, Instruction, traceFrom } from "./disassembler";
+
+const PUSH3 = 0x62;
+const PUSH4 = 0x63;
+const EQ = 0x14;
+const JUMPI = 0x57;
+
+export const trackedOpcodes: Record<number, string> = {
+  0x55: "SSTORE",
+  0xf1: "CALL",
+  0xf4: "DELEGATECALL",
+  0xff: "SELFDESTRUCT",
+};
+
+const matchSelectorCheck = (instructions: Instruction[]) => {
+  const [eq, target, jumpi] = instructions.slice(-3);
+  if (eq?.opcode !== EQ || !target?.pushData || jumpi?.opcode !== JUMPI) {
+    return null;
+  }
+
+  // solc emits either `PUSH4 sel EQ` or `PUSH4 sel DUP2 EQ` before the jump,
+  // and drops a leading zero byte (`PUSH3`) for selectors such as 0x00fdd58e
+  const push = instructions
+    .slice(-5, -3)
+    .reverse()
+    .find((instruction) => instruction.opcode === PUSH4 || instruction.opcode === PUSH3);
+  if (!push?.pushData) {
+    return null;
+  }
+
+  return {
+    selector: `0x${push.pushData.padStart(8, "0")}`,
+    entryPc: parseInt(target.pushData, 16),
+  };
+};
+
+const findSelectorChecks = (disassembly: Disassembly) =>
+  disassembly.blocks.flatMap((block) => {
+    const match = block.reachable ? matchSelectorCheck(block.instructions) : null;
+    return match && block.successors.includes(match.entryPc) ? [match] : [];
+  });
+
+export const recoverSelectors = (bytecode: string): string[] => {
+  const hex = bytecode.toLowerCase().replace(/^0x/, "");
+  return [...new Set(findSelectorChecks(disassemble(hex)).map((match) => match.selector))];
+};
+
+/**
+ * Recovers external function selectors from the solc dispatcher
+ * (`PUSH4 selector EQ PUSH tag JUMPI`) and records which tracked opcodes are
+ * reachable from each function's entry block.
+ */
+export const extractFunctions = (
+  disassembly: Disassembly,
+  signatures: Map<string, string[]> = new Map()
+): FunctionSummary[] => {
+  const functions = new Map<string, FunctionSummary>();
+
+  for (const match of findSelectorChecks(disassembly)) {
+    if (functions.has(match.selector)) continue;
+
+    const dangerousOpcodes: Record<string, number[]> = {};
+    const { blocks, complete } = traceFrom(disassembly, match.entryPc);
+    for (const reached of blocks) {
+      for (const instruction of reached.instructions) {
+        const name = trackedOpcodes[instruction.opcode];
+        if (name) {
+          (dangerousOpcodes[name] ??= []).push(instruction.pc);
+        }
+      }
+    }
+
+    // colliding candidates are kept side by side rather than picking one
+    const candidates = signatures.get(match.selector) ?? [];
+    functions.set(match.selector, {
+      ...match,
+      ...(candidates.length === 1 ? { signature: candidates[0] as string } : {}),
+      ...(candidates.length > 1 ? { candidateSignatures: candidates } : {}),
+      dangerousOpcodes,
+      ...(complete ? {} : { partial: true }),
+    });
+  }
+
+  return [...functions.values()].sort((a, b) => a.selector.localeCompare(b.selector));
+};
+
+export default extractFunctions;
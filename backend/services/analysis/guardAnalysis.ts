@@ -0,0 +1,122 @@
+import { BasicBlock, Disassembly } from "./disassembler";
+import { ADDRESS_MASK, SymbolicValue, walkPaths } from "./symbolic";
+
+/** A caller check that holds on every path reaching an instruction. */
+export type CallerGuard =
+  | { kind: "storage"; slot: string; offset?: number }
+  | { kind: "constant"; address: string };
+
+export interface GuardReach {
+  /** At least one explored path reaches the instruction without a caller check. */
+  unguarded: boolean;
+  /** Guards seen on the guarded paths; empty as soon as one path is unguarded. */
+  guards: CallerGuard[];
+  /**
+   * Some paths that may reach the instruction were dropped unexplored, so
+   * `unguarded: false` does not prove that every path checks the caller.
+   */
+  incomplete?: boolean;
+}
+
+const guardKey = (guard: CallerGuard): string =>
+  guard.kind === "storage" ? `s:${guard.slot}:${guard.offset ?? 0}` : `c:${guard.address}`;
+
+const callerComparison = (value: SymbolicValue): CallerGuard | null => {
+  if (value?.op !== "eq") return null;
+  const { left, right } = value;
+  const other = left?.op === "caller" ? right : right?.op === "caller" ? left : null;
+
+  if (other?.op === "sload") {
+    return {
+      kind: "storage",
+      slot: `0x${other.slot.toString(16)}`,
+      ...(other.shift > 0 ? { offset: other.shift / 8 } : {}),
+    };
+  }
+  if (other?.op === "const" && other.value > 0n && other.value <= ADDRESS_MASK) {
+    return { kind: "constant", address: `0x${other.value.toString(16).padStart(40, "0")}` };
+  }
+  return null;
+};
+
+/** Guard established by a JUMPI condition on the branch where it is `holds`. */
+const branchGuard = (condition: SymbolicValue, holds: boolean): CallerGuard | null => {
+  let negated = false;
+  let inner = condition;
+  while (inner?.op === "iszero") {
+    negated = !negated;
+    inner = inner.value;
+  }
+  return holds !== negated ? callerComparison(inner) : null;
+};
+
+const withGuard = (guards: CallerGuard[], guard: CallerGuard | null): CallerGuard[] =>
+  guard && !guards.some((existing) => guardKey(existing) === guardKey(guard))
+    ? [...guards, guard]
+    : guards;
+
+/** Blocks reachable from `starts` along the contract-wide control flow graph. */
+const reachableFrom = (disassembly: Disassembly, starts: number[]): BasicBlock[] => {
+  const seen = new Set<number>();
+  const worklist = [...starts];
+  while (worklist.length > 0) {
+    const start = worklist.pop() as number;
+    const block = disassembly.blockAt.get(start);
+    if (!block || seen.has(start)) continue;
+    seen.add(start);
+    worklist.push(...block.successors);
+  }
+  return [...seen].map((start) => disassembly.blockAt.get(start) as BasicBlock);
+};
+
+/**
+ * Records, for each instruction named in `targets` that is reachable from
+ * `entry`, whether some path reaches it without first branching on
+ * `CALLER == SLOAD(slot)` or `CALLER == PUSH20 address`. Instructions only
+ * reachable through unresolved jumps are absent from the result. Those a
+ * dropped path could have reached are marked incomplete.
+ */
+export const analyzeGuards = (
+  disassembly: Disassembly,
+  targets: Set<string>,
+  entry = 0
+): Map<number, GuardReach> => {
+  const reach = new Map<number, GuardReach>();
+
+  const { truncated } = walkPaths<CallerGuard[]>(disassembly, entry, [], {
+    instruction: (instruction, _stack, guards) => {
+      if (targets.has(instruction.name)) {
+        const status = reach.get(instruction.pc) ?? { unguarded: false, guards: [] };
+        if (guards.length === 0) {
+          status.unguarded = true;
+        }
+        for (const guard of guards) {
+          status.guards = withGuard(status.guards, guard);
+        }
+        reach.set(instruction.pc, status);
+      }
+      return guards;
+    },
+    branch: (condition, taken, guards) => withGuard(guards, branchGuard(condition, taken)),
+    key: (guards) => guards.map(guardKey).join(","),
+  });
+
+  for (const block of reachableFrom(disassembly, truncated)) {
+    for (const instruction of block.instructions) {
+      if (!targets.has(instruction.name)) continue;
+      const status = reach.get(instruction.pc) ?? { unguarded: false, guards: [] };
+      reach.set(instruction.pc, { ...status, incomplete: true });
+    }
+  }
+
+  // A guard only protects an instruction if no path bypasses it.
+  for (const status of reach.values()) {
+    if (status.unguarded) {
+      status.guards = [];
+    }
+  }
+
+  return reach;
+};
+
+export default analyzeGuards;
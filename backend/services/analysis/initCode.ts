@@ -0,0 +1,99 @@
+import { InitCodeSummary } from "../../types/analysis";
+import disassemble from "./disassembler";
+import { isEofCode } from "./eof";
+import { SymbolicValue, constant, walkPaths } from "./symbolic";
+
+export interface InitCodeSplit {
+  /** Runtime code the constructor returns, as embedded in the init code (no 0x). */
+  runtimeCode: string;
+  summary: InitCodeSummary;
+}
+
+interface CodeCopy {
+  offset: number;
+  size: number;
+}
+
+interface ConstructorFacts {
+  copies: CodeCopy[];
+  returnSizes: number[];
+  storageWrites: Map<number, InitCodeSummary["storageWrites"][number]>;
+}
+
+const toNumber = (value: SymbolicValue | undefined): number | null => {
+  const resolved = constant(value ?? null);
+  return resolved !== null && resolved <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(resolved) : null;
+};
+
+const peek = (stack: readonly SymbolicValue[], depth: number): SymbolicValue | undefined =>
+  stack[stack.length - 1 - depth];
+
+/**
+ * Splits legacy creation code into the constructor and the runtime code it
+ * deploys. solc and vyper constructors end by copying the runtime out of
+ * their own code with a constant `CODECOPY` and returning at least that many
+ * bytes, so the largest such copy is taken as the runtime. Returns null
+ * when no copy is found, e.g. for hand-written or EOF init code.
+ */
+export const splitInitCode = (hex: string): InitCodeSplit | null => {
+  if (hex.length === 0 || isEofCode(hex)) return null;
+
+  const disassembly = disassemble(hex);
+  const totalSize = hex.length / 2;
+  const facts: ConstructorFacts = { copies: [], returnSizes: [], storageWrites: new Map() };
+
+  walkPaths(disassembly, 0, facts, {
+    instruction: (instruction, stack, current) => {
+      if (instruction.name === "CODECOPY") {
+        const offset = toNumber(peek(stack, 1));
+        const size = toNumber(peek(stack, 2));
+        if (offset !== null && size !== null && size > 0 && offset + size <= totalSize) {
+          current.copies.push({ offset, size });
+        }
+      } else if (instruction.name === "RETURN") {
+        const size = toNumber(peek(stack, 1));
+        if (size !== null) current.returnSizes.push(size);
+      } else if (instruction.name === "SSTORE" && !current.storageWrites.has(instruction.pc)) {
+        const slot = constant(peek(stack, 0) ?? null);
+        current.storageWrites.set(instruction.pc, {
+          pc: instruction.pc,
+          ...(slot !== null ? { slot: `0x${slot.toString(16)}` } : {}),
+        });
+      }
+      return current;
+    },
+    // Facts are shared across paths, so states only differ by their stacks.
+    key: () => "",
+  });
+
+  // Immutables are patched into memory after the copy, so the returned size
+  // may exceed the copied one but never falls short of it.
+  const runtime = facts.copies
+    .filter((copy) => facts.returnSizes.some((size) => size >= copy.size))
+    .reduce<CodeCopy | null>((best, copy) => (!best || copy.size > best.size ? copy : best), null);
+  if (!runtime) return null;
+
+  const createPcs: number[] = [];
+  const create2Pcs: number[] = [];
+  for (const block of disassembly.blocks) {
+    if (!block.reachable || block.start >= runtime.offset) continue;
+    for (const instruction of block.instructions) {
+      if (instruction.name === "CREATE") createPcs.push(instruction.pc);
+      if (instruction.name === "CREATE2") create2Pcs.push(instruction.pc);
+    }
+  }
+
+  return {
+    runtimeCode: hex.slice(runtime.offset * 2, (runtime.offset + runtime.size) * 2),
+    summary: {
+      runtimeOffset: runtime.offset,
+      runtimeSize: runtime.size,
+      trailingSize: totalSize - runtime.offset - runtime.size,
+      createPcs,
+      create2Pcs,
+      storageWrites: [...facts.storageWrites.values()].sort((a, b) => a.pc - b.pc),
+    },
+  };
+};
+
+export default splitInitCode;
@@ -0,0 +1,199 @@
+import { HardFork, hardForks } from "../../types/analysis";
+
+export const latestHardFork: HardFork = "osaka";
+
+/** Whether `fork` is at or before `active`, i.e. its changes apply on a chain running `active`. */
+export const isForkActive = (fork: HardFork, active: HardFork): boolean =>
+  hardForks.indexOf(fork) <= hardForks.indexOf(active);
+
+export type CodeFormat = "legacy" | "eof";
+
+export interface OpcodeInfo {
+  name: string;
+  pops: number;
+  pushes: number;
+  /** Fork that introduced the opcode; absent for EOF-only opcodes, which no fork has activated. */
+  since?: HardFork;
+  /** Immediate bytes following the opcode in EOF code; RJUMPV's count is variable. */
+  immediate?: number;
+}
+
+const table: Record<number, OpcodeInfo> = {
+  0x00: { name: "STOP", pops: 0, pushes: 0 },
+  0x01: { name: "ADD", pops: 2, pushes: 1 },
+  0x02: { name: "MUL", pops: 2, pushes: 1 },
+  0x03: { name: "SUB", pops: 2, pushes: 1 },
+  0x04: { name: "DIV", pops: 2, pushes: 1 },
+  0x05: { name: "SDIV", pops: 2, pushes: 1 },
+  0x06: { name: "MOD", pops: 2, pushes: 1 },
+  0x07: { name: "SMOD", pops: 2, pushes: 1 },
+  0x08: { name: "ADDMOD", pops: 3, pushes: 1 },
+  0x09: { name: "MULMOD", pops: 3, pushes: 1 },
+  0x0a: { name: "EXP", pops: 2, pushes: 1 },
+  0x0b: { name: "SIGNEXTEND", pops: 2, pushes: 1 },
+  0x10: { name: "LT", pops: 2, pushes: 1 },
+  0x11: { name: "GT", pops: 2, pushes: 1 },
+  0x12: { name: "SLT", pops: 2, pushes: 1 },
+  0x13: { name: "SGT", pops: 2, pushes: 1 },
+  0x14: { name: "EQ", pops: 2, pushes: 1 },
+  0x15: { name: "ISZERO", pops: 1, pushes: 1 },
+  0x16: { name: "AND", pops: 2, pushes: 1 },
+  0x17: { name: "OR", pops: 2, pushes: 1 },
+  0x18: { name: "XOR", pops: 2, pushes: 1 },
+  0x19: { name: "NOT", pops: 1, pushes: 1 },
+  0x1a: { name: "BYTE", pops: 2, pushes: 1 },
+  0x1b: { name: "SHL", pops: 2, pushes: 1 },
+  0x1c: { name: "SHR", pops: 2, pushes: 1 },
+  0x1d: { name: "SAR", pops: 2, pushes: 1 },
+  0x1e: { name: "CLZ", pops: 1, pushes: 1 },
+  0x20: { name: "KECCAK256", pops: 2, pushes: 1 },
+  0x30: { name: "ADDRESS", pops: 0, pushes: 1 },
+  0x31: { name: "BALANCE", pops: 1, pushes: 1 },
+  0x32: { name: "ORIGIN", pops: 0, pushes: 1 },
+  0x33: { name: "CALLER", pops: 0, pushes: 1 },
+  0x34: { name: "CALLVALUE", pops: 0, pushes: 1 },
+  0x35: { name: "CALLDATALOAD", pops: 1, pushes: 1 },
+  0x36: { name: "CALLDATASIZE", pops: 0, pushes: 1 },
+  0x37: { name: "CALLDATACOPY", pops: 3, pushes: 0 },
+  0x38: { name: "CODESIZE", pops: 0, pushes: 1 },
+  0x39: { name: "CODECOPY", pops: 3, pushes: 0 },
+  0x3a: { name: "GASPRICE", pops: 0, pushes: 1 },
+  0x3b: { name: "EXTCODESIZE", pops: 1, pushes: 1 },
+  0x3c: { name: "EXTCODECOPY", pops: 4, pushes: 0 },
+  0x3d: { name: "RETURNDATASIZE", pops: 0, pushes: 1 },
+  0x3e: { name: "RETURNDATACOPY", pops: 3, pushes: 0 },
+  0x3f: { name: "EXTCODEHASH", pops: 1, pushes: 1 },
+  0x40: { name: "BLOCKHASH", pops: 1, pushes: 1 },
+  0x41: { name: "COINBASE", pops: 0, pushes: 1 },
+  0x42: { name: "TIMESTAMP", pops: 0, pushes: 1 },
+  0x43: { name: "NUMBER", pops: 0, pushes: 1 },
+  0x44: { name: "PREVRANDAO", pops: 0, pushes: 1 },
+  0x45: { name: "GASLIMIT", pops: 0, pushes: 1 },
+  0x46: { name: "CHAINID", pops: 0, pushes: 1 },
+  0x47: { name: "SELFBALANCE", pops: 0, pushes: 1 },
+  0x48: { name: "BASEFEE", pops: 0, pushes: 1 },
+  0x49: { name: "BLOBHASH", pops: 1, pushes: 1 },
+  0x4a: { name: "BLOBBASEFEE", pops: 0, pushes: 1 },
+  0x50: { name: "POP", pops: 1, pushes: 0 },
+  0x51: { name: "MLOAD", pops: 1, pushes: 1 },
+  0x52: { name: "MSTORE", pops: 2, pushes: 0 },
+  0x53: { name: "MSTORE8", pops: 2, pushes: 0 },
+  0x54: { name: "SLOAD", pops: 1, pushes: 1 },
+  0x55: { name: "SSTORE", pops: 2, pushes: 0 },
+  0x56: { name: "JUMP", pops: 1, pushes: 0 },
+  0x57: { name: "JUMPI", pops: 2, pushes: 0 },
+  0x58: { name: "PC", pops: 0, pushes: 1 },
+  0x59: { name: "MSIZE", pops: 0, pushes: 1 },
+  0x5a: { name: "GAS", pops: 0, pushes: 1 },
+  0x5b: { name: "JUMPDEST", pops: 0, pushes: 0 },
+  0x5c: { name: "TLOAD", pops: 1, pushes: 1 },
+  0x5d: { name: "TSTORE", pops: 2, pushes: 0 },
+  0x5e: { name: "MCOPY", pops: 3, pushes: 0 },
+  0x5f: { name: "PUSH0", pops: 0, pushes: 1 },
+  0xa0: { name: "LOG0", pops: 2, pushes: 0 },
+  0xa1: { name: "LOG1", pops: 3, pushes: 0 },
+  0xa2: { name: "LOG2", pops: 4, pushes: 0 },
+  0xa3: { name: "LOG3", pops: 5, pushes: 0 },
+  0xa4: { name: "LOG4", pops: 6, pushes: 0 },
+  0xf0: { name: "CREATE", pops: 3, pushes: 1 },
+  0xf1: { name: "CALL", pops: 7, pushes: 1 },
+  0xf2: { name: "CALLCODE", pops: 7, pushes: 1 },
+  0xf3: { name: "RETURN", pops: 2, pushes: 0 },
+  0xf4: { name: "DELEGATECALL", pops: 6, pushes: 1 },
+  0xf5: { name: "CREATE2", pops: 4, pushes: 1 },
+  0xfa: { name: "STATICCALL", pops: 6, pushes: 1 },
+  0xfd: { name: "REVERT", pops: 2, pushes: 0 },
+  0xfe: { name: "INVALID", pops: 0, pushes: 0 },
+  0xff: { name: "SELFDESTRUCT", pops: 1, pushes: 0 },
+};
+
+for (let n = 1; n <= 32; n += 1) {
+  table[0x5f + n] = { name: `PUSH${n}`, pops: 0, pushes: 1 };
+}
+for (let n = 1; n <= 16; n += 1) {
+  table[0x7f + n] = { name: `DUP${n}`, pops: n, pushes: n + 1 };
+  table[0x8f + n] = { name: `SWAP${n}`, pops: n + 1, pushes: n + 1 };
+}
+
+const introducedIn: Record<HardFork, number[]> = {
+  frontier: [],
+  homestead: [0xf4],
+  byzantium: [0x3d, 0x3e, 0xfa, 0xfd],
+  constantinople: [0x1b, 0x1c, 0x1d, 0x3f, 0xf5],
+  istanbul: [0x46, 0x47],
+  london: [0x48],
+  paris: [],
+  shanghai: [0x5f],
+  cancun: [0x49, 0x4a, 0x5c, 0x5d, 0x5e],
+  prague: [],
+  osaka: [0x1e],
+};
+
+for (const info of Object.values(table)) {
+  info.since = "frontier";
+}
+for (const [fork, opcodes] of Object.entries(introducedIn) as [HardFork, number[]][]) {
+  for (const opcode of opcodes) {
+    (table[opcode] as OpcodeInfo).since = fork;
+  }
+}
+
+const byName = new Map(Object.values(table).map((info) => [info.name, info]));
+
+// EOF (EIP-3540 and companions) drops jumps, gas and code introspection and
+// replaces them with static relative jumps, functions and data section access.
+const legacyOnly = [
+  0x38, 0x39, 0x3b, 0x3c, 0x3f, 0x56, 0x57, 0x58, 0x5a, 0xf0, 0xf1, 0xf2, 0xf4, 0xf5, 0xfa, 0xff,
+];
+
+const eofTable: Record<number, OpcodeInfo> = { ...table };
+for (const opcode of legacyOnly) {
+  delete eofTable[opcode];
+}
+Object.assign(eofTable, {
+  0x5b: { name: "NOP", pops: 0, pushes: 0, since: "frontier" },
+  0xd0: { name: "DATALOAD", pops: 1, pushes: 1 },
+  0xd1: { name: "DATALOADN", pops: 0, pushes: 1, immediate: 2 },
+  0xd2: { name: "DATASIZE", pops: 0, pushes: 1 },
+  0xd3: { name: "DATACOPY", pops: 3, pushes: 0 },
+  0xe0: { name: "RJUMP", pops: 0, pushes: 0, immediate: 2 },
+  0xe1: { name: "RJUMPI", pops: 1, pushes: 0, immediate: 2 },
+  0xe2: { name: "RJUMPV", pops: 1, pushes: 0, immediate: 1 },
+  0xe3: { name: "CALLF", pops: 0, pushes: 0, immediate: 2 },
+  0xe4: { name: "RETF", pops: 0, pushes: 0 },
+  0xe5: { name: "JUMPF", pops: 0, pushes: 0, immediate: 2 },
+  0xe6: { name: "DUPN", pops: 0, pushes: 1, immediate: 1 },
+  0xe7: { name: "SWAPN", pops: 0, pushes: 0, immediate: 1 },
+  0xe8: { name: "EXCHANGE", pops: 0, pushes: 0, immediate: 1 },
+  0xec: { name: "EOFCREATE", pops: 4, pushes: 1, immediate: 1 },
+  0xee: { name: "RETURNCONTRACT", pops: 2, pushes: 0, immediate: 1 },
+  0xf7: { name: "RETURNDATALOAD", pops: 1, pushes: 1 },
+  0xf8: { name: "EXTCALL", pops: 4, pushes: 1 },
+  0xf9: { name: "EXTDELEGATECALL", pops: 3, pushes: 1 },
+  0xfb: { name: "EXTSTATICCALL", pops: 3, pushes: 1 },
+} satisfies Record<number, OpcodeInfo>);
+
+const tables: Record<CodeFormat, Record<number, OpcodeInfo>> = { legacy: table, eof: eofTable };
+
+export const getOpcodeInfo = (
+  opcode: number,
+  format: CodeFormat = "legacy"
+): OpcodeInfo | undefined => tables[format][opcode];
+
+/** Looks up a legacy opcode by mnemonic, e.g. to find the fork that introduced it. */
+export const getOpcodeByName = (name: string): OpcodeInfo | undefined => byName.get(name);
+
+export const opcodeName = (opcode: number, format: CodeFormat = "legacy"): string =>
+  tables[format][opcode]?.name ?? `UNKNOWN_0x${opcode.toString(16).padStart(2, "0")}`;
+
+export const isPushOpcode = (opcode: number): boolean => opcode >= 0x60 && opcode <= 0x7f;
+
+export const pushSize = (opcode: number): number => (isPushOpcode(opcode) ? opcode - 0x5f : 0);
+
+// Opcodes after which execution never falls through to the next instruction.
+export const haltingOpcodes = new Set([0x00, 0x56, 0xf3, 0xfd, 0xfe, 0xff]);
+
+/** The EOF equivalent: halting opcodes plus unconditional jumps and function returns. */
+export const eofTerminatingOpcodes = new Set([0x00, 0xe0, 0xe4, 0xe5, 0xee, 0xf3, 0xfd, 0xfe]);
+
+export default getOpcodeInfo;
@@ -0,0 +1,152 @@
+import { FunctionSummary } from "../../types/analysis";
+import { Disassembly } from "./disassembler";
+import { constant, SymbolicValue, walkPaths } from "./symbolic";
+
+export interface ReentrancyPath {
+  selector: string;
+  callPc: number;
+  sstorePc: number;
+  /** A storage flag was read and set before the call on every such path. */
+  reentrancyGuard: boolean;
+  guardSlot?: string;
+  /** Transient locks (EIP-1153) only work on networks past Cancun. */
+  guardStorage?: "storage" | "transient";
+}
+
+export interface ReentrancyAnalysis {
+  paths: ReentrancyPath[];
+  /**
+   * Selectors of functions with more paths than were followed; a write after
+   * a call on one of the dropped paths would be missing from `paths`.
+   */
+  incomplete: string[];
+}
+
+interface PathFacts {
+  /** Constant slots read so far, prefixed with "s" (storage) or "t" (transient). */
+  read: string[];
+  /** Constant slots written with a constant value so far. */
+  locked: string[];
+  call?: { pc: number; locks: string[] };
+}
+
+// Precompiles are pure functions and cannot call back into the contract.
+const MAX_PRECOMPILE = 0x11n;
+
+const slotKey = (prefix: string, slot: SymbolicValue): string | null => {
+  const value = constant(slot);
+  return value === null ? null : `${prefix}${value.toString(16)}`;
+};
+
+const append = (list: string[], key: string | null): string[] =>
+  key && !list.includes(key) ? [...list, key] : list;
+
+const isReentrantCall = (stack: readonly SymbolicValue[]): boolean => {
+  const gas = stack[stack.length - 1] ?? null;
+  const target = constant(stack[stack.length - 2] ?? null);
+  const value = constant(stack[stack.length - 3] ?? null);
+  if (target !== null && target <= MAX_PRECOMPILE) return false;
+  return value !== 0n || constant(gas) === null;
+};
+
+const formatSlot = (key: string): string => `0x${key.slice(1)}`;
+
+/**
+ * Finds, per function, paths on which a CALL that forwards gas or value is
+ * followed by an SSTORE. A path counts as guarded when, before the call, it
+ * both read and wrote a constant value to the same constant storage or
+ * transient slot, the shape of a reentrancy lock. Writes back to that slot
+ * after the call are the lock being released and are not reported.
+ */
+export const analyzeReentrancy = (
+  disassembly: Disassembly,
+  functions: FunctionSummary[]
+): ReentrancyAnalysis => {
+  const paths = new Map<string, ReentrancyPath>();
+  const incomplete: string[] = [];
+
+  for (const fn of functions) {
+    // A partial trace may have missed the CALL or SSTORE, so it is walked anyway.
+    if (!fn.partial && (!fn.dangerousOpcodes.CALL || !fn.dangerousOpcodes.SSTORE)) continue;
+
+    const initial: PathFacts = { read: [], locked: [] };
+    const { truncated } = walkPaths<PathFacts>(disassembly, fn.entryPc, initial, {
+      instruction: (instruction, stack, facts) => {
+        const top = stack[stack.length - 1] ?? null;
+        const second = stack[stack.length - 2] ?? null;
+
+        switch (instruction.name) {
+          case "SLOAD":
+          case "TLOAD":
+            return facts.call
+              ? facts
+              : {
+                  ...facts,
+                  read: append(facts.read, slotKey(instruction.name === "TLOAD" ? "t" : "s", top)),
+                };
+          case "TSTORE":
+          case "SSTORE": {
+            const key = slotKey(instruction.name === "TSTORE" ? "t" : "s", top);
+            if (!facts.call) {
+              return constant(second) !== null
+                ? { ...facts, locked: append(facts.locked, key) }
+                : facts;
+            }
+            if (instruction.name === "TSTORE" || (key && facts.call.locks.includes(key))) {
+              return facts;
+            }
+
+            const id = `${fn.selector}:${facts.call.pc}:${instruction.pc}`;
+            const guardSlot = facts.call.locks[0];
+            const existing = paths.get(id);
+            if (!existing) {
+              paths.set(id, {
+                selector: fn.selector,
+                callPc: facts.call.pc,
+                sstorePc: instruction.pc,
+                reentrancyGuard: guardSlot !== undefined,
+                ...(guardSlot
+                  ? {
+                      guardSlot: formatSlot(guardSlot),
+                      guardStorage: guardSlot.startsWith("t") ? "transient" : "storage",
+                    }
+                  : {}),
+              });
+            } else if (!guardSlot) {
+              existing.reentrancyGuard = false;
+              delete existing.guardSlot;
+              delete existing.guardStorage;
+            }
+            return facts;
+          }
+          case "CALL":
+            if (facts.call || !isReentrantCall(stack)) return facts;
+            return {
+              ...facts,
+              call: {
+                pc: instruction.pc,
+                locks: facts.locked.filter((key) => facts.read.includes(key)),
+              },
+            };
+          default:
+            return facts;
+        }
+      },
+      key: (facts) =>
+        `${facts.read.join(",")}|${facts.locked.join(",")}|${facts.call?.pc ?? ""}:${
+          facts.call?.locks.join(",") ?? ""
+        }`,
+    });
+    if (truncated.length > 0) incomplete.push(fn.selector);
+  }
+
+  return {
+    paths: [...paths.values()].sort(
+      (a, b) =>
+        a.selector.localeCompare(b.selector) || a.callPc - b.callPc || a.sstorePc - b.sstorePc
+    ),
+    incomplete,
+  };
+};
+
+export default analyzeReentrancy;
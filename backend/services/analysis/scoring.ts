@@ -0,0 +1,121 @@
+import {
+  AnalysisFinding,
+  RiskLevel,
+  ScoreBreakdown,
+  ScoreContribution,
+} from "../../types/analysis";
+import { getDetector } from "./detectors";
+
+export interface ScoringProfile {
+  name: string;
+  /** Bump whenever a change to the profile can move a score. */
+  version: string;
+  description: string;
+  weights: Record<RiskLevel, number>;
+  /**
+   * Factor applied per earlier finding in the same category, heaviest first.
+   * 1 disables diminishing returns.
+   */
+  repeatDecay: number;
+  /** Upper bound on a single finding's contribution, keyed by finding id. */
+  findingCaps: Record<string, number>;
+  /** Minimum score for each level above "low". */
+  thresholds: Record<Exclude<RiskLevel, "low">, number>;
+}
+
+const profiles: Record<string, ScoringProfile> = {
+  standard: {
+    name: "standard",
+    version: "1.0.0",
+    description:
+      "Severity dominates: one critical finding outweighs any number of low ones, and repeated findings in a category add progressively less.",
+    weights: { low: 1, medium: 4, high: 10, critical: 25 },
+    repeatDecay: 0.5,
+    findingCaps: {
+      "sstore-usage": 0.5,
+      "staticcall-usage": 0.5,
+      "extcodesize-usage": 0.5,
+    },
+    thresholds: { medium: 5, high: 12, critical: 25 },
+  },
+  legacy: {
+    name: "legacy",
+    version: "1.0.0",
+    description: "Flat sum of severity weights with the original 6/12/18 thresholds.",
+    weights: { low: 1, medium: 3, high: 6, critical: 10 },
+    repeatDecay: 1,
+    findingCaps: {},
+    thresholds: { medium: 6, high: 12, critical: 18 },
+  },
+};
+
+export const defaultScoringProfile = "standard";
+
+export const listScoringProfiles = (): ScoringProfile[] => Object.values(profiles);
+
+export const getScoringProfile = (name: string): ScoringProfile | undefined =>
+  profiles[name.toLowerCase()];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export const evaluateRiskLevel = (score: number, profile: ScoringProfile): RiskLevel => {
+  if (score >= profile.thresholds.critical) return "critical";
+  if (score >= profile.thresholds.high) return "high";
+  if (score >= profile.thresholds.medium) return "medium";
+  return "low";
+};
+
+const findingCategory = (finding: AnalysisFinding): string =>
+  (finding.detector && getDetector(finding.detector.id)?.category) ?? finding.id;
+
+/**
+ * Scores findings under a profile. Within each category findings are ranked
+ * by weight so the most severe one always counts in full; contributions are
+ * listed in the order of the findings they belong to.
+ */
+export const scoreFindings = (
+  findings: AnalysisFinding[],
+  profile: ScoringProfile
+): ScoreBreakdown => {
+  const multipliers = new Map<AnalysisFinding, number>();
+  const byCategory = new Map<string, AnalysisFinding[]>();
+
+  for (const finding of findings) {
+    const category = findingCategory(finding);
+    byCategory.set(category, [...(byCategory.get(category) ?? []), finding]);
+  }
+
+  for (const members of byCategory.values()) {
+    members
+      .slice()
+      .sort((a, b) => profile.weights[b.severity] - profile.weights[a.severity])
+      .forEach((finding, rank) => multipliers.set(finding, profile.repeatDecay ** rank));
+  }
+
+  const contributions = findings.map((finding): ScoreContribution => {
+    const weight = profile.weights[finding.severity];
+    const multiplier = multipliers.get(finding) ?? 1;
+    const cap = profile.findingCaps[finding.id];
+    const uncapped = weight * multiplier;
+
+    return {
+      findingId: finding.id,
+      ...(finding.detector ? { detectorId: finding.detector.id } : {}),
+      category: findingCategory(finding),
+      severity: finding.severity,
+      weight,
+      multiplier: round(multiplier),
+      ...(cap !== undefined ? { cap } : {}),
+      contribution: round(cap !== undefined ? Math.min(uncapped, cap) : uncapped),
+    };
+  });
+
+  return {
+    profile: profile.name,
+    profileVersion: profile.version,
+    contributions,
+    total: round(contributions.reduce((acc, entry) => acc + entry.contribution, 0)),
+  };
+};
+
+export default scoreFindings;
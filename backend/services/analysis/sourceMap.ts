@@ -0,0 +1,135 @@
+import { AnalysisFinding, SourceLocation, SourceMapData } from "../../types/analysis";
+
+const MAX_LOCATIONS = 20;
+
+interface SourceMapEntry {
+  start: number;
+  length: number;
+  sourceId: number;
+}
+
+export type SourceMapper = (pc: number) => SourceLocation | undefined;
+
+/**
+ * Expands solc's compressed source map, where empty fields repeat the value
+ * of the previous entry.
+ */
+const decompressSourceMap = (sourceMap: string): SourceMapEntry[] => {
+  let previous: SourceMapEntry = { start: -1, length: -1, sourceId: -1 };
+  return sourceMap.split(";").map((item) => {
+    const [start, length, sourceId] = item.split(":");
+    previous = {
+      start: start ? Number(start) : previous.start,
+      length: length ? Number(length) : previous.length,
+      sourceId: sourceId ? Number(sourceId) : previous.sourceId,
+    };
+    return previous;
+  });
+};
+
+/** Source map entries are per instruction, so PUSH data has to be skipped over. */
+const instructionIndexes = (hex: string): Map<number, number> => {
+  const indexes = new Map<number, number>();
+  const size = hex.length / 2;
+  let index = 0;
+  for (let pc = 0; pc < size; pc += 1) {
+    indexes.set(pc, index);
+    index += 1;
+    const opcode = parseInt(hex.slice(pc * 2, pc * 2 + 2), 16);
+    if (opcode >= 0x60 && opcode <= 0x7f) {
+      pc += opcode - 0x5f;
+    }
+  }
+  return indexes;
+};
+
+// Source map offsets count UTF-8 bytes, not UTF-16 code units.
+const lineStarts = (content: string): number[] => {
+  const bytes = Buffer.from(content, "utf8");
+  const starts = [0];
+  for (let i = 0; i < bytes.length; i += 1) {
+    if (bytes[i] === 0x0a) starts.push(i + 1);
+  }
+  return starts;
+};
+
+const lineOf = (starts: number[], offset: number): { line: number; column: number } => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if ((starts[mid] ?? 0) <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return { line: low + 1, column: offset - (starts[low] ?? 0) + 1 };
+};
+
+export const createSourceMapper = (data: SourceMapData, bytecode: string): SourceMapper => {
+  const hex = bytecode.startsWith("0x") ? bytecode.slice(2) : bytecode;
+  const entries = decompressSourceMap(data.runtimeSourceMap);
+  const indexes = instructionIndexes(hex);
+  const sources = new Map(
+    data.sources.map((source) => [
+      source.id,
+      { path: source.path, starts: lineStarts(source.content) },
+    ])
+  );
+
+  return (pc) => {
+    const index = indexes.get(pc);
+    const entry = index === undefined ? undefined : entries[index];
+    // Negative ids and ids outside the user's files belong to compiler-generated code.
+    const source = entry ? sources.get(entry.sourceId) : undefined;
+    if (!entry || !source || entry.start < 0) return undefined;
+
+    const enclosing = data.functions
+      .filter(
+        (fn) =>
+          fn.sourceId === entry.sourceId &&
+          fn.start <= entry.start &&
+          entry.start < fn.start + fn.length
+      )
+      .sort((a, b) => a.length - b.length)[0];
+
+    return {
+      pc,
+      file: source.path,
+      ...lineOf(source.starts, entry.start),
+      ...(enclosing ? { function: enclosing.name } : {}),
+    };
+  };
+};
+
+const numbers = (value: unknown): number[] =>
+  Array.isArray(value) ? value.filter((item): item is number => typeof item === "number") : [];
+
+/** Program counters a finding points at, from the metadata detectors attach. */
+const findingProgramCounters = (finding: AnalysisFinding): number[] => {
+  const metadata = finding.metadata ?? {};
+  const paths = Array.isArray(metadata.paths) ? (metadata.paths as unknown[]) : [];
+  return [
+    ...numbers(metadata.programCounters),
+    ...paths.flatMap((path) => {
+      const { callPc, sstorePc } = (path ?? {}) as { callPc?: unknown; sstorePc?: unknown };
+      return numbers([callPc, sstorePc]);
+    }),
+  ];
+};
+
+/** Attaches source locations to findings that reference program counters. */
+export const mapFindingSources = (
+  findings: AnalysisFinding[],
+  mapper: SourceMapper
+): AnalysisFinding[] =>
+  findings.map((finding) => {
+    const locations = new Map<string, SourceLocation>();
+    for (const pc of findingProgramCounters(finding)) {
+      const location = mapper(pc);
+      const key = location && `${location.file}:${location.line}`;
+      if (location && key && !locations.has(key)) locations.set(key, location);
+      if (locations.size >= MAX_LOCATIONS) break;
+    }
+    return locations.size > 0 ? { ...finding, sourceLocations: [...locations.values()] } : finding;
+  });
+
+export default createSourceMapper;
@@ -0,0 +1,265 @@
+import { BasicBlock, Disassembly, Instruction } from "./disassembler";
+import { getOpcodeInfo, haltingOpcodes, isPushOpcode } from "./opcodes";
+
+/** The few value shapes the walker reasons about; anything else is null. */
+export type SymbolicValue =
+  | { op: "const"; value: bigint }
+  | { op: "caller" }
+  | { op: "sload"; slot: bigint; shift: number }
+  | { op: "eq"; left: SymbolicValue; right: SymbolicValue }
+  | { op: "iszero"; value: SymbolicValue }
+  | null;
+
+const MAX_STATES_PER_BLOCK = 32;
+const STACK_SIGNATURE_DEPTH = 16;
+const MAX_ISZERO_DEPTH = 4;
+
+export const ADDRESS_MASK = (1n << 160n) - 1n;
+const WORD_MASK = (1n << 256n) - 1n;
+
+// solc builds masks such as `(1 << 160) - 1` from small pushes, so constant
+// arithmetic is folded rather than dropped.
+const foldConstants = (name: string, a: bigint, b: bigint | null): bigint | null => {
+  switch (name) {
+    case "NOT":
+      return ~a & WORD_MASK;
+    case "ISZERO":
+      return a === 0n ? 1n : 0n;
+  }
+  if (b === null) return null;
+  switch (name) {
+    case "ADD":
+      return (a + b) & WORD_MASK;
+    case "SUB":
+      return (a - b) & WORD_MASK;
+    case "MUL":
+      return (a * b) & WORD_MASK;
+    case "EXP":
+      return b < 256n ? a ** b & WORD_MASK : null;
+    case "SHL":
+      return a < 256n ? (b << a) & WORD_MASK : 0n;
+    case "SHR":
+      return a < 256n ? b >> a : 0n;
+    case "AND":
+      return a & b;
+    case "OR":
+      return a | b;
+    case "XOR":
+      return a ^ b;
+    default:
+      return null;
+  }
+};
+
+export const serialize = (value: SymbolicValue): string => {
+  if (value === null) return "?";
+  switch (value.op) {
+    case "const":
+      return value.value.toString(16);
+    case "caller":
+      return "caller";
+    case "sload":
+      return `sload(${value.slot.toString(16)}>>${value.shift})`;
+    case "eq":
+      return `eq(${serialize(value.left)},${serialize(value.right)})`;
+    case "iszero":
+      return `iszero(${serialize(value.value)})`;
+  }
+};
+
+export const constant = (value: SymbolicValue): bigint | null =>
+  value?.op === "const" ? value.value : null;
+
+const isAddressSource = (value: SymbolicValue): boolean =>
+  value?.op === "caller" || value?.op === "sload";
+
+// solc masks addresses with AND 0xff..ff (20 bytes) and unpacks packed slots
+// with SHR or DIV by a power of 256; both keep the value recognizable.
+const evaluate = (name: string, args: SymbolicValue[]): SymbolicValue => {
+  const [a = null, b = null] = args;
+  const ca = constant(a);
+  const cb = constant(b);
+
+  const folded = ca !== null ? foldConstants(name, ca, cb) : null;
+  if (folded !== null) {
+    return { op: "const", value: folded };
+  }
+
+  switch (name) {
+    case "AND":
+      if (ca === ADDRESS_MASK && isAddressSource(b)) return b;
+      if (cb === ADDRESS_MASK && isAddressSource(a)) return a;
+      return null;
+    case "SHR":
+      if (ca !== null && b?.op === "sload" && ca % 8n === 0n) {
+        return { ...b, shift: b.shift + Number(ca) };
+      }
+      return null;
+    case "DIV":
+      if (a?.op === "sload" && cb !== null && cb > 0n) {
+        const bits = cb.toString(2).length - 1;
+        if (1n << BigInt(bits) === cb && bits % 8 === 0) {
+          return { ...a, shift: a.shift + bits };
+        }
+      }
+      return null;
+    case "EQ":
+      return a === null || b === null ? null : { op: "eq", left: a, right: b };
+    // The optimizer turns `a != b` into SUB or XOR, which are non-zero exactly
+    // when the operands differ.
+    case "SUB":
+    case "XOR":
+      return a?.op === "caller" || b?.op === "caller"
+        ? { op: "iszero", value: { op: "eq", left: a, right: b } }
+        : null;
+    case "ISZERO": {
+      let depth = 0;
+      for (let inner = a; inner?.op === "iszero"; inner = inner.value) depth += 1;
+      return a === null || depth >= MAX_ISZERO_DEPTH ? null : { op: "iszero", value: a };
+    }
+    case "SLOAD":
+      return ca !== null ? { op: "sload", slot: ca, shift: 0 } : null;
+    case "CALLER":
+      return { op: "caller" };
+    default:
+      return null;
+  }
+};
+
+const execute = (instruction: Instruction, stack: SymbolicValue[]): void => {
+  const info = getOpcodeInfo(instruction.opcode);
+  if (!info) return;
+
+  while (stack.length < info.pops) {
+    stack.unshift(null);
+  }
+
+  if (instruction.opcode === 0x5f) {
+    stack.push({ op: "const", value: 0n });
+  } else if (isPushOpcode(instruction.opcode)) {
+    stack.push({ op: "const", value: BigInt(`0x${instruction.pushData ?? "0"}`) });
+  } else if (info.name.startsWith("DUP")) {
+    stack.push(stack[stack.length - info.pops] ?? null);
+  } else if (info.name.startsWith("SWAP")) {
+    const top = stack.length - 1;
+    const other = stack.length - info.pops;
+    [stack[top], stack[other]] = [stack[other] ?? null, stack[top] ?? null];
+  } else {
+    const args = stack.splice(stack.length - info.pops, info.pops).reverse();
+    if (info.pushes > 0) {
+      stack.push(evaluate(info.name, args));
+    }
+  }
+};
+
+export interface PathVisitor<T> {
+  /** Sees every instruction with the stack as it was before the instruction ran. */
+  instruction?: (instruction: Instruction, stack: readonly SymbolicValue[], facts: T) => T;
+  /** Facts on the jumped (`taken`) or fall-through side of a JUMPI. */
+  branch?: (condition: SymbolicValue, taken: boolean, facts: T) => T;
+  /** Separates path facts when states are deduplicated per block. */
+  key: (facts: T) => string;
+}
+
+export interface PathWalk {
+  /**
+   * Blocks that were reached in more than MAX_STATES_PER_BLOCK states. The
+   * states past the cap were dropped, so whatever their paths led to may
+   * not have been visited on them.
+   */
+  truncated: number[];
+}
+
+interface PathState<T> {
+  start: number;
+  stack: SymbolicValue[];
+  facts: T;
+}
+
+/**
+ * Walks every statically resolvable path from `entry` with a symbolic stack,
+ * threading visitor-defined facts along each path. Paths end at halting
+ * opcodes and at jumps whose target is not a constant; each block is
+ * revisited at most MAX_STATES_PER_BLOCK times with distinct states, and
+ * blocks where further states were dropped are reported.
+ */
+export const walkPaths = <T>(
+  disassembly: Disassembly,
+  entry: number,
+  facts: T,
+  visitor: PathVisitor<T>
+): PathWalk => {
+  const visited = new Map<number, Set<string>>();
+  const truncated = new Set<number>();
+  const worklist: PathState<T>[] = disassembly.blockAt.has(entry)
+    ? [{ start: entry, stack: [], facts }]
+    : [];
+
+  while (worklist.length > 0) {
+    const state = worklist.pop() as PathState<T>;
+    const block = disassembly.blockAt.get(state.start) as BasicBlock | undefined;
+    if (!block) continue;
+
+    const seen = visited.get(state.start) ?? new Set<string>();
+    const signature = `${state.stack
+      .slice(-STACK_SIGNATURE_DEPTH)
+      .map(serialize)
+      .join(",")}|${visitor.key(state.facts)}`;
+    if (seen.has(signature)) continue;
+    if (seen.size >= MAX_STATES_PER_BLOCK) {
+      truncated.add(state.start);
+      continue;
+    }
+    seen.add(signature);
+    visited.set(state.start, seen);
+
+    const stack = state.stack.slice();
+    const last = block.instructions[block.instructions.length - 1] as Instruction;
+    const next = block.start + block.length;
+    const isJump = last.name === "JUMP" || last.name === "JUMPI";
+    let current = state.facts;
+
+    for (const instruction of block.instructions) {
+      current = visitor.instruction ? visitor.instruction(instruction, stack, current) : current;
+      if (isJump && instruction === last) break;
+      execute(instruction, stack);
+    }
+
+    if (isJump) {
+      const target = constant(stack.pop() ?? null);
+      const condition = last.name === "JUMPI" ? (stack.pop() ?? null) : null;
+      const targetBlock = target !== null ? disassembly.blockAt.get(Number(target)) : undefined;
+
+      if (targetBlock?.instructions[0]?.name === "JUMPDEST") {
+        worklist.push({
+          start: targetBlock.start,
+          stack: stack.slice(),
+          facts:
+            last.name === "JUMPI" && visitor.branch
+              ? visitor.branch(condition, true, current)
+              : current,
+        });
+      }
+      if (last.name === "JUMPI" && disassembly.blockAt.has(next)) {
+        worklist.push({
+          start: next,
+          stack,
+          facts: visitor.branch ? visitor.branch(condition, false, current) : current,
+        });
+      }
+      continue;
+    }
+
+    if (
+      !haltingOpcodes.has(last.opcode) &&
+      getOpcodeInfo(last.opcode) &&
+      disassembly.blockAt.has(next)
+    ) {
+      worklist.push({ start: next, stack, facts: current });
+    }
+  }
+
+  return { truncated: [...truncated].sort((a, b) => a - b) };
+};
+
+export default walkPaths;
@@ -0,0 +1,68 @@
+import { FunctionFragment } from "ethers";
+import { TokenStandard } from "../../types/analysis";
+
+const selectorsOf = (signatures: string[]): string[] =>
+  signatures.map((signature) => FunctionFragment.from(signature).selector);
+
+// Only functions every conforming implementation must expose; optional
+// extensions such as ERC-721 metadata are left out.
+const requiredSelectors: Record<TokenStandard, string[]> = {
+  erc20: selectorsOf([
+    "totalSupply()",
+    "balanceOf(address)",
+    "transfer(address,uint256)",
+    "transferFrom(address,address,uint256)",
+    "approve(address,uint256)",
+    "allowance(address,address)",
+  ]),
+  erc721: selectorsOf([
+    "balanceOf(address)",
+    "ownerOf(uint256)",
+    "safeTransferFrom(address,address,uint256)",
+    "safeTransferFrom(address,address,uint256,bytes)",
+    "transferFrom(address,address,uint256)",
+    "approve(address,uint256)",
+    "setApprovalForAll(address,bool)",
+    "getApproved(uint256)",
+    "isApprovedForAll(address,address)",
+  ]),
+  erc1155: selectorsOf([
+    "balanceOf(address,uint256)",
+    "balanceOfBatch(address[],uint256[])",
+    "setApprovalForAll(address,bool)",
+    "isApprovedForAll(address,address)",
+    "safeTransferFrom(address,address,uint256,uint256,bytes)",
+    "safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)",
+  ]),
+  erc4626: selectorsOf([
+    "asset()",
+    "totalAssets()",
+    "convertToShares(uint256)",
+    "convertToAssets(uint256)",
+    "deposit(uint256,address)",
+    "mint(uint256,address)",
+    "withdraw(uint256,address,address)",
+    "redeem(uint256,address,address)",
+  ]),
+};
+
+/**
+ * Classifies a contract by the selectors it dispatches. ERC-721 and ERC-20
+ * share `approve` and `transferFrom`, so ERC-20 additionally requires
+ * `allowance`, which ERC-721 lacks. ERC-4626 vaults are ERC-20 share tokens
+ * and are reported as both.
+ */
+export const classifyToken = (selectors: Iterable<string>): TokenStandard[] => {
+  const available = new Set([...selectors].map((selector) => selector.toLowerCase()));
+  const matches = (standard: TokenStandard) =>
+    requiredSelectors[standard].every((selector) => available.has(selector));
+
+  const standards: TokenStandard[] = [];
+  if (matches("erc20")) standards.push("erc20");
+  if (matches("erc721")) standards.push("erc721");
+  if (matches("erc1155")) standards.push("erc1155");
+  if (standards.includes("erc20") && matches("erc4626")) standards.push("erc4626");
+  return standards;
+};
+
+export default classifyToken;
@@ -0,0 +1,123 @@
+import { InterfaceAbi, ZeroAddress } from "ethers";
+import { Types } from "mongoose";
+import ArtifactScanModel, { ArtifactKind, ArtifactScanDocument } from "../models/artifactScan";
+import { AnalysisReport, HardFork } from "../types/analysis";
+import HttpError from "../utils/httpError";
+import { getNetworkConfig } from "../utils/provider";
+import config from "../config/env";
+import analyzeBytecode, { hashBytecode } from "./analysis/bytecodeAnalyzer";
+import { recoverSelectors } from "./analysis/functionExtractor";
+import splitInitCode from "./analysis/initCode";
+import { latestHardFork } from "./analysis/opcodes";
+import { getScoringProfile, listScoringProfiles } from "./analysis/scoring";
+import { loadDetectorRules } from "./ruleService";
+import { lookupSignatures } from "./signatureService";
+
+export interface ArtifactAnalysisRequest {
+  bytecode: string;
+  kind: ArtifactKind;
+  abi?: InterfaceAbi;
+  scoringProfile?: string;
+  /** Network whose active fork the code is checked against. */
+  network?: string;
+  /** Overrides the network's fork. */
+  hardFork?: HardFork;
+  /** Stores the report as an artifact scan. */
+  persist?: boolean;
+  name?: string;
+  labels?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface ArtifactAnalysisResult {
+  report: AnalysisReport;
+  artifact?: ArtifactScanDocument;
+}
+
+const stripHexPrefix = (bytecode: string): string =>
+  (bytecode.startsWith("0x") ? bytecode.slice(2) : bytecode).toLowerCase();
+
+/**
+ * Runs the scan pipeline's analysis on code that has not been deployed.
+ * Creation code is split into constructor and runtime first; the report
+ * covers the runtime code and carries the constructor on `initCode`. Nothing
+ * is read from the chain, so balance, proxy, token metadata and simulation
+ * checks don't apply, and the zero address stands in for the contract.
+ */
+export const analyzeArtifact = async ({
+  bytecode,
+  kind,
+  abi,
+  scoringProfile = config.scoringProfile,
+  network,
+  hardFork,
+  persist = false,
+  name,
+  labels = [],
+  metadata = {},
+}: ArtifactAnalysisRequest): Promise<ArtifactAnalysisResult> => {
+  if (!getScoringProfile(scoringProfile)) {
+    throw new HttpError(400, "Unknown scoring profile", {
+      scoringProfile,
+      supported: listScoringProfiles().map((entry) => entry.name),
+    });
+  }
+
+  const hex = stripHexPrefix(bytecode);
+  const split = kind === "creation" ? splitInitCode(hex) : null;
+  if (kind === "creation" && !split) {
+    throw new HttpError(422, "Could not locate the runtime code in the creation code", {
+      reason: "No constant CODECOPY of the returned runtime code was found in the constructor",
+    });
+  }
+  const runtimeCode = split?.runtimeCode ?? hex;
+
+  const analysisInput: Parameters<typeof analyzeBytecode>[0] = {
+    address: ZeroAddress,
+    bytecode: runtimeCode,
+    rules: await loadDetectorRules(),
+    scoringProfile,
+    hardFork: hardFork ?? (network ? getNetworkConfig(network).hardFork : latestHardFork),
+    ...(split ? { initCode: split.summary } : {}),
+  };
+  if (abi) {
+    analysisInput.abi = abi;
+  } else {
+    analysisInput.signatureCandidates = await lookupSignatures(recoverSelectors(runtimeCode));
+  }
+
+  const report = analyzeBytecode(analysisInput);
+  if (!persist) {
+    return { report };
+  }
+
+  const artifact = await ArtifactScanModel.create({
+    ...(name ? { name } : {}),
+    kind,
+    labels,
+    metadata,
+    artifactHash: hashBytecode(hex),
+    bytecodeHash: report.bytecodeHash,
+    riskScore: report.riskScore,
+    riskLevel: report.riskLevel,
+    scoringProfile,
+    scoreBreakdown: report.scoreBreakdown,
+    findings: report.findings,
+    opcodeSummary: report.opcodeSummary,
+    functions: report.functions,
+    ...(report.token ? { token: report.token } : {}),
+    ...(report.compiler ? { compiler: report.compiler } : {}),
+    ...(report.initCode ? { initCode: report.initCode } : {}),
+    hardFork: report.hardFork,
+    ...(abi ? { abi } : {}),
+  });
+  return { report, artifact };
+};
+
+export const getArtifactScan = async (artifactId: string): Promise<ArtifactScanDocument | null> =>
+  Types.ObjectId.isValid(artifactId) ? ArtifactScanModel.findById(artifactId).exec() : null;
+
+export default {
+  analyzeArtifact,
+  getArtifactScan,
+};
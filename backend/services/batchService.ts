@@ -0,0 +1,186 @@
+import { Types } from "mongoose";
+import ScanModel, { ScanStatus } from "../models/scan";
+import ScanBatchModel, {
+  BatchItemResult,
+  ScanBatchDocument,
+  ScanBatchItem,
+} from "../models/scanBatch";
+import { RiskLevel } from "../types/analysis";
+import HttpError, { isHttpError } from "../utils/httpError";
+import logger from "../utils/logger";
+import { CreateScanRequest, enqueueScanRequest } from "./scanService";
+
+export const MAX_BATCH_SIZE = 1000;
+
+/** A validated scan request, or the reason its entry was rejected. */
+export type BatchEntry =
+  | { request: CreateScanRequest }
+  | { address: string; network?: string; error: string; details?: unknown };
+
+export interface BatchItemProgress extends ScanBatchItem {
+  status?: ScanStatus;
+  riskScore?: number;
+  riskLevel?: RiskLevel;
+}
+
+export interface ScanBatchProgress {
+  id: string;
+  source: ScanBatchDocument["source"];
+  createdAt: Date;
+  total: number;
+  submission: Record<BatchItemResult, number>;
+  /** Counted per distinct scan; duplicate entries share one scan. */
+  scans: Record<ScanStatus, number>;
+  completed: boolean;
+  percentComplete: number;
+  riskSummary: Record<RiskLevel, number> & { averageRiskScore: number | null };
+  highestRisk: BatchItemProgress[];
+  items: BatchItemProgress[];
+}
+
+const submitEntry = async (index: number, entry: BatchEntry): Promise<ScanBatchItem> => {
+  if ("error" in entry) {
+    return {
+      index,
+      address: entry.address,
+      ...(entry.network ? { network: entry.network } : {}),
+      result: "invalid",
+      error: entry.error,
+      ...(entry.details !== undefined ? { details: entry.details } : {}),
+    };
+  }
+
+  const { address, network } = entry.request;
+  try {
+    const { scan, deduplicated } = await enqueueScanRequest(entry.request);
+    return {
+      index,
+      address,
+      ...(network ? { network } : {}),
+      result: deduplicated ? "deduplicated" : "enqueued",
+      scan: scan._id as Types.ObjectId,
+    };
+  } catch (error) {
+    // Bad addresses, unknown networks and scoring profiles surface as 4xx
+    // HttpErrors; anything else is an outage and fails the whole request.
+    if (!isHttpError(error) || error.statusCode >= 500) throw error;
+    return {
+      index,
+      address,
+      ...(network ? { network } : {}),
+      result: "invalid",
+      error: error.message,
+      ...(error.details !== undefined ? { details: error.details } : {}),
+    };
+  }
+};
+
+/**
+ * Submits every entry in order, reusing pending or running scans the same
+ * way single scan requests do, and records the outcome of each entry.
+ */
+export const createScanBatch = async (
+  source: ScanBatchDocument["source"],
+  entries: BatchEntry[]
+): Promise<ScanBatchDocument> => {
+  if (entries.length === 0) {
+    throw new HttpError(400, "Batch must contain at least one entry");
+  }
+  if (entries.length > MAX_BATCH_SIZE) {
+    throw new HttpError(400, "Batch is too large", {
+      entries: entries.length,
+      max: MAX_BATCH_SIZE,
+    });
+  }
+
+  const items: ScanBatchItem[] = [];
+  for (const [index, entry] of entries.entries()) {
+    items.push(await submitEntry(index, entry));
+  }
+
+  const batch = await ScanBatchModel.create({ source, items });
+  logger.info(
+    { batchId: batch._id, entries: items.length, source },
+    "Created scan batch"
+  );
+  return batch;
+};
+
+const emptyCounts = <K extends string>(keys: readonly K[]): Record<K, number> =>
+  Object.fromEntries(keys.map((key) => [key, 0])) as Record<K, number>;
+
+export const getScanBatchProgress = async (batchId: string): Promise<ScanBatchProgress> => {
+  if (!Types.ObjectId.isValid(batchId)) {
+    throw new HttpError(400, "Invalid batch ID", { batchId });
+  }
+  const batch = await ScanBatchModel.findById(batchId).exec();
+  if (!batch) {
+    throw new HttpError(404, "Batch not found", { batchId });
+  }
+
+  const scanIds = [
+    ...new Set(batch.items.flatMap((item) => (item.scan ? [item.scan.toString()] : []))),
+  ];
+  const scans = await ScanModel.find({ _id: { $in: scanIds } })
+    .select("status riskScore riskLevel")
+    .exec();
+  const scansById = new Map(scans.map((scan) => [String(scan._id), scan]));
+
+  const items: BatchItemProgress[] = batch.items.map((item) => {
+    const scan = item.scan ? scansById.get(item.scan.toString()) : undefined;
+    return {
+      index: item.index,
+      address: item.address,
+      ...(item.network ? { network: item.network } : {}),
+      result: item.result,
+      ...(item.scan ? { scan: item.scan } : {}),
+      ...(item.error ? { error: item.error } : {}),
+      ...(item.details !== undefined ? { details: item.details } : {}),
+      ...(scan ? { status: scan.status } : {}),
+      ...(scan?.riskScore !== undefined ? { riskScore: scan.riskScore } : {}),
+      ...(scan?.riskLevel ? { riskLevel: scan.riskLevel } : {}),
+    };
+  });
+
+  const submission = emptyCounts<BatchItemResult>(["enqueued", "deduplicated", "invalid"]);
+  for (const item of items) submission[item.result] += 1;
+
+  const scanCounts = emptyCounts<ScanStatus>(["pending", "running", "succeeded", "failed"]);
+  const riskCounts = emptyCounts<RiskLevel>(["low", "medium", "high", "critical"]);
+  let scoreTotal = 0;
+  let scored = 0;
+  for (const scan of scans) {
+    scanCounts[scan.status] += 1;
+    if (scan.status !== "succeeded") continue;
+    if (scan.riskLevel) riskCounts[scan.riskLevel] += 1;
+    if (scan.riskScore !== undefined) {
+      scoreTotal += scan.riskScore;
+      scored += 1;
+    }
+  }
+
+  const finished = scanCounts.succeeded + scanCounts.failed;
+  const highestRisk = items
+    .filter((item) => item.status === "succeeded" && item.riskScore !== undefined)
+    .sort((a, b) => (b.riskScore ?? 0) - (a.riskScore ?? 0))
+    .slice(0, 10);
+
+  return {
+    id: String(batch._id),
+    source: batch.source,
+    createdAt: batch.createdAt,
+    total: items.length,
+    submission,
+    scans: scanCounts,
+    completed: finished === scans.length,
+    percentComplete: scans.length > 0 ? Math.round((finished / scans.length) * 100) : 100,
+    riskSummary: { ...riskCounts, averageRiskScore: scored > 0 ? scoreTotal / scored : null },
+    highestRisk,
+    items,
+  };
+};
+
+export default {
+  createScanBatch,
+  getScanBatchProgress,
+};
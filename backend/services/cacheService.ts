@@ -3,19 +3,29 @@ import config from "../config/env";
 
 const redis = getRedisClient();
 
-const codeKey = (address: string) => `contract:${address}:bytecode`;
+// Code at a pinned block is keyed separately so it never shadows current code.
+const codeKey = (network: string, address: string, blockNumber?: number) =>
+  blockNumber === undefined
+    ? `contract:${network}:${address}:bytecode`
+    : `contract:${network}:${address}:bytecode:${blockNumber}`;
 const scanKey = (scanId: string) => `scan:${scanId}:report`;
 
-export const getCachedBytecode = async (address: string): Promise<string | null> => {
-  return redis.get(codeKey(address));
+export const getCachedBytecode = async (
+  network: string,
+  address: string,
+  blockNumber?: number
+): Promise<string | null> => {
+  return redis.get(codeKey(network, address, blockNumber));
 };
 
 export const setCachedBytecode = async (
+  network: string,
   address: string,
-  bytecode: string
+  bytecode: string,
+  blockNumber?: number
 ): Promise<void> => {
   if (!bytecode) return;
-  await redis.set(codeKey(address), bytecode, "EX", config.cacheTtlSeconds);
+  await redis.set(codeKey(network, address, blockNumber), bytecode, "EX", config.cacheTtlSeconds);
 };
 
 export const cacheScanReport = async (
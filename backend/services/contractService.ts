@@ -1,8 +1,10 @@
 import { Types } from "mongoose";
 import { getAddress } from "ethers";
+import config from "../config/env";
 import ContractModel, { ContractDocument } from "../models/contract";
-import { RiskLevel } from "../types/analysis";
+import { ProxyInfo, RiskLevel, TokenInfo, TokenStandard } from "../types/analysis";
 import HttpError from "../utils/httpError";
+import { getNetworkConfig } from "../utils/provider";
 
 export const normalizeAddress = (address: string): string => {
   if (!address) {
@@ -32,13 +34,14 @@ export const ensureContract = async ({
   metadata = {},
 }: EnsureContractInput): Promise<ContractDocument> => {
   const normalizedAddress = normalizeAddress(address);
+  const networkName = getNetworkConfig(network).name;
 
   const updatePayload: Record<string, unknown> & {
     [key: string]: unknown;
   } = {
     $setOnInsert: {
       address: normalizedAddress,
-      network,
+      network: networkName,
     },
   };
 
@@ -54,7 +57,7 @@ export const ensureContract = async ({
   }
 
   const contract = await ContractModel.findOneAndUpdate(
-    { address: normalizedAddress, network },
+    { address: normalizedAddress, network: networkName },
     updatePayload,
     { new: true, upsert: true }
   ).exec();
@@ -67,23 +70,26 @@ export const getContractByAddress = async (
   network?: string
 ): Promise<ContractDocument | null> => {
   const normalizedAddress = normalizeAddress(address);
-  const networkName = network ?? "mainnet";
+  const networkName = getNetworkConfig(network ?? "mainnet").name;
   return ContractModel.findOne({
     address: normalizedAddress,
     network: networkName,
   })
     .populate("latestScan")
+    .populate("implementation", "address network riskScore riskLevel latestScan")
     .exec();
 };
 
 export const listContracts = async ({
   riskLevel,
   network,
+  tokenStandard,
   limit = 20,
   skip = 0,
 }: {
   riskLevel?: RiskLevel;
   network?: string;
+  tokenStandard?: TokenStandard;
   limit?: number;
   skip?: number;
 }): Promise<ContractDocument[]> => {
@@ -92,7 +98,10 @@ export const listContracts = async ({
     query.riskLevel = riskLevel;
   }
   if (network) {
-    query.network = network;
+    query.network = getNetworkConfig(network).name;
+  }
+  if (tokenStandard) {
+    query["token.standards"] = tokenStandard;
   }
 
   return ContractModel.find(query)
@@ -103,6 +112,9 @@ export const listContracts = async ({
     .exec();
 };
 
+export const nextScanDate = (riskLevel: RiskLevel, from = new Date()): Date =>
+  new Date(from.getTime() + config.rescanIntervalSeconds[riskLevel] * 1000);
+
 export const updateContractRisk = async (
   contractId: Types.ObjectId,
   {
@@ -110,24 +122,82 @@ export const updateContractRisk = async (
     riskLevel,
     latestScan,
   }: { riskScore: number; riskLevel: RiskLevel; latestScan: Types.ObjectId }
-): Promise<void> => {
-  await ContractModel.findByIdAndUpdate(
+): Promise<ContractDocument | null> => {
+  // Returns the contract as it was before the update so callers can compare
+  // against the previous risk level.
+  return ContractModel.findByIdAndUpdate(
     contractId,
     {
       $set: {
         riskScore,
         riskLevel,
         latestScan,
+        nextScanAt: nextScanDate(riskLevel),
         updatedAt: new Date(),
       },
     },
-    { new: true }
+    { new: false }
   ).exec();
 };
 
+export const updateContractProxy = async (
+  contractId: Types.ObjectId,
+  proxy: ProxyInfo | null,
+  implementation?: Types.ObjectId
+): Promise<void> => {
+  const update = proxy
+    ? {
+        $set: {
+          proxy: { ...proxy, detectedAt: new Date() },
+          ...(implementation ? { implementation } : {}),
+        },
+      }
+    : { $unset: { proxy: "", implementation: "" } };
+
+  await ContractModel.findByIdAndUpdate(contractId, update).exec();
+};
+
+export const updateContractToken = async (
+  contractId: Types.ObjectId,
+  token: TokenInfo | null
+): Promise<void> => {
+  const update = token
+    ? { $set: { token: { ...token, detectedAt: new Date() } } }
+    : { $unset: { token: "" } };
+
+  await ContractModel.findByIdAndUpdate(contractId, update).exec();
+};
+
+export const updateContractDelegation = async (
+  contractId: Types.ObjectId,
+  target: string | null,
+  delegate?: Types.ObjectId
+): Promise<void> => {
+  const update = target
+    ? {
+        $set: {
+          delegation: { target, ...(delegate ? { contract: delegate } : {}), detectedAt: new Date() },
+        },
+      }
+    : { $unset: { delegation: "" } };
+
+  await ContractModel.findByIdAndUpdate(contractId, update).exec();
+};
+
+export const flagContractCodeChange = async (
+  contractId: Types.ObjectId,
+  codeChange: ContractDocument["codeChange"]
+): Promise<void> => {
+  await ContractModel.findByIdAndUpdate(contractId, { $set: { codeChange } }).exec();
+};
+
 export default {
   ensureContract,
   getContractByAddress,
   listContracts,
   updateContractRisk,
+  updateContractProxy,
+  updateContractToken,
+  updateContractDelegation,
+  flagContractCodeChange,
 };
@@ -0,0 +1,162 @@
+import { Types } from "mongoose";
+import config from "../config/env";
+import DeadLetterModel, { DeadLetterDocument, DeadLetterReason } from "../models/deadLetter";
+import ScanModel from "../models/scan";
+import { getKafkaProducer } from "../queue/kafka";
+import { ScanJobPayload } from "../types/analysis";
+import HttpError from "../utils/httpError";
+import logger from "../utils/logger";
+import { publishScanEvent } from "./scanEventService";
+
+export interface DeadLetterInput {
+  topic: string;
+  partition: number;
+  offset: string;
+  key?: string;
+  value: string;
+  payload?: ScanJobPayload;
+  reason: DeadLetterReason;
+  error: unknown;
+  attempts: number;
+}
+
+/**
+ * Parks a job that can't be processed: forwards the original message to the
+ * dead-letter topic for other consumers and records it for the admin API.
+ */
+export const deadLetterScanJob = async (input: DeadLetterInput): Promise<DeadLetterDocument> => {
+  const error = input.error instanceof Error ? input.error.message : String(input.error);
+
+  try {
+    const producer = await getKafkaProducer();
+    await producer.send({
+      topic: config.kafka.deadLetterTopic,
+      messages: [
+        {
+          ...(input.key ? { key: input.key } : {}),
+          value: input.value,
+          headers: {
+            "x-dead-letter-reason": input.reason,
+            "x-dead-letter-error": error,
+            "x-original-topic": input.topic,
+            "x-original-partition": String(input.partition),
+            "x-original-offset": input.offset,
+          },
+        },
+      ],
+    });
+  } catch (sendError) {
+    logger.error(
+      { error: sendError, offset: input.offset },
+      "Failed to forward scan job to the dead-letter topic"
+    );
+  }
+
+  const deadLetter = await DeadLetterModel.create({
+    topic: input.topic,
+    partition: input.partition,
+    offset: input.offset,
+    value: input.value,
+    reason: input.reason,
+    error,
+    attempts: input.attempts,
+    ...(input.key ? { key: input.key } : {}),
+    ...(input.payload ? { payload: input.payload } : {}),
+    ...(input.payload ? { scan: new Types.ObjectId(input.payload.scanId) } : {}),
+  });
+
+  logger.warn(
+    { deadLetterId: deadLetter._id, reason: input.reason, error, offset: input.offset },
+    "Dead-lettered scan job"
+  );
+  return deadLetter;
+};
+
+export const listDeadLetters = async ({
+  reason,
+  replayed,
+  limit = 20,
+  skip = 0,
+}: {
+  reason?: DeadLetterReason;
+  replayed?: boolean;
+  limit?: number;
+  skip?: number;
+}): Promise<DeadLetterDocument[]> => {
+  const query: Record<string, unknown> = {};
+  if (reason) {
+    query.reason = reason;
+  }
+  if (replayed !== undefined) {
+    query.replayedAt = { $exists: replayed };
+  }
+
+  return DeadLetterModel.find(query)
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(Math.min(limit, 100))
+    .exec();
+};
+
+/**
+ * Resets the dead-lettered scan to pending with a fresh attempt budget and
+ * puts its job back on the scan topic.
+ */
+export const replayDeadLetter = async (deadLetterId: string): Promise<DeadLetterDocument> => {
+  if (!Types.ObjectId.isValid(deadLetterId)) {
+    throw new HttpError(400, "Invalid dead letter ID", { deadLetterId });
+  }
+  const deadLetter = await DeadLetterModel.findById(deadLetterId).exec();
+  if (!deadLetter) {
+    throw new HttpError(404, "Dead letter not found", { deadLetterId });
+  }
+
+  const payload = deadLetter.payload as ScanJobPayload | undefined;
+  if (!payload) {
+    throw new HttpError(409, "Dead letter has no valid scan job to replay", {
+      deadLetterId,
+      reason: deadLetter.reason,
+    });
+  }
+
+  const scan = await ScanModel.findOneAndUpdate(
+    { _id: payload.scanId, status: { $ne: "succeeded" } },
+    {
+      $set: { status: "pending", attempts: 0, updatedAt: new Date() },
+      $unset: { error: 1, lastError: 1 },
+    },
+    { new: true }
+  ).exec();
+  if (!scan) {
+    throw new HttpError(409, "Scan already succeeded or no longer exists", {
+      deadLetterId,
+      scanId: payload.scanId,
+    });
+  }
+
+  const producer = await getKafkaProducer();
+  await producer.send({
+    topic: config.kafka.topic,
+    messages: [{ key: payload.contractId, value: JSON.stringify(payload) }],
+  });
+  await publishScanEvent({
+    scanId: payload.scanId,
+    contractId: payload.contractId,
+    address: payload.address,
+    network: payload.network ?? "mainnet",
+    status: "pending",
+  });
+
+  deadLetter.replayedAt = new Date();
+  deadLetter.replayCount += 1;
+  await deadLetter.save();
+
+  logger.info({ deadLetterId, scanId: payload.scanId }, "Replayed dead-lettered scan job");
+  return deadLetter;
+};
+
+export default {
+  deadLetterScanJob,
+  listDeadLetters,
+  replayDeadLetter,
+};
@@ -0,0 +1,96 @@
+import { Types } from "mongoose";
+import ContractModel, { ContractDocument } from "../models/contract";
+import ProxyEventModel, { ProxyEventDocument, ProxyEventType } from "../models/proxyEvent";
+import { ProxyInfo } from "../types/analysis";
+import getProvider from "../utils/provider";
+import logger from "../utils/logger";
+import { updateContractProxy } from "./contractService";
+import { readProxyStorage } from "./proxyService";
+import { createScanRequest } from "./scanService";
+
+const trackedFields: { field: keyof ProxyInfo; type: ProxyEventType }[] = [
+  { field: "implementation", type: "upgraded" },
+  { field: "admin", type: "admin-changed" },
+  { field: "beacon", type: "beacon-changed" },
+];
+
+export const checkProxyContract = async (
+  contract: ContractDocument
+): Promise<ProxyEventDocument[]> => {
+  const previous = contract.proxy;
+  if (!previous || previous.standard === "eip-1167") {
+    return [];
+  }
+
+  const provider = getProvider(contract.network);
+  const blockNumber = await provider.getBlockNumber();
+  const current = await readProxyStorage(provider, contract.address, blockNumber);
+  if (!current) {
+    logger.warn({ address: contract.address }, "Tracked proxy no longer exposes proxy slots");
+    return [];
+  }
+
+  const changes = trackedFields.filter(({ field }) => previous[field] !== current[field]);
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const contractId = contract._id as Types.ObjectId;
+  const upgraded = previous.implementation !== current.implementation;
+  const rescan = upgraded
+    ? await createScanRequest({
+        address: current.implementation,
+        network: contract.network,
+        labels: ["proxy-implementation"],
+        trigger: "proxy-upgrade",
+      })
+    : null;
+
+  await updateContractProxy(contractId, current, rescan?.contract);
+
+  const events = await ProxyEventModel.insertMany(
+    changes.map(({ field, type }) => ({
+      contract: contractId,
+      type,
+      ...(previous[field] ? { previous: previous[field] } : {}),
+      ...(current[field] ? { current: current[field] } : {}),
+      blockNumber,
+      ...(type === "upgraded" && rescan ? { scan: rescan._id as Types.ObjectId } : {}),
+    }))
+  );
+
+  logger.info(
+    { address: contract.address, changes: changes.map(({ type }) => type), blockNumber },
+    "Proxy change detected"
+  );
+
+  return events;
+};
+
+export const pollProxies = async (): Promise<number> => {
+  let changed = 0;
+  const cursor = ContractModel.find({ proxy: { $exists: true } }).cursor();
+
+  for await (const contract of cursor) {
+    try {
+      const events = await checkProxyContract(contract);
+      changed += events.length > 0 ? 1 : 0;
+    } catch (error) {
+      logger.error({ error, address: contract.address }, "Proxy check failed");
+    }
+  }
+
+  return changed;
+};
+
+export const listProxyEvents = async (
+  contractId: Types.ObjectId
+): Promise<ProxyEventDocument[]> => {
+  return ProxyEventModel.find({ contract: contractId }).sort({ createdAt: -1 }).exec();
+};
+
+export default {
+  checkProxyContract,
+  pollProxies,
+  listProxyEvents,
+};
@@ -0,0 +1,131 @@
+import { AbstractProvider, dataSlice, getAddress, isError, ZeroAddress } from "ethers";
+import { ProxyInfo } from "../types/analysis";
+
+export const EIP1967_IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+export const EIP1967_ADMIN_SLOT =
+  "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+export const EIP1967_BEACON_SLOT =
+  "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50";
+export const EIP1822_PROXIABLE_SLOT =
+  "0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7";
+
+const proxySlots = [
+  EIP1967_IMPLEMENTATION_SLOT,
+  EIP1967_ADMIN_SLOT,
+  EIP1967_BEACON_SLOT,
+  EIP1822_PROXIABLE_SLOT,
+];
+
+const BEACON_IMPLEMENTATION_SELECTOR = "0x5c60da1b";
+
+// EIP-1167 runtime code, plus the PUSH0 variant from EIP-7511
+const minimalProxyPatterns = [
+  /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/,
+  /^0x365f5f375f5f365f73([0-9a-f]{40})5af43d5f5f3e5f3d91602a57fd5bf3$/,
+];
+
+export const matchMinimalProxy = (bytecode: string): string | null => {
+  const code = bytecode.toLowerCase();
+  for (const pattern of minimalProxyPatterns) {
+    const match = pattern.exec(code);
+    if (match?.[1]) {
+      return getAddress(`0x${match[1]}`).toLowerCase();
+    }
+  }
+  return null;
+};
+
+const slotAddress = (word: string): string | null => {
+  const address = dataSlice(word, 12).toLowerCase();
+  return address === ZeroAddress ? null : address;
+};
+
+/**
+ * Asks a beacon for its implementation. A beacon slot pointing at code that
+ * reverts or isn't a beacon yields null; RPC failures still throw so the
+ * scan is retried.
+ */
+const readBeaconImplementation = async (
+  provider: AbstractProvider,
+  beacon: string,
+  blockTag?: number
+): Promise<string | null> => {
+  try {
+    const result = await provider.call({
+      to: beacon,
+      data: BEACON_IMPLEMENTATION_SELECTOR,
+      ...(blockTag !== undefined ? { blockTag } : {}),
+    });
+    return result.length >= 66 ? slotAddress(dataSlice(result, 0, 32)) : null;
+  } catch (error) {
+    if (isError(error, "CALL_EXCEPTION")) return null;
+    throw error;
+  }
+};
+
+/**
+ * Reads the EIP-1967, beacon and EIP-1822 (UUPS) storage slots of `address`
+ * and resolves the implementation they point to.
+ */
+export const readProxyStorage = async (
+  provider: AbstractProvider,
+  address: string,
+  blockTag?: number
+): Promise<ProxyInfo | null> => {
+  const [implementationWord, adminWord, beaconWord, proxiableWord] = await Promise.all(
+    proxySlots.map((slot) => provider.getStorage(address, slot, blockTag))
+  );
+
+  const admin = slotAddress(adminWord as string);
+  const adminInfo = admin ? { admin } : {};
+
+  const implementation = slotAddress(implementationWord as string);
+  if (implementation) {
+    return { standard: "eip-1967", implementation, ...adminInfo };
+  }
+
+  const beacon = slotAddress(beaconWord as string);
+  if (beacon) {
+    const beaconImplementation = await readBeaconImplementation(provider, beacon, blockTag);
+    if (beaconImplementation) {
+      return {
+        standard: "eip-1967-beacon",
+        implementation: beaconImplementation,
+        beacon,
+        ...adminInfo,
+      };
+    }
+  }
+
+  const proxiable = slotAddress(proxiableWord as string);
+  if (proxiable) {
+    return { standard: "eip-1822", implementation: proxiable };
+  }
+
+  return null;
+};
+
+/**
+ * Recognizes EIP-1167 clones from their code and storage-slot based proxies
+ * through `readProxyStorage`.
+ */
+export const detectProxy = async (
+  provider: AbstractProvider,
+  address: string,
+  bytecode: string,
+  blockTag?: number
+): Promise<ProxyInfo | null> => {
+  if (!bytecode || bytecode === "0x") {
+    return null;
+  }
+
+  const clonedImplementation = matchMinimalProxy(bytecode);
+  if (clonedImplementation) {
+    return { standard: "eip-1167", implementation: clonedImplementation };
+  }
+
+  return readProxyStorage(provider, address, blockTag);
+};
+
+export default detectProxy;
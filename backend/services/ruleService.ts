@@ -0,0 +1,118 @@
+import DetectorRuleModel, { DetectorRuleDocument } from "../models/detectorRule";
+import { Detector, detectors, getDetector } from "./analysis/detectors";
+import { DetectorRule, RiskLevel } from "../types/analysis";
+import HttpError from "../utils/httpError";
+
+export interface RuleView {
+  detectorId: string;
+  title: string;
+  version: string;
+  defaultSeverity: RiskLevel;
+  enabled: boolean;
+  severity?: RiskLevel;
+  updatedAt?: Date;
+}
+
+export interface RuleInput {
+  enabled?: boolean;
+  /** Null clears a previous override. */
+  severity?: RiskLevel | null;
+}
+
+const requireDetector = (detectorId: string): Detector => {
+  const detector = getDetector(detectorId);
+  if (!detector) {
+    throw new HttpError(404, "Detector not found", { detectorId });
+  }
+  return detector;
+};
+
+const toView = (detector: Detector, rule?: DetectorRuleDocument | null): RuleView => ({
+  detectorId: detector.id,
+  title: detector.title,
+  version: detector.version,
+  defaultSeverity: detector.defaultSeverity,
+  enabled: rule?.enabled ?? true,
+  ...(rule?.severity ? { severity: rule.severity } : {}),
+  ...(rule ? { updatedAt: rule.updatedAt } : {}),
+});
+
+const toUpdate = (input: RuleInput) => {
+  const update: Record<string, unknown> = {};
+  if (input.enabled !== undefined) {
+    update.$set = { enabled: input.enabled };
+  }
+  if (input.severity === null) {
+    update.$unset = { severity: 1 };
+  } else if (input.severity) {
+    update.$set = { ...(update.$set as Record<string, unknown>), severity: input.severity };
+  }
+  return update;
+};
+
+export const listRules = async (): Promise<RuleView[]> => {
+  const rules = await DetectorRuleModel.find().exec();
+  const byDetector = new Map(rules.map((rule) => [rule.detectorId, rule]));
+  return detectors.map((detector) => toView(detector, byDetector.get(detector.id)));
+};
+
+export const getRule = async (detectorId: string): Promise<RuleView> => {
+  const detector = requireDetector(detectorId);
+  const rule = await DetectorRuleModel.findOne({ detectorId }).exec();
+  return toView(detector, rule);
+};
+
+export const createRule = async (detectorId: string, input: RuleInput): Promise<RuleView> => {
+  const detector = requireDetector(detectorId);
+  const existing = await DetectorRuleModel.exists({ detectorId }).exec();
+  if (existing) {
+    throw new HttpError(409, "Rule already configured for detector", { detectorId });
+  }
+
+  const rule = await DetectorRuleModel.create({
+    detectorId,
+    ...(input.enabled !== undefined ? { enabled: input.enabled } : {}),
+    ...(input.severity ? { severity: input.severity } : {}),
+  });
+  return toView(detector, rule);
+};
+
+export const updateRule = async (detectorId: string, input: RuleInput): Promise<RuleView> => {
+  const detector = requireDetector(detectorId);
+  const rule = await DetectorRuleModel.findOneAndUpdate(
+    { detectorId },
+    { ...toUpdate(input), $setOnInsert: { detectorId } },
+    { new: true, upsert: true }
+  ).exec();
+  return toView(detector, rule);
+};
+
+/** Drops the stored rule so the detector falls back to its defaults. */
+export const deleteRule = async (detectorId: string): Promise<RuleView> => {
+  const detector = requireDetector(detectorId);
+  const deleted = await DetectorRuleModel.findOneAndDelete({ detectorId }).exec();
+  if (!deleted) {
+    throw new HttpError(404, "No rule configured for detector", { detectorId });
+  }
+  return toView(detector);
+};
+
+export const loadDetectorRules = async (): Promise<Record<string, DetectorRule>> => {
+  const rules = await DetectorRuleModel.find().lean().exec();
+  return rules.reduce<Record<string, DetectorRule>>((acc, rule) => {
+    acc[rule.detectorId] = {
+      enabled: rule.enabled,
+      ...(rule.severity ? { severity: rule.severity } : {}),
+    };
+    return acc;
+  }, {});
+};
+
+export default {
+  listRules,
+  getRule,
+  createRule,
+  updateRule,
+  deleteRule,
+  loadDetectorRules,
+};
@@ -0,0 +1,159 @@
+import { Types } from "mongoose";
+import ScanModel, { ScanDocument } from "../models/scan";
+import { AnalysisFinding, RiskLevel } from "../types/analysis";
+import HttpError from "../utils/httpError";
+import { listScansForContract } from "./scanService";
+
+interface ScanDiffSide {
+  id: string;
+  createdAt: Date;
+  riskScore?: number;
+  riskLevel?: RiskLevel;
+  bytecodeHash?: string;
+  blockNumber?: number;
+}
+
+export interface ScanDiff {
+  from: ScanDiffSide;
+  to: ScanDiffSide;
+  bytecodeChanged: boolean;
+  riskScoreDelta: number;
+  riskLevelChanged: boolean;
+  findings: {
+    added: AnalysisFinding[];
+    removed: AnalysisFinding[];
+    severityChanged: { id: string; title: string; from: RiskLevel; to: RiskLevel }[];
+  };
+  opcodeHitsDelta: Record<string, number>;
+}
+
+const describeSide = (scan: ScanDocument): ScanDiffSide => ({
+  id: (scan._id as Types.ObjectId).toString(),
+  createdAt: scan.createdAt,
+  ...(scan.riskScore !== undefined ? { riskScore: scan.riskScore } : {}),
+  ...(scan.riskLevel ? { riskLevel: scan.riskLevel } : {}),
+  ...(scan.bytecodeHash ? { bytecodeHash: scan.bytecodeHash } : {}),
+  ...(scan.blockNumber !== undefined ? { blockNumber: scan.blockNumber } : {}),
+});
+
+// Repeated finding ids are keyed by occurrence so each one is compared with
+// its counterpart instead of collapsing into a single entry.
+const indexFindings = (findings: AnalysisFinding[]): Map<string, AnalysisFinding> => {
+  const seen = new Map<string, number>();
+  const index = new Map<string, AnalysisFinding>();
+  for (const finding of findings) {
+    const occurrence = (seen.get(finding.id) ?? 0) + 1;
+    seen.set(finding.id, occurrence);
+    index.set(occurrence > 1 ? `${finding.id}#${occurrence}` : finding.id, finding);
+  }
+  return index;
+};
+
+const opcodeHits = (scan: ScanDocument): Record<string, number> => {
+  const hits = scan.opcodeSummary?.dangerousOpcodeHits as
+    | Map<string, number>
+    | Record<string, number>
+    | undefined;
+  if (!hits) return {};
+  return hits instanceof Map ? Object.fromEntries(hits) : { ...hits };
+};
+
+export const compareScans = (from: ScanDocument, to: ScanDocument): ScanDiff => {
+  for (const scan of [from, to]) {
+    if (scan.status !== "succeeded") {
+      throw new HttpError(409, "Only succeeded scans can be compared", {
+        scanId: scan._id,
+        status: scan.status,
+      });
+    }
+  }
+
+  const before = indexFindings(from.findings);
+  const after = indexFindings(to.findings);
+
+  const added = [...after].filter(([key]) => !before.has(key)).map(([, finding]) => finding);
+  const removed = [...before].filter(([key]) => !after.has(key)).map(([, finding]) => finding);
+  const severityChanged = [...after].flatMap(([key, finding]) => {
+    const previous = before.get(key);
+    return previous && previous.severity !== finding.severity
+      ? [{ id: finding.id, title: finding.title, from: previous.severity, to: finding.severity }]
+      : [];
+  });
+
+  const fromHits = opcodeHits(from);
+  const toHits = opcodeHits(to);
+  const opcodeHitsDelta: Record<string, number> = {};
+  for (const opcode of new Set([...Object.keys(fromHits), ...Object.keys(toHits)])) {
+    const delta = (toHits[opcode] ?? 0) - (fromHits[opcode] ?? 0);
+    if (delta !== 0) {
+      opcodeHitsDelta[opcode] = delta;
+    }
+  }
+
+  return {
+    from: describeSide(from),
+    to: describeSide(to),
+    bytecodeChanged: from.bytecodeHash !== to.bytecodeHash,
+    riskScoreDelta: (to.riskScore ?? 0) - (from.riskScore ?? 0),
+    riskLevelChanged: from.riskLevel !== to.riskLevel,
+    findings: { added, removed, severityChanged },
+    opcodeHitsDelta,
+  };
+};
+
+const findScan = async (scanId: string): Promise<ScanDocument> => {
+  if (!Types.ObjectId.isValid(scanId)) {
+    throw new HttpError(400, "Invalid scan ID", { scanId });
+  }
+  const scan = await ScanModel.findById(scanId).exec();
+  if (!scan) {
+    throw new HttpError(404, "Scan not found", { scanId });
+  }
+  return scan;
+};
+
+export const diffScans = async (fromScanId: string, toScanId: string): Promise<ScanDiff> => {
+  const [from, to] = await Promise.all([findScan(fromScanId), findScan(toScanId)]);
+  if (!from.contract.equals(to.contract)) {
+    throw new HttpError(400, "Scans belong to different contracts");
+  }
+  return compareScans(from, to);
+};
+
+/**
+ * Diffs two succeeded scans of a contract. `to` defaults to the latest
+ * succeeded scan and `from` to the one preceding `to`.
+ */
+export const diffContractScans = async (
+  address: string,
+  { network, from, to }: { network?: string; from?: string; to?: string }
+): Promise<ScanDiff> => {
+  const scans = (await listScansForContract(address, network)).filter(
+    (scan) => scan.status === "succeeded"
+  );
+
+  const findInHistory = (scanId: string) => {
+    const scan = scans.find((entry) => (entry._id as Types.ObjectId).toString() === scanId);
+    if (!scan) {
+      throw new HttpError(404, "Succeeded scan not found for contract", { scanId });
+    }
+    return scan;
+  };
+
+  const toScan = to ? findInHistory(to) : scans[0];
+  const fromScan = from
+    ? findInHistory(from)
+    : toScan && scans.find((scan) => scan.createdAt < toScan.createdAt);
+
+  if (!toScan || !fromScan) {
+    throw new HttpError(404, "At least two succeeded scans are required to compute a diff");
+  }
+
+  return compareScans(fromScan, toScan);
+};
+
+export default {
+  compareScans,
+  diffScans,
+  diffContractScans,
+};
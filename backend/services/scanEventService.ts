@@ -0,0 +1,106 @@
+import { EventEmitter } from "node:events";
+import { Types } from "mongoose";
+import getRedisClient, { getRedisSubscriber } from "../cache/redisClient";
+import { ContractDocument } from "../models/contract";
+import ScanModel, { ScanStatus } from "../models/scan";
+import { RiskLevel } from "../types/analysis";
+import logger from "../utils/logger";
+
+const CHANNEL = "scan-events";
+
+export interface ScanEvent {
+  scanId: string;
+  contractId: string;
+  address: string;
+  network: string;
+  status: ScanStatus;
+  riskLevel?: RiskLevel;
+  riskScore?: number;
+  error?: string;
+  at: string;
+}
+
+export type ScanEventListener = (event: ScanEvent) => void;
+
+export const isTerminalStatus = (status: ScanStatus): boolean =>
+  status === "succeeded" || status === "failed";
+
+/**
+ * Status changes are published by whichever process makes them (usually the
+ * worker) and relayed by every API replica to its own SSE/WebSocket clients.
+ * Publishing is best effort: a Redis outage must never fail a scan.
+ */
+export const publishScanEvent = async (event: Omit<ScanEvent, "at">): Promise<void> => {
+  try {
+    await getRedisClient().publish(
+      CHANNEL,
+      JSON.stringify({ ...event, at: new Date().toISOString() })
+    );
+  } catch (error) {
+    logger.warn({ error, scanId: event.scanId }, "Failed to publish scan event");
+  }
+};
+
+const emitter = new EventEmitter();
+// One listener per connected client.
+emitter.setMaxListeners(0);
+let subscribed = false;
+
+const ensureSubscribed = (): void => {
+  if (subscribed) return;
+  subscribed = true;
+
+  const subscriber = getRedisSubscriber();
+  subscriber.on("message", (channel: string, message: string) => {
+    if (channel !== CHANNEL) return;
+    try {
+      emitter.emit("event", JSON.parse(message) as ScanEvent);
+    } catch (error) {
+      logger.warn({ error }, "Dropped malformed scan event");
+    }
+  });
+  subscriber
+    .subscribe(CHANNEL)
+    .then(() => logger.info({ channel: CHANNEL }, "Subscribed to scan events"))
+    .catch((error) => {
+      subscribed = false;
+      logger.error({ error }, "Failed to subscribe to scan events");
+    });
+};
+
+/** Registers a listener for scan events from every process; returns its unsubscribe. */
+export const subscribeToScanEvents = (listener: ScanEventListener): (() => void) => {
+  ensureSubscribed();
+  emitter.on("event", listener);
+  return () => {
+    emitter.off("event", listener);
+  };
+};
+
+/** The scan's current state as an event, used to prime a new subscriber. */
+export const getScanSnapshot = async (scanId: string): Promise<ScanEvent | null> => {
+  if (!Types.ObjectId.isValid(scanId)) return null;
+  const scan = await ScanModel.findById(scanId)
+    .populate<{ contract: ContractDocument }>("contract")
+    .exec();
+  if (!scan) return null;
+
+  return {
+    scanId,
+    contractId: String(scan.contract._id),
+    address: scan.contract.address,
+    network: scan.contract.network,
+    status: scan.status,
+    ...(scan.riskLevel ? { riskLevel: scan.riskLevel } : {}),
+    ...(scan.riskScore !== undefined ? { riskScore: scan.riskScore } : {}),
+    ...(scan.error ? { error: scan.error } : {}),
+    at: scan.updatedAt.toISOString(),
+  };
+};
+
+export default {
+  publishScanEvent,
+  subscribeToScanEvents,
+  getScanSnapshot,
+  isTerminalStatus,
+};
@@ -1,23 +1,47 @@
-import { InterfaceAbi } from "ethers";
 import { Types } from "mongoose";
 import config from "../config/env";
-import analyzeBytecode from "./analysis/bytecodeAnalyzer";
+import { AbstractProvider, Interface, InterfaceAbi } from "ethers";
+import analyzeBytecode, { hashBytecode } from "./analysis/bytecodeAnalyzer";
+import parseDelegationDesignator from "./analysis/delegation";
+import { recoverSelectors } from "./analysis/functionExtractor";
+import { getScoringProfile, listScoringProfiles } from "./analysis/scoring";
+import classifyToken from "./analysis/tokenStandards";
 import {
   cacheScanReport,
   getCachedScanReport,
   getCachedBytecode,
   setCachedBytecode,
 } from "./cacheService";
-import { ensureContract, normalizeAddress, updateContractRisk } from "./contractService";
-import ScanModel, { ScanDocument } from "../models/scan";
+import {
+  ensureContract,
+  flagContractCodeChange,
+  normalizeAddress,
+  updateContractDelegation,
+  updateContractProxy,
+  updateContractRisk,
+  updateContractToken,
+} from "./contractService";
+import detectProxy from "./proxyService";
+import { lookupSignatures } from "./signatureService";
+import simulateTokenTrades from "./simulationService";
+import readTokenMetadata from "./tokenService";
+import { loadDetectorRules } from "./ruleService";
+import { ScanEvent, publishScanEvent } from "./scanEventService";
+import { findVerifiedSource } from "./sourceVerificationService";
+import { dispatchScanWebhooks } from "./webhookService";
+import ScanModel, { ScanDocument, ScanTrigger } from "../models/scan";
 import { getKafkaProducer } from "../queue/kafka";
-import { ScanJobPayload } from "../types/analysis";
-import getProvider from "../utils/provider";
+import { AnalysisReport, DelegationInfo, ProxyInfo, ScanJobPayload } from "../types/analysis";
+import getProvider, { assertProviderChainId, getNetworkConfig } from "../utils/provider";
 import logger from "../utils/logger";
 import ContractModel from "../models/contract";
+import ProxyEventModel, { ProxyEventDocument } from "../models/proxyEvent";
 import HttpError from "../utils/httpError";
-
-const provider = getProvider();
+import {
+  RetriesExhaustedError,
+  RetryableJobError,
+  isTransientError,
+} from "../utils/retry";
 
 export interface CreateScanRequest {
   address: string;
@@ -25,6 +49,11 @@ export interface CreateScanRequest {
   abi?: InterfaceAbi;
   labels?: string[];
   metadata?: Record<string, unknown>;
+  parentScanId?: string;
+  trigger?: ScanTrigger;
+  scoringProfile?: string;
+  /** Block number or hash to pin the scan to; defaults to the latest block. */
+  blockTag?: number | string;
 }
 
 export type CachedScanResult = {
@@ -34,18 +63,36 @@ export type CachedScanResult = {
 
 export type ScanResult = ScanDocument | CachedScanResult;
 
-export const createScanRequest = async ({
+export interface EnqueuedScan {
+  scan: ScanDocument;
+  /** True when a pending or running scan of the same contract and block was reused. */
+  deduplicated: boolean;
+}
+
+export const enqueueScanRequest = async ({
   address,
   network = "mainnet",
   abi,
   labels,
   metadata,
-}: CreateScanRequest): Promise<ScanDocument> => {
+  parentScanId,
+  trigger = "manual",
+  scoringProfile = config.scoringProfile,
+  blockTag,
+}: CreateScanRequest): Promise<EnqueuedScan> => {
   const normalizedAddress = normalizeAddress(address);
+  const networkName = getNetworkConfig(network).name;
+  const profile = getScoringProfile(scoringProfile);
+  if (!profile) {
+    throw new HttpError(400, "Unknown scoring profile", {
+      scoringProfile,
+      supported: listScoringProfiles().map((entry) => entry.name),
+    });
+  }
 
   const contractInput: Parameters<typeof ensureContract>[0] = {
     address: normalizedAddress,
-    network,
+    network: networkName,
   };
 
   if (labels) {
@@ -58,15 +105,23 @@ export const createScanRequest = async ({
 
   const contract = await ensureContract(contractInput);
 
-  const existing = await ScanModel.findOne({
-    contract: contract._id,
-    status: { $in: ["pending", "running"] },
-  })
-    .sort({ createdAt: -1 })
-    .exec();
+  const duplicateFilter = { contract: contract._id, blockTag: blockTag ?? { $exists: false } };
+  // A code change is carried over to a scan that hasn't started yet, which
+  // will read the new code. A running scan may have read the old code, so it
+  // doesn't stand in for one.
+  const existing =
+    trigger === "code-change"
+      ? await ScanModel.findOneAndUpdate(
+          { ...duplicateFilter, status: "pending" },
+          { $set: { trigger } },
+          { new: true, sort: { createdAt: -1 } }
+        ).exec()
+      : await ScanModel.findOne({ ...duplicateFilter, status: { $in: ["pending", "running"] } })
+          .sort({ createdAt: -1 })
+          .exec();
 
   if (existing) {
-    return existing;
+    return { scan: existing, deduplicated: true };
   }
 
   const contractObjectId = contract._id as Types.ObjectId;
@@ -74,20 +129,29 @@ export const createScanRequest = async ({
   const scan = await ScanModel.create({
     contract: contractObjectId,
     status: "pending",
+    trigger,
+    scoringProfile: profile.name,
+    ...(blockTag !== undefined ? { blockTag } : {}),
     ...(abi ? { abi } : {}),
+    ...(parentScanId ? { parentScan: new Types.ObjectId(parentScanId) } : {}),
   });
 
   const payload: ScanJobPayload = {
     scanId: (scan._id as Types.ObjectId).toString(),
     contractId: contractObjectId.toString(),
     address: normalizedAddress,
-    network,
+    network: networkName,
+    scoringProfile: profile.name,
   };
 
   if (abi) {
     payload.abi = abi;
   }
 
+  if (blockTag !== undefined) {
+    payload.blockTag = blockTag;
+  }
+
   const producer = await getKafkaProducer();
   await producer.send({
     topic: config.kafka.topic,
@@ -100,10 +164,20 @@ export const createScanRequest = async ({
   });
 
   logger.debug({ address, scanId: payload.scanId }, "Enqueued contract scan");
+  await publishScanEvent({
+    scanId: payload.scanId,
+    contractId: payload.contractId,
+    address: normalizedAddress,
+    network: networkName,
+    status: "pending",
+  });
 
-  return scan;
+  return { scan, deduplicated: false };
 };
 
+export const createScanRequest = async (request: CreateScanRequest): Promise<ScanDocument> =>
+  (await enqueueScanRequest(request)).scan;
+
 export const getScanById = async (scanId: string): Promise<ScanResult | null> => {
   const cached = await getCachedScanReport<CachedScanResult>(scanId);
   if (cached) {
@@ -135,83 +209,482 @@ export const listScans = async ({
     .exec();
 };
 
+type ScanEventTarget = Pick<ScanEvent, "contractId" | "address" | "network">;
+
+/**
+ * Moves a scan to `status` and publishes the change. With `expected`, the
+ * scan only moves while it still matches those fields; returns whether it moved.
+ */
 const updateScanStatus = async (
   scanId: Types.ObjectId,
+  target: ScanEventTarget,
   status: ScanDocument["status"],
-  updates: Partial<ScanDocument> = {}
-): Promise<void> => {
-  await ScanModel.findByIdAndUpdate(
-    scanId,
+  updates: Partial<ScanDocument> = {},
+  expected: Partial<Pick<ScanDocument, "status" | "attempts">> = {}
+): Promise<boolean> => {
+  const updated = await ScanModel.findOneAndUpdate(
+    { _id: scanId, ...expected },
     {
       $set: { status, ...updates, updatedAt: new Date() },
     },
     { new: true }
   ).exec();
+  if (!updated) return false;
+
+  await publishScanEvent({
+    scanId: scanId.toString(),
+    ...target,
+    status,
+    ...(updates.riskLevel ? { riskLevel: updates.riskLevel } : {}),
+    ...(updates.riskScore !== undefined ? { riskScore: updates.riskScore } : {}),
+    ...(updates.error ? { error: updates.error } : {}),
+  });
+  return true;
+};
+
+const linkProxyImplementation = async (
+  contractId: Types.ObjectId,
+  scanId: string,
+  address: string,
+  network: string,
+  proxy: ProxyInfo | null,
+  blockNumber?: number
+): Promise<void> => {
+  const pinned = blockNumber !== undefined;
+  if (!proxy || proxy.implementation === address) {
+    if (!pinned) await updateContractProxy(contractId, proxy);
+    return;
+  }
+
+  const implementationScan = await createScanRequest({
+    address: proxy.implementation,
+    network,
+    labels: ["proxy-implementation"],
+    parentScanId: scanId,
+    trigger: "proxy-implementation",
+    ...(pinned ? { blockTag: blockNumber } : {}),
+  });
+
+  if (!pinned) {
+    await updateContractProxy(contractId, proxy, implementationScan.contract);
+  }
+  logger.info(
+    { address, implementation: proxy.implementation, scanId: implementationScan._id },
+    "Enqueued proxy implementation scan"
+  );
+};
+
+/**
+ * What the EOA's delegate looks like at this block: whether it has code, how
+ * that code analyzes under the same rules and profile as the EOA's scan, and
+ * how its latest completed scan rated it.
+ */
+const describeDelegate = async (
+  provider: AbstractProvider,
+  network: string,
+  target: string,
+  blockNumber: number,
+  analysis: Pick<
+    Parameters<typeof analyzeBytecode>[0],
+    "rules" | "scoringProfile" | "hardFork"
+  >
+): Promise<Omit<DelegationInfo, "target">> => {
+  const [code, delegateContract] = await Promise.all([
+    provider.getCode(target, blockNumber),
+    ContractModel.findOne({ address: target, network }).exec(),
+  ]);
+  const latest = delegateContract
+    ? await ScanModel.findOne({ contract: delegateContract._id, status: "succeeded" })
+        .sort({ createdAt: -1 })
+        .exec()
+    : null;
+  const report =
+    code !== "0x"
+      ? analyzeBytecode({ address: target, bytecode: code, blockNumber, ...analysis })
+      : null;
+
+  return {
+    targetHasCode: code !== "0x",
+    ...(latest?.riskLevel && latest.riskScore !== undefined
+      ? {
+          targetScan: {
+            scanId: String(latest._id),
+            riskScore: latest.riskScore,
+            riskLevel: latest.riskLevel,
+          },
+        }
+      : {}),
+    ...(report
+      ? {
+          targetAnalysis: {
+            bytecodeHash: report.bytecodeHash,
+            riskScore: report.riskScore,
+            riskLevel: report.riskLevel,
+            findingIds: report.findings.map((finding) => finding.id),
+          },
+        }
+      : {}),
+  };
+};
+
+/**
+ * Records a full scan of the delegate, linked to the EOA's scan, so the code
+ * that runs for the EOA has its own history. The EOA's findings come from
+ * the inline analysis in `describeDelegate`.
+ */
+const linkDelegate = async (
+  contractId: Types.ObjectId,
+  scanId: string,
+  network: string,
+  delegation: DelegationInfo | undefined,
+  blockNumber?: number
+): Promise<void> => {
+  const pinned = blockNumber !== undefined;
+  if (!delegation || delegation.targetHasCode === false) {
+    if (!pinned) await updateContractDelegation(contractId, delegation?.target ?? null);
+    return;
+  }
+
+  const delegateScan = await createScanRequest({
+    address: delegation.target,
+    network,
+    labels: ["eip7702-delegate"],
+    parentScanId: scanId,
+    trigger: "eip7702-delegate",
+    ...(pinned ? { blockTag: blockNumber } : {}),
+  });
+
+  if (!pinned) {
+    await updateContractDelegation(contractId, delegation.target, delegateScan.contract);
+  }
+  logger.info(
+    { delegate: delegation.target, scanId: delegateScan._id },
+    "Enqueued EIP-7702 delegate scan"
+  );
+};
+
+const abiSelectors = (abi: InterfaceAbi | undefined): string[] => {
+  if (!abi) return [];
+  try {
+    const selectors: string[] = [];
+    new Interface(abi).forEachFunction((fragment) => selectors.push(fragment.selector));
+    return selectors;
+  } catch {
+    return [];
+  }
+};
+
+interface CompletedScan {
+  scanId: string;
+  contractId: string;
+  address: string;
+  network: string;
+  report: AnalysisReport;
+  proxy: ProxyInfo | null;
+  /** Block a pinned scan read; undefined for scans of the latest block. */
+  cacheBlock: number | undefined;
+}
+
+/**
+ * Carries a succeeded scan over to the report cache, its contract, webhooks
+ * and the implementation or delegate it points at. The scan is final by now,
+ * so failures here are logged and never reopen it.
+ */
+const recordScanResult = async ({
+  scanId,
+  contractId,
+  address,
+  network,
+  report,
+  proxy,
+  cacheBlock,
+}: CompletedScan): Promise<void> => {
+  const scanObjectId = new Types.ObjectId(scanId);
+  const pinned = cacheBlock !== undefined;
+
+  try {
+    await cacheScanReport(scanId, {
+      ...report,
+      status: "succeeded",
+      completedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.warn({ error, scanId, address }, "Failed to cache scan report");
+  }
+
+  // Historical scans are recorded on the scan only; the contract keeps
+  // describing its current state.
+  if (!pinned) {
+    try {
+      const previousContract = await updateContractRisk(new Types.ObjectId(contractId), {
+        riskScore: report.riskScore,
+        riskLevel: report.riskLevel,
+        latestScan: scanObjectId,
+      });
+
+      if (previousContract) {
+        try {
+          await dispatchScanWebhooks({ scanId: scanObjectId, contract: previousContract, report });
+        } catch (error) {
+          logger.warn({ error, scanId, address }, "Failed to queue webhooks");
+        }
+      }
+
+      await updateContractToken(new Types.ObjectId(contractId), report.token ?? null);
+
+      if (report.codeChange) {
+        await flagContractCodeChange(new Types.ObjectId(contractId), {
+          ...report.codeChange,
+          bytecodeHash: report.bytecodeHash,
+          detectedAt: new Date(),
+          scan: scanObjectId,
+        });
+        logger.warn({ address, scanId, codeChange: report.codeChange }, "Contract code changed");
+      }
+    } catch (error) {
+      logger.warn({ error, scanId, address }, "Failed to update contract from scan");
+    }
+  }
+
+  try {
+    await linkProxyImplementation(
+      new Types.ObjectId(contractId),
+      scanId,
+      address,
+      network,
+      proxy,
+      cacheBlock
+    );
+  } catch (error) {
+    logger.warn({ error, scanId, address }, "Failed to link proxy implementation");
+  }
+
+  try {
+    await linkDelegate(
+      new Types.ObjectId(contractId),
+      scanId,
+      network,
+      report.delegation,
+      cacheBlock
+    );
+  } catch (error) {
+    logger.warn({ error, scanId, address }, "Failed to link EIP-7702 delegate");
+  }
 };
 
 export const processScanJob = async ({
   scanId,
   contractId,
   address,
+  network = "mainnet",
   abi,
+  scoringProfile = config.scoringProfile,
+  blockTag,
 }: ScanJobPayload): Promise<void> => {
   const scanObjectId = new Types.ObjectId(scanId);
-  await updateScanStatus(scanObjectId, "running");
+  const target: ScanEventTarget = { contractId, address, network };
 
+  // Claiming the scan makes redelivered jobs idempotent: a scan that already
+  // reached a final state is never analyzed again. A running scan is only
+  // taken over once its lease runs out, i.e. its worker is presumed dead.
+  const now = new Date();
+  const claimed = await ScanModel.findOneAndUpdate(
+    {
+      _id: scanObjectId,
+      $or: [
+        { status: "pending" },
+        { status: "running", leaseExpiresAt: { $not: { $gt: now } } },
+      ],
+    },
+    {
+      $set: {
+        status: "running",
+        leaseExpiresAt: new Date(now.getTime() + config.scanRetry.leaseMs),
+        updatedAt: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { new: true }
+  ).exec();
+  if (!claimed) {
+    const current = await ScanModel.findById(scanObjectId).select("status attempts").exec();
+    if (current?.status === "running") {
+      // Wait for the holder to finish or its lease to lapse rather than
+      // dropping the job, which may be the only one left for this scan.
+      throw new RetryableJobError("Scan is held by another worker", current.attempts, null);
+    }
+    logger.info({ scanId, address }, "Skipping scan job for a finished or missing scan");
+    return;
+  }
+  await publishScanEvent({ scanId, ...target, status: "running" });
+  // Matches the scan only while this job's claim on it stands.
+  const held = { status: "running" as const, attempts: claimed.attempts };
+
+  let completed: CompletedScan;
   try {
-    const [blockNumber, balance] = await Promise.all([
-      provider.getBlockNumber(),
-      provider.getBalance(address),
-    ]);
+    await assertProviderChainId(network);
+    const provider = getProvider(network);
+
+    // Every read below uses this one block, so a scan never mixes state
+    // from blocks mined while it was running.
+    const block = await provider.getBlock(blockTag ?? "latest");
+    if (!block) {
+      throw new Error(`Block ${blockTag} not found on ${network}`);
+    }
+    const blockNumber = block.number;
+    const pinned = blockTag !== undefined;
+    const cacheBlock = pinned ? blockNumber : undefined;
+
+    const balance = await provider.getBalance(address, blockNumber);
 
-    let bytecode = await getCachedBytecode(address);
+    let bytecode = await getCachedBytecode(network, address, cacheBlock);
     if (!bytecode) {
-      bytecode = await provider.getCode(address);
-      await setCachedBytecode(address, bytecode);
+      bytecode = await provider.getCode(address, blockNumber);
+      await setCachedBytecode(network, address, bytecode, cacheBlock);
     }
 
+    const [proxy, previousScan, rules, verifiedSource] = await Promise.all([
+      detectProxy(provider, address, bytecode, blockNumber),
+      ScanModel.findOne({
+        contract: new Types.ObjectId(contractId),
+        status: "succeeded",
+        _id: { $ne: scanObjectId },
+        blockNumber: { $lte: blockNumber },
+      })
+        .sort({ blockNumber: -1, createdAt: -1 })
+        .exec(),
+      loadDetectorRules(),
+      findVerifiedSource(new Types.ObjectId(contractId), hashBytecode(bytecode)),
+    ]);
+
     const analysisInput: Parameters<typeof analyzeBytecode>[0] = {
       address,
       bytecode,
       balanceWei: balance.toString(),
       blockNumber,
+      rules,
+      scoringProfile,
+      hardFork: getNetworkConfig(network).hardFork,
+      minDelegatedBalanceWei: config.delegation.minBalanceWei,
     };
 
-    if (abi) {
-      analysisInput.abi = abi;
+    const delegateTarget = parseDelegationDesignator(bytecode);
+    if (delegateTarget) {
+      analysisInput.delegate = await describeDelegate(
+        provider,
+        network,
+        delegateTarget,
+        blockNumber,
+        { rules, scoringProfile, hardFork: getNetworkConfig(network).hardFork }
+      );
     }
 
-    const report = analyzeBytecode(analysisInput);
+    if (proxy) {
+      analysisInput.proxy = proxy;
+    }
 
-    await updateScanStatus(scanObjectId, "succeeded", {
-      riskScore: report.riskScore,
-      riskLevel: report.riskLevel,
-      findings: report.findings,
-      opcodeSummary: report.opcodeSummary,
-      bytecodeHash: report.bytecodeHash,
-      balanceWei: report.balanceWei,
-      blockNumber: report.blockNumber,
-    } as Partial<ScanDocument>);
+    if (previousScan?.bytecodeHash) {
+      analysisInput.previousBytecodeHash = previousScan.bytecodeHash;
+    }
 
-    await cacheScanReport(scanId, {
-      ...report,
-      status: "succeeded",
-      completedAt: new Date().toISOString(),
-    });
+    if (verifiedSource) {
+      analysisInput.sourceMap = verifiedSource.sourceMap;
+    }
 
-    await updateContractRisk(new Types.ObjectId(contractId), {
-      riskScore: report.riskScore,
-      riskLevel: report.riskLevel,
-      latestScan: scanObjectId,
-    });
+    // A verified ABI stands in for one the request didn't bring.
+    const effectiveAbi = abi ?? verifiedSource?.abi;
+    const selectors = recoverSelectors(bytecode);
+    if (effectiveAbi) {
+      analysisInput.abi = effectiveAbi;
+    } else {
+      analysisInput.signatureCandidates = await lookupSignatures(selectors);
+    }
+
+    const standards = classifyToken([...selectors, ...abiSelectors(effectiveAbi)]);
+    if (standards.length > 0) {
+      analysisInput.tokenMetadata = await readTokenMetadata(
+        provider,
+        address,
+        standards,
+        blockNumber
+      );
+    }
 
-    logger.info({ address, scanId }, "Scan completed");
+    if (config.simulation.enabled && standards.includes("erc20")) {
+      analysisInput.simulation = await simulateTokenTrades(provider, network, address, blockNumber);
+    }
+
+    const report = analyzeBytecode(analysisInput);
+
+    const succeeded = await updateScanStatus(
+      scanObjectId,
+      target,
+      "succeeded",
+      {
+        riskScore: report.riskScore,
+        riskLevel: report.riskLevel,
+        scoreBreakdown: report.scoreBreakdown,
+        findings: report.findings,
+        opcodeSummary: report.opcodeSummary,
+        functions: report.functions,
+        token: report.token,
+        simulation: report.simulation,
+        proxy: report.proxy,
+        delegation: report.delegation,
+        codeChange: report.codeChange,
+        compiler: report.compiler,
+        hardFork: report.hardFork,
+        bytecodeHash: report.bytecodeHash,
+        balanceWei: report.balanceWei,
+        blockNumber: report.blockNumber,
+      } as Partial<ScanDocument>,
+      held
+    );
+    if (!succeeded) {
+      logger.warn({ scanId, address }, "Scan was taken over while it was running");
+      return;
+    }
+    completed = { scanId, contractId, address, network, report, proxy, cacheBlock };
+
+    logger.info({ address, network, scanId, blockNumber }, "Scan completed");
   } catch (error) {
-    logger.error({ error, scanId, address }, "Contract scan failed");
-    await updateScanStatus(scanObjectId, "failed", {
-      error: error instanceof Error ? error.message : String(error),
-    });
+    const message = error instanceof Error ? error.message : String(error);
+    const transient = isTransientError(error);
+
+    // Only a scan this job still holds is reopened or failed; one that was
+    // taken over or reached a final state meanwhile is left alone.
+    if (transient && claimed.attempts < config.scanRetry.maxAttempts) {
+      logger.warn(
+        { error, scanId, address, network, attempts: claimed.attempts },
+        "Contract scan failed transiently, will retry"
+      );
+      const reopened = await updateScanStatus(
+        scanObjectId,
+        target,
+        "pending",
+        { lastError: message },
+        held
+      );
+      if (reopened) throw new RetryableJobError(message, claimed.attempts, error);
+      return;
+    }
+
+    logger.error({ error, scanId, address, network }, "Contract scan failed");
+    const failed = await updateScanStatus(
+      scanObjectId,
+      target,
+      "failed",
+      { error: message },
+      held
+    );
+
+    // Out of retries: surface the error so the worker dead-letters the job
+    // and it can be replayed once the outage is over.
+    if (failed && transient) throw new RetriesExhaustedError(message, claimed.attempts, error);
+    return;
   }
+
+  await recordScanResult(completed);
 };
 
 export const getLatestScanByContract = async (
@@ -225,7 +698,7 @@ export const listScansForContract = async (
   network?: string
 ): Promise<ScanDocument[]> => {
   const normalized = normalizeAddress(address);
-  const networkName = network ?? "mainnet";
+  const networkName = getNetworkConfig(network ?? "mainnet").name;
   const contract = await ContractModel.findOne({ address: normalized, network: networkName }).exec();
   if (!contract) {
     throw new HttpError(404, "Contract not found");
@@ -236,6 +709,34 @@ export const listScansForContract = async (
     .exec();
 };
 
+export type ContractHistoryEntry =
+  | { type: "scan"; at: Date; scan: ScanDocument }
+  | { type: "proxy-event"; at: Date; event: ProxyEventDocument };
+
+export const getContractHistory = async (
+  address: string,
+  network?: string
+): Promise<ContractHistoryEntry[]> => {
+  const normalized = normalizeAddress(address);
+  const networkName = getNetworkConfig(network ?? "mainnet").name;
+  const contract = await ContractModel.findOne({ address: normalized, network: networkName }).exec();
+  if (!contract) {
+    throw new HttpError(404, "Contract not found");
+  }
+
+  const [scans, events] = await Promise.all([
+    ScanModel.find({ contract: contract._id }).sort({ createdAt: -1 }).exec(),
+    ProxyEventModel.find({ contract: contract._id }).sort({ createdAt: -1 }).exec(),
+  ]);
+
+  const entries: ContractHistoryEntry[] = [
+    ...scans.map((scan) => ({ type: "scan" as const, at: scan.createdAt, scan })),
+    ...events.map((event) => ({ type: "proxy-event" as const, at: event.createdAt, event })),
+  ];
+
+  return entries.sort((a, b) => b.at.getTime() - a.at.getTime());
+};
+
 export const getDashboardStats = async (): Promise<{
   totalContracts: number;
   highRiskContracts: number;
@@ -294,9 +795,11 @@ export const getDashboardStats = async (): Promise<{
 
 export default {
   createScanRequest,
+  enqueueScanRequest,
   getScanById,
   listScans,
   processScanJob,
   getDashboardStats,
   listScansForContract,
+  getContractHistory,
 };
@@ -0,0 +1,64 @@
+import { Types } from "mongoose";
+import ContractModel, { ContractDocument } from "../models/contract";
+import { ScanDocument } from "../models/scan";
+import getProvider from "../utils/provider";
+import logger from "../utils/logger";
+import { hashBytecode } from "./analysis/bytecodeAnalyzer";
+import { setCachedBytecode } from "./cacheService";
+import { nextScanDate } from "./contractService";
+import { createScanRequest } from "./scanService";
+
+// Fetches live code (bypassing the bytecode cache) and compares it with the
+// hash recorded by the contract's latest successful scan.
+const hasCodeChanged = async (contract: ContractDocument): Promise<boolean> => {
+  const latestScan = contract.latestScan as unknown as ScanDocument | undefined;
+  if (!latestScan?.bytecodeHash) {
+    return false;
+  }
+
+  const bytecode = await getProvider(contract.network).getCode(contract.address);
+  await setCachedBytecode(contract.network, contract.address, bytecode);
+  return hashBytecode(bytecode) !== latestScan.bytecodeHash;
+};
+
+/**
+ * Re-enqueues scans for tracked contracts whose risk-level interval has
+ * elapsed. Contracts whose code no longer matches their latest scan are
+ * enqueued with the `code-change` trigger.
+ */
+export const enqueueDueRescans = async (limit = 100): Promise<number> => {
+  const now = new Date();
+  const contracts = await ContractModel.find({
+    riskLevel: { $exists: true },
+    $or: [{ nextScanAt: { $lte: now } }, { nextScanAt: { $exists: false } }],
+  })
+    .sort({ nextScanAt: 1 })
+    .limit(limit)
+    .populate("latestScan")
+    .exec();
+
+  let enqueued = 0;
+  for (const contract of contracts) {
+    try {
+      const trigger = (await hasCodeChanged(contract)) ? "code-change" : "scheduled";
+      await createScanRequest({ address: contract.address, network: contract.network, trigger });
+      await ContractModel.updateOne(
+        { _id: contract._id as Types.ObjectId },
+        { $set: { nextScanAt: nextScanDate(contract.riskLevel ?? "low", now) } }
+      ).exec();
+      enqueued += 1;
+
+      if (trigger === "code-change") {
+        logger.warn({ address: contract.address }, "Bytecode change detected, rescan enqueued");
+      }
+    } catch (error) {
+      logger.error({ error, address: contract.address }, "Scheduled rescan failed");
+    }
+  }
+
+  return enqueued;
+};
+
+export default {
+  enqueueDueRescans,
+};
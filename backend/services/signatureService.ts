@@ -0,0 +1,86 @@
+import { FunctionFragment } from "ethers";
+import SignatureModel, { SignatureSource } from "../models/signature";
+import signatureDump from "../data/signatures.json";
+import HttpError from "../utils/httpError";
+import logger from "../utils/logger";
+
+export const parseSignature = (text: string): { selector: string; signature: string } => {
+  try {
+    const fragment = FunctionFragment.from(text.trim());
+    return { selector: fragment.selector, signature: fragment.format("sighash") };
+  } catch (error) {
+    throw new HttpError(400, "Invalid function signature", {
+      signature: text,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+};
+
+const upsertSignatures = async (
+  entries: { selector: string; signature: string }[],
+  source: SignatureSource
+): Promise<number> => {
+  if (entries.length === 0) return 0;
+
+  const result = await SignatureModel.bulkWrite(
+    entries.map((entry) => ({
+      updateOne: {
+        filter: { selector: entry.selector, signature: entry.signature },
+        update: { $setOnInsert: { ...entry, source } },
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+
+  return result.upsertedCount;
+};
+
+export const seedSignatures = async (): Promise<void> => {
+  const inserted = await upsertSignatures(signatureDump, "bundled");
+  logger.info({ inserted, bundled: signatureDump.length }, "Signature database seeded");
+};
+
+export const importSignatures = async (
+  signatures: string[]
+): Promise<{ imported: number; existing: number; invalid: string[] }> => {
+  const invalid: string[] = [];
+  const entries = new Map<string, { selector: string; signature: string }>();
+
+  for (const text of signatures) {
+    try {
+      const entry = parseSignature(text);
+      entries.set(entry.signature, entry);
+    } catch {
+      invalid.push(text);
+    }
+  }
+
+  const imported = await upsertSignatures([...entries.values()], "import");
+
+  return { imported, existing: entries.size - imported, invalid };
+};
+
+export const lookupSignatures = async (
+  selectors: string[]
+): Promise<Record<string, string[]>> => {
+  if (selectors.length === 0) return {};
+
+  const matches = await SignatureModel.find({
+    selector: { $in: selectors.map((selector) => selector.toLowerCase()) },
+  })
+    .sort({ signature: 1 })
+    .lean()
+    .exec();
+
+  return matches.reduce<Record<string, string[]>>((acc, match) => {
+    (acc[match.selector] ??= []).push(match.signature);
+    return acc;
+  }, {});
+};
+
+export default {
+  importSignatures,
+  lookupSignatures,
+  seedSignatures,
+};
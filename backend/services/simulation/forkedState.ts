@@ -0,0 +1,171 @@
+import { SimpleStateManager } from "@ethereumjs/statemanager";
+import { Account, Address, bytesToHex, hexToBytes, unpadBytes } from "@ethereumjs/util";
+import { AbstractProvider, getAddress, keccak256, toBeHex, zeroPadValue } from "ethers";
+
+export interface AccountState {
+  balance: string;
+  nonce: number;
+  code: string;
+}
+
+export interface BlockContext {
+  number: number;
+  timestamp: number;
+  baseFeePerGas?: string;
+  coinbase?: string;
+}
+
+/** Read-only view of chain state at a single block. */
+export interface StateSource {
+  chainId: number;
+  block: BlockContext;
+  getAccount(address: string): Promise<AccountState>;
+  getStorage(address: string, slot: string): Promise<string>;
+}
+
+/**
+ * Everything a simulation read from the chain, keyed by checksummed address
+ * and 32-byte slot. Replaying a fixture needs no RPC at all.
+ */
+export interface StateFixture {
+  chainId: number;
+  block: BlockContext;
+  accounts: Record<string, AccountState & { storage: Record<string, string> }>;
+}
+
+const ZERO_WORD = zeroPadValue("0x", 32);
+
+const normalizeSlot = (slot: string): string => zeroPadValue(toBeHex(BigInt(slot)), 32);
+
+/**
+ * Reads state from a provider at one block. Once `signal` aborts, every
+ * further read throws its reason, which ends a simulation at its next fetch.
+ */
+export const createProviderStateSource = async (
+  provider: AbstractProvider,
+  blockNumber?: number,
+  signal?: AbortSignal
+): Promise<StateSource> => {
+  signal?.throwIfAborted();
+  const [network, block] = await Promise.all([
+    provider.getNetwork(),
+    provider.getBlock(blockNumber ?? "latest"),
+  ]);
+  if (!block) {
+    throw new Error(`Block ${blockNumber ?? "latest"} not found`);
+  }
+
+  const blockTag = block.number;
+  return {
+    chainId: Number(network.chainId),
+    block: {
+      number: block.number,
+      timestamp: block.timestamp,
+      coinbase: block.miner,
+      ...(block.baseFeePerGas !== null ? { baseFeePerGas: block.baseFeePerGas.toString() } : {}),
+    },
+    getAccount: async (address) => {
+      signal?.throwIfAborted();
+      const [balance, nonce, code] = await Promise.all([
+        provider.getBalance(address, blockTag),
+        provider.getTransactionCount(address, blockTag),
+        provider.getCode(address, blockTag),
+      ]);
+      return { balance: balance.toString(), nonce, code };
+    },
+    getStorage: async (address, slot) => {
+      signal?.throwIfAborted();
+      return provider.getStorage(address, slot, blockTag);
+    },
+  };
+};
+
+export const createFixtureStateSource = (fixture: StateFixture): StateSource => ({
+  chainId: fixture.chainId,
+  block: fixture.block,
+  getAccount: async (address) => {
+    const account = fixture.accounts[getAddress(address)];
+    return account
+      ? { balance: account.balance, nonce: account.nonce, code: account.code }
+      : { balance: "0", nonce: 0, code: "0x" };
+  },
+  getStorage: async (address, slot) =>
+    fixture.accounts[getAddress(address)]?.storage[normalizeSlot(slot)] ?? ZERO_WORD,
+});
+
+/** Wraps a source and keeps every value it served, for writing out as a fixture. */
+export const recordStateSource = (
+  source: StateSource
+): { source: StateSource; fixture: () => StateFixture } => {
+  const accounts: StateFixture["accounts"] = {};
+  const entry = (address: string) =>
+    (accounts[getAddress(address)] ??= { balance: "0", nonce: 0, code: "0x", storage: {} });
+
+  return {
+    source: {
+      chainId: source.chainId,
+      block: source.block,
+      getAccount: async (address) => {
+        const account = await source.getAccount(address);
+        Object.assign(entry(address), account);
+        return account;
+      },
+      getStorage: async (address, slot) => {
+        const value = await source.getStorage(address, slot);
+        entry(address).storage[normalizeSlot(slot)] = value;
+        return value;
+      },
+    },
+    fixture: () => ({ chainId: source.chainId, block: source.block, accounts }),
+  };
+};
+
+/**
+ * In-memory state that falls through to a {@link StateSource} the first time
+ * an account or slot is touched. Values read from the source are written into
+ * every checkpoint layer so reverting a simulated call never forgets them.
+ */
+export class ForkedStateManager extends SimpleStateManager {
+  private readonly source: StateSource;
+
+  constructor(source: StateSource) {
+    super();
+    this.source = source;
+  }
+
+  private seed<T>(stacks: Map<string, T>[], key: string, value: T): void {
+    for (const layer of stacks) {
+      if (!layer.has(key)) layer.set(key, value);
+    }
+  }
+
+  override async getAccount(address: Address): Promise<Account | undefined> {
+    const key = address.toString();
+    if (!this.topAccountStack().has(key)) {
+      const { balance, nonce, code } = await this.source.getAccount(key);
+      const empty = balance === "0" && nonce === 0 && code === "0x";
+      const account = empty
+        ? undefined
+        : new Account(BigInt(nonce), BigInt(balance), null, hexToBytes(keccak256(code) as `0x${string}`));
+      this.seed(this.accountStack, key, account);
+      this.seed(this.codeStack, key, hexToBytes(code as `0x${string}`));
+    }
+    return super.getAccount(address);
+  }
+
+  override async getCode(address: Address): Promise<Uint8Array> {
+    if (!this.topCodeStack().has(address.toString())) {
+      await this.getAccount(address);
+    }
+    return super.getCode(address);
+  }
+
+  override async getStorage(address: Address, key: Uint8Array): Promise<Uint8Array> {
+    const storageKey = `${address.toString()}_${bytesToHex(key)}`;
+    if (!this.topStorageStack().has(storageKey)) {
+      const value = await this.source.getStorage(address.toString(), bytesToHex(key));
+      this.seed(this.storageStack, storageKey, unpadBytes(hexToBytes(value as `0x${string}`)));
+    }
+    return super.getStorage(address, key);
+  }
+}
@@ -0,0 +1,330 @@
+import { createCustomCommon, Mainnet } from "@ethereumjs/common";
+import { createEVM, EVM, EVMRunCallOpts } from "@ethereumjs/evm";
+import { bytesToHex, createAddressFromString, hexToBytes } from "@ethereumjs/util";
+import {
+  AbiCoder,
+  dataSlice,
+  getAddress,
+  id,
+  Interface,
+  MaxUint256,
+  ZeroAddress,
+} from "ethers";
+import { TradeSimulation, TradeStep } from "../../types/analysis";
+import { ForkedStateManager, StateSource } from "./forkedState";
+
+type EVMBlock = NonNullable<EVMRunCallOpts["block"]>;
+
+const routerInterface = new Interface([
+  "function WETH() view returns (address)",
+  "function factory() view returns (address)",
+  "function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)",
+  "function getAmountsIn(uint256 amountOut, address[] path) view returns (uint256[] amounts)",
+  "function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable",
+  "function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+]);
+
+const factoryInterface = new Interface([
+  "function getPair(address tokenA, address tokenB) view returns (address pair)",
+]);
+
+const tokenInterface = new Interface([
+  "function balanceOf(address account) view returns (uint256)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+]);
+
+// Fresh accounts with no history, so per-address allow lists and cooldowns
+// treat them as ordinary new holders.
+const BUYER = getAddress(dataSlice(id("trade-simulation:buyer"), 12));
+const RECIPIENT = getAddress(dataSlice(id("trade-simulation:recipient"), 12));
+const VIEW_CALLER = getAddress(dataSlice(id("trade-simulation:viewer"), 12));
+const BUYER_FUNDS = 10n ** 24n;
+const GAS_LIMIT = 30_000_000n;
+
+// Larger buys, as a share of the pair's token balance, tried to find a
+// per-transaction limit once the base buy has gone through.
+const LIMIT_PROBES_BPS = [100n, 300n, 1000n];
+
+interface CallOutcome {
+  success: boolean;
+  returnData: string;
+  revertReason?: string;
+}
+
+const panicOrError = (returnData: string): string | undefined => {
+  const selector = returnData.slice(0, 10);
+  try {
+    if (selector === "0x08c379a0") {
+      return AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(returnData, 4))[0] as string;
+    }
+    if (selector === "0x4e487b71") {
+      const [code] = AbiCoder.defaultAbiCoder().decode(["uint256"], dataSlice(returnData, 4));
+      return `panic 0x${(code as bigint).toString(16)}`;
+    }
+  } catch {
+    // fall through to the raw selector
+  }
+  return returnData.length > 2 ? `custom error ${selector}` : undefined;
+};
+
+/** Share of `expected` that did not arrive, in basis points. */
+const taxBps = (expected: bigint, received: bigint): number | undefined =>
+  expected > 0n && received <= expected
+    ? Number(((expected - received) * 10_000n) / expected)
+    : expected > 0n
+      ? 0
+      : undefined;
+
+const createSimulator = async (source: StateSource) => {
+  const stateManager = new ForkedStateManager(source);
+  const evm: EVM = await createEVM({
+    common: createCustomCommon({ chainId: source.chainId }, Mainnet),
+    stateManager,
+  });
+
+  const block: EVMBlock = {
+    header: {
+      number: BigInt(source.block.number),
+      coinbase: createAddressFromString(source.block.coinbase ?? ZeroAddress),
+      timestamp: BigInt(source.block.timestamp),
+      difficulty: 0n,
+      prevRandao: new Uint8Array(32),
+      gasLimit: GAS_LIMIT,
+      ...(source.block.baseFeePerGas ? { baseFeePerGas: BigInt(source.block.baseFeePerGas) } : {}),
+      getBlobGasPrice: () => undefined,
+    },
+  };
+
+  const call = async (
+    from: string,
+    to: string,
+    data: string,
+    value = 0n
+  ): Promise<CallOutcome> => {
+    const caller = createAddressFromString(from);
+    const { execResult } = await evm.runCall({
+      caller,
+      origin: caller,
+      to: createAddressFromString(to),
+      data: hexToBytes(data as `0x${string}`),
+      value,
+      gasLimit: GAS_LIMIT,
+      block,
+    });
+    const returnData = bytesToHex(execResult.returnValue);
+    if (!execResult.exceptionError) {
+      return { success: true, returnData };
+    }
+    const revertReason = panicOrError(returnData) ?? execResult.exceptionError.error;
+    return { success: false, returnData, revertReason };
+  };
+
+  const view = async (iface: Interface, to: string, fn: string, args: unknown[] = []) => {
+    const outcome = await call(VIEW_CALLER, to, iface.encodeFunctionData(fn, args));
+    if (!outcome.success) {
+      throw new Error(`${fn} on ${to} reverted: ${outcome.revertReason ?? "no reason"}`);
+    }
+    return iface.decodeFunctionResult(fn, outcome.returnData);
+  };
+
+  const nativeBalance = async (address: string): Promise<bigint> =>
+    (await stateManager.getAccount(createAddressFromString(address)))?.balance ?? 0n;
+
+  const fund = async (address: string, balance: bigint): Promise<void> => {
+    const target = createAddressFromString(address);
+    await stateManager.getAccount(target);
+    await stateManager.modifyAccountFields(target, { balance });
+  };
+
+  /** Runs `body` against the current state and throws its writes away afterwards. */
+  const isolated = async <T>(body: () => Promise<T>): Promise<T> => {
+    await stateManager.checkpoint();
+    try {
+      return await body();
+    } finally {
+      await stateManager.revert();
+    }
+  };
+
+  return { call, view, nativeBalance, fund, isolated };
+};
+
+/**
+ * Buys the token through a Uniswap V2 style router, sends part of it to a
+ * second fresh address and sells the rest back, measuring what each step
+ * delivers against what the router quoted. Runs entirely in an in-process
+ * EVM on top of `source`; nothing is broadcast.
+ */
+export const simulateTokenTrade = async ({
+  source,
+  token,
+  router,
+  buyAmountWei,
+}: {
+  source: StateSource;
+  token: string;
+  router: string;
+  buyAmountWei: bigint;
+}): Promise<TradeSimulation> => {
+  const sim = await createSimulator(source);
+  const [weth] = await sim.view(routerInterface, router, "WETH");
+  const [factory] = await sim.view(routerInterface, router, "factory");
+  const [pair] = await sim.view(factoryInterface, factory as string, "getPair", [token, weth]);
+
+  const base: TradeSimulation = { status: "completed", blockNumber: source.block.number, router };
+  if (pair === ZeroAddress) {
+    return { ...base, status: "skipped", reason: "No pair with the wrapped native token" };
+  }
+  base.pair = pair as string;
+
+  const deadline = BigInt(source.block.timestamp + 600);
+  const buyPath = [weth, token];
+  const sellPath = [token, weth];
+  const tokenBalance = async (holder: string): Promise<bigint> =>
+    (await sim.view(tokenInterface, token, "balanceOf", [holder]))[0] as bigint;
+
+  await sim.fund(BUYER, BUYER_FUNDS);
+
+  const buy = async (amountIn: bigint): Promise<TradeStep> => {
+    const [, expected] = (await sim.view(routerInterface, router, "getAmountsOut", [
+      amountIn,
+      buyPath,
+    ]))[0] as bigint[];
+    const before = await tokenBalance(BUYER);
+    const outcome = await sim.call(
+      BUYER,
+      router,
+      routerInterface.encodeFunctionData("swapExactETHForTokensSupportingFeeOnTransferTokens", [
+        0n,
+        buyPath,
+        BUYER,
+        deadline,
+      ]),
+      amountIn
+    );
+    const step: TradeStep = {
+      status: outcome.success ? "succeeded" : "reverted",
+      amountIn: amountIn.toString(),
+      ...(expected !== undefined ? { expectedOut: expected.toString() } : {}),
+      ...(outcome.revertReason ? { revertReason: outcome.revertReason } : {}),
+    };
+    if (!outcome.success || expected === undefined) return step;
+
+    const received = (await tokenBalance(BUYER)) - before;
+    const tax = taxBps(expected, received);
+    return { ...step, amountOut: received.toString(), ...(tax !== undefined ? { taxBps: tax } : {}) };
+  };
+
+  const transfer = async (amount: bigint): Promise<TradeStep> => {
+    const before = await tokenBalance(RECIPIENT);
+    const outcome = await sim.call(
+      BUYER,
+      token,
+      tokenInterface.encodeFunctionData("transfer", [RECIPIENT, amount])
+    );
+    const step: TradeStep = {
+      status: outcome.success ? "succeeded" : "reverted",
+      amountIn: amount.toString(),
+      expectedOut: amount.toString(),
+      ...(outcome.revertReason ? { revertReason: outcome.revertReason } : {}),
+    };
+    if (!outcome.success) return step;
+
+    const received = (await tokenBalance(RECIPIENT)) - before;
+    const tax = taxBps(amount, received);
+    return { ...step, amountOut: received.toString(), ...(tax !== undefined ? { taxBps: tax } : {}) };
+  };
+
+  const sell = async (amount: bigint): Promise<TradeStep> => {
+    const approval = await sim.call(
+      BUYER,
+      token,
+      tokenInterface.encodeFunctionData("approve", [router, MaxUint256])
+    );
+    if (!approval.success) {
+      return {
+        status: "reverted",
+        amountIn: amount.toString(),
+        revertReason: `approve: ${approval.revertReason ?? "reverted"}`,
+      };
+    }
+
+    const [, expected] = (await sim.view(routerInterface, router, "getAmountsOut", [
+      amount,
+      sellPath,
+    ]))[0] as bigint[];
+    const before = await sim.nativeBalance(BUYER);
+    const outcome = await sim.call(
+      BUYER,
+      router,
+      routerInterface.encodeFunctionData("swapExactTokensForETHSupportingFeeOnTransferTokens", [
+        amount,
+        0n,
+        sellPath,
+        BUYER,
+        deadline,
+      ])
+    );
+    const step: TradeStep = {
+      status: outcome.success ? "succeeded" : "reverted",
+      amountIn: amount.toString(),
+      ...(expected !== undefined ? { expectedOut: expected.toString() } : {}),
+      ...(outcome.revertReason ? { revertReason: outcome.revertReason } : {}),
+    };
+    if (!outcome.success || expected === undefined) return step;
+
+    const received = (await sim.nativeBalance(BUYER)) - before;
+    const tax = taxBps(expected, received);
+    return { ...step, amountOut: received.toString(), ...(tax !== undefined ? { taxBps: tax } : {}) };
+  };
+
+  const probeLimit = async (received: bigint): Promise<TradeSimulation["maxTransaction"]> => {
+    const reserve = await tokenBalance(base.pair as string);
+    let largestSucceeded = received;
+    for (const share of LIMIT_PROBES_BPS) {
+      const target = (reserve * share) / 10_000n;
+      if (target <= largestSucceeded) continue;
+
+      const [amountIn] = (await sim.view(routerInterface, router, "getAmountsIn", [
+        target,
+        buyPath,
+      ]))[0] as bigint[];
+      if (amountIn === undefined || amountIn > BUYER_FUNDS) break;
+
+      const attempt = await sim.isolated(() => buy(amountIn));
+      if (attempt.status === "reverted") {
+        return {
+          largestSucceeded: largestSucceeded.toString(),
+          smallestReverted: target.toString(),
+          ...(attempt.revertReason ? { revertReason: attempt.revertReason } : {}),
+        };
+      }
+      largestSucceeded = BigInt(attempt.amountOut ?? "0");
+    }
+    return undefined;
+  };
+
+  const trades = await sim.isolated(async (): Promise<Partial<TradeSimulation>> => {
+    const buyStep = await buy(buyAmountWei);
+    if (buyStep.status === "reverted") {
+      return { buy: buyStep };
+    }
+
+    const half = (await tokenBalance(BUYER)) / 2n;
+    const transferStep = half > 0n ? await transfer(half) : undefined;
+    const sellStep = await sell(await tokenBalance(BUYER));
+    return { buy: buyStep, ...(transferStep ? { transfer: transferStep } : {}), sell: sellStep };
+  });
+
+  // Limit probes start from the untouched fork so the trades above do not
+  // move the price they are measured at.
+  const maxTransaction =
+    trades.buy?.status === "succeeded"
+      ? await probeLimit(BigInt(trades.buy.amountOut ?? "0"))
+      : undefined;
+
+  return { ...base, ...trades, ...(maxTransaction ? { maxTransaction } : {}) };
+};
+
+export default simulateTokenTrade;
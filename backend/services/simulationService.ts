@@ -0,0 +1,107 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { AbstractProvider } from "ethers";
+import config from "../config/env";
+import { TradeSimulation } from "../types/analysis";
+import logger from "../utils/logger";
+import { getNetworkConfig } from "../utils/provider";
+import {
+  createFixtureStateSource,
+  createProviderStateSource,
+  recordStateSource,
+  StateFixture,
+  StateSource,
+} from "./simulation/forkedState";
+import simulateTokenTrade from "./simulation/tradeSimulation";
+
+/**
+ * Runs `task` with a deadline. On expiry the signal aborts as well, so work
+ * still in flight stops at its next state fetch instead of running on.
+ */
+const withTimeout = <T>(task: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      const error = new Error(`Simulation timed out after ${ms}ms`);
+      controller.abort(error);
+      reject(error);
+    }, ms);
+    task(controller.signal)
+      .then(resolve, reject)
+      .finally(() => clearTimeout(timer));
+  });
+
+/**
+ * With SIMULATION_FIXTURE_DIR set, state for a token at a block is replayed
+ * from its fixture there when one exists and recorded into it otherwise, so
+ * a run against a live or local node can be repeated offline.
+ */
+const openStateSource = async (
+  provider: AbstractProvider,
+  network: string,
+  token: string,
+  blockNumber: number,
+  signal: AbortSignal
+): Promise<{ source: StateSource; save?: () => void }> => {
+  const dir = config.simulation.fixtureDir;
+  const path = dir && join(dir, `${network}-${token.toLowerCase()}-${blockNumber}.json`);
+  if (path && existsSync(path)) {
+    const fixture = JSON.parse(readFileSync(path, "utf8")) as StateFixture;
+    return { source: createFixtureStateSource(fixture) };
+  }
+
+  const live = await createProviderStateSource(provider, blockNumber, signal);
+  if (!path) {
+    return { source: live };
+  }
+
+  const recording = recordStateSource(live);
+  return {
+    source: recording.source,
+    save: () => {
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(recording.fixture(), null, 2));
+    },
+  };
+};
+
+/**
+ * Simulates buying, transferring and selling an ERC-20 on the network's
+ * configured DEX. Never throws: problems are reported on the result so the
+ * rest of the scan is unaffected.
+ */
+export const simulateTokenTrades = async (
+  provider: AbstractProvider,
+  network: string,
+  address: string,
+  blockNumber: number
+): Promise<TradeSimulation> => {
+  const { name, dexRouter } = getNetworkConfig(network);
+  if (!dexRouter) {
+    return { status: "skipped", reason: `No DEX router configured for ${network}` };
+  }
+
+  try {
+    const simulation = await withTimeout(async (signal) => {
+      const { source, save } = await openStateSource(provider, name, address, blockNumber, signal);
+      const result = await simulateTokenTrade({
+        source,
+        token: address,
+        router: dexRouter,
+        buyAmountWei: config.simulation.buyAmountWei,
+      });
+      save?.();
+      return result;
+    }, config.simulation.timeoutMs);
+    logger.debug({ address, network, simulation }, "Token trade simulation finished");
+    return simulation;
+  } catch (error) {
+    logger.warn({ error, address, network }, "Token trade simulation failed");
+    return {
+      status: "failed",
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+export default simulateTokenTrades;
@@ -0,0 +1,63 @@
+import { parentPort, workerData } from "node:worker_threads";
+import solc from "solc";
+
+/**
+ * Worker thread that owns one solc-js build and compiles standard JSON
+ * inputs for the API. Compiles block their thread for as long as they take,
+ * so they run here rather than on the API event loop.
+ */
+
+export interface SolcWorkerData {
+  /** Release to download, e.g. `0.8.26+commit.8a97fa7a`; null for the bundled build. */
+  release: string | null;
+}
+
+export interface SolcWorkerRequest {
+  id: number;
+  input: string;
+}
+
+export type SolcWorkerResponse =
+  | { id: number; version: string; output: string }
+  | { id: number; loadError: string };
+
+interface SolcCompiler {
+  version(): string;
+  compile(input: string): string;
+}
+
+type RemoteCallback = (error: unknown, compiler: SolcCompiler) => void;
+
+const bundledCompiler = solc as SolcCompiler & {
+  loadRemoteVersion(version: string, callback: RemoteCallback): void;
+};
+
+const { release } = workerData as SolcWorkerData;
+
+const ready: Promise<SolcCompiler> = release
+  ? new Promise((resolve, reject) =>
+      bundledCompiler.loadRemoteVersion(`v${release}`, (error, compiler) =>
+        error ? reject(error) : resolve(compiler)
+      )
+    )
+  : Promise.resolve(bundledCompiler);
+
+parentPort?.on("message", ({ id, input }: SolcWorkerRequest) => {
+  ready.then(
+    (compiler) => {
+      const response: SolcWorkerResponse = {
+        id,
+        version: compiler.version(),
+        output: compiler.compile(input),
+      };
+      parentPort?.postMessage(response);
+    },
+    (error: unknown) => {
+      const response: SolcWorkerResponse = {
+        id,
+        loadError: error instanceof Error ? error.message : String(error),
+      };
+      parentPort?.postMessage(response);
+    }
+  );
+});
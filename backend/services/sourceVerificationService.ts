@@ -0,0 +1,421 @@
+import { extname, join } from "node:path";
+import { Worker } from "node:worker_threads";
+import solc from "solc";
+import { InterfaceAbi } from "ethers";
+import { Types } from "mongoose";
+import ContractModel, { ContractDocument } from "../models/contract";
+import VerifiedSourceModel, {
+  CompilerSettings,
+  VerificationMatch,
+  VerifiedSourceDocument,
+} from "../models/verifiedSource";
+import { SourceMapData } from "../types/analysis";
+import HttpError from "../utils/httpError";
+import logger from "../utils/logger";
+import getProvider, { assertProviderChainId, getNetworkConfig } from "../utils/provider";
+import config from "../config/env";
+import { hashBytecode } from "./analysis/bytecodeAnalyzer";
+import { normalizeAddress } from "./contractService";
+import type { SolcWorkerData, SolcWorkerRequest, SolcWorkerResponse } from "./solcWorker";
+
+export interface SourceVerificationInput {
+  address: string;
+  network?: string;
+  /** The bundled compiler's version, or a full release such as `v0.8.26+commit.8a97fa7a`. */
+  compilerVersion: string;
+  /** `Name` or `path:Name`; every compiled contract is tried when omitted. */
+  contractName?: string;
+  /** Source contents keyed by the path used in imports. */
+  sources: Record<string, string>;
+  settings?: CompilerSettings;
+}
+
+export interface SourceVerificationResult {
+  contract: ContractDocument;
+  source: VerifiedSourceDocument;
+  match: VerificationMatch;
+}
+
+interface ByteRange {
+  start: number;
+  length: number;
+}
+
+interface CompiledContract {
+  abi: InterfaceAbi;
+  evm: {
+    deployedBytecode: {
+      object: string;
+      sourceMap: string;
+      immutableReferences?: Record<string, ByteRange[]>;
+      linkReferences?: Record<string, Record<string, ByteRange[]>>;
+    };
+  };
+}
+
+interface AstNode {
+  nodeType?: string;
+  name?: string;
+  kind?: string;
+  src?: string;
+  nodes?: AstNode[];
+}
+
+interface CompilerOutput {
+  errors?: Array<{ severity: string; formattedMessage?: string; message: string }>;
+  sources?: Record<string, { id: number; ast?: AstNode }>;
+  contracts?: Record<string, Record<string, CompiledContract>>;
+}
+
+const bundledVersion = (solc as { version(): string }).version();
+
+interface CompileResult {
+  /** Full version of the compiler that ran, e.g. `0.8.26+commit.8a97fa7a.Emscripten.clang`. */
+  version: string;
+  output: CompilerOutput;
+}
+
+interface CompilerWorker {
+  worker: Worker;
+  pending: Map<number, (response: SolcWorkerResponse | { failure: unknown }) => void>;
+  nextId: number;
+}
+
+// Under ts-node the worker loads TypeScript too; the build already type-checks it.
+const workerScript = join(__dirname, `solcWorker${extname(__filename)}`);
+const workerExecArgv =
+  extname(__filename) === ".ts" ? ["--require", "ts-node/register/transpile-only"] : [];
+
+/** One worker per release, keyed by release or "bundled"; each loads its compiler once. */
+const compilerWorkers = new Map<string, CompilerWorker>();
+
+/**
+ * Uses the solc-js build bundled with the service when the versions agree and
+ * downloads other releases from binaries.soliditylang.org. Returns null for
+ * the bundled build.
+ */
+const resolveRelease = (requested: string): string | null => {
+  const wanted = requested.trim().replace(/^v/, "");
+  const sameRelease = bundledVersion.split("+")[0] === wanted.split("+")[0];
+  if (sameRelease && (!wanted.includes("+") || bundledVersion.startsWith(wanted))) {
+    return null;
+  }
+  if (!/^\d+\.\d+\.\d+\+commit\.[0-9a-f]{8}$/.test(wanted)) {
+    throw new HttpError(400, "Compiler version must include the commit hash", {
+      compilerVersion: requested,
+      example: "v0.8.26+commit.8a97fa7a",
+      bundled: bundledVersion,
+    });
+  }
+  return wanted;
+};
+
+const stopWorker = (key: string, entry: CompilerWorker, reason: unknown): void => {
+  if (compilerWorkers.get(key) === entry) compilerWorkers.delete(key);
+  for (const settle of entry.pending.values()) settle({ failure: reason });
+  entry.pending.clear();
+  void entry.worker.terminate();
+};
+
+const getCompilerWorker = (release: string | null): [string, CompilerWorker] => {
+  const key = release ?? "bundled";
+  const existing = compilerWorkers.get(key);
+  if (existing) return [key, existing];
+
+  const workerData: SolcWorkerData = { release };
+  const entry: CompilerWorker = {
+    worker: new Worker(workerScript, { workerData, execArgv: workerExecArgv }),
+    pending: new Map(),
+    nextId: 0,
+  };
+  entry.worker.on("message", (response: SolcWorkerResponse) => {
+    const settle = entry.pending.get(response.id);
+    entry.pending.delete(response.id);
+    settle?.(response);
+  });
+  entry.worker.on("error", (error) => stopWorker(key, entry, error));
+  entry.worker.on("exit", () => stopWorker(key, entry, new Error("Compiler worker exited")));
+  // Idle workers must not keep the process alive at shutdown.
+  entry.worker.unref();
+  compilerWorkers.set(key, entry);
+  return [key, entry];
+};
+
+/**
+ * Sends the input to the release's worker thread. A compile that outlives
+ * the timeout terminates its worker, which also fails compiles queued
+ * behind it; the next request starts a fresh one.
+ */
+const runCompiler = (release: string | null, input: string): Promise<CompileResult> => {
+  const [key, entry] = getCompilerWorker(release);
+  const id = entry.nextId;
+  entry.nextId += 1;
+  const { compileTimeoutMs } = config.sourceVerification;
+
+  return new Promise<CompileResult>((resolve, reject) => {
+    const timer = setTimeout(
+      () =>
+        stopWorker(
+          key,
+          entry,
+          new HttpError(504, "Compilation timed out", { timeoutMs: compileTimeoutMs })
+        ),
+      compileTimeoutMs
+    );
+
+    entry.pending.set(id, (response) => {
+      clearTimeout(timer);
+      if ("failure" in response) {
+        reject(response.failure);
+      } else if ("loadError" in response) {
+        // Drop the worker so the download is retried on the next request.
+        stopWorker(key, entry, new Error(response.loadError));
+        reject(
+          new HttpError(502, "Failed to load compiler", {
+            compilerVersion: release,
+            error: response.loadError,
+          })
+        );
+      } else {
+        resolve({
+          version: response.version,
+          output: JSON.parse(response.output) as CompilerOutput,
+        });
+      }
+    });
+    const request: SolcWorkerRequest = { id, input };
+    entry.worker.postMessage(request);
+  });
+};
+
+const compile = async (
+  release: string | null,
+  sources: Record<string, string>,
+  settings: CompilerSettings
+): Promise<CompileResult> => {
+  const input = {
+    language: "Solidity",
+    sources: Object.fromEntries(
+      Object.entries(sources).map(([path, content]) => [path, { content }])
+    ),
+    settings: {
+      ...settings,
+      outputSelection: {
+        "*": {
+          "*": [
+            "abi",
+            "evm.deployedBytecode.object",
+            "evm.deployedBytecode.sourceMap",
+            "evm.deployedBytecode.immutableReferences",
+            "evm.deployedBytecode.linkReferences",
+          ],
+          "": ["ast"],
+        },
+      },
+    },
+  };
+
+  const result = await runCompiler(release, JSON.stringify(input));
+  const errors = (result.output.errors ?? []).filter((error) => error.severity === "error");
+  if (errors.length > 0) {
+    throw new HttpError(422, "Compilation failed", {
+      errors: errors.map((error) => error.formattedMessage ?? error.message),
+    });
+  }
+  return result;
+};
+
+const maskRanges = (hex: string, ranges: ByteRange[]): string => {
+  let masked = hex;
+  for (const { start, length } of ranges) {
+    masked =
+      masked.slice(0, start * 2) + "0".repeat(length * 2) + masked.slice((start + length) * 2);
+  }
+  return masked;
+};
+
+// The last two bytes give the length of the CBOR metadata that precedes them.
+const stripMetadata = (hex: string): string => {
+  if (hex.length < 4) return hex;
+  const size = (parseInt(hex.slice(-4), 16) + 2) * 2;
+  return size <= hex.length ? hex.slice(0, -size) : hex;
+};
+
+/**
+ * Immutables are filled in at deployment and unlinked libraries are
+ * placeholders, so both are masked out on each side before comparing.
+ */
+const compareBytecode = (
+  compiled: CompiledContract["evm"]["deployedBytecode"],
+  onChain: string
+): VerificationMatch | null => {
+  const ranges = [
+    ...Object.values(compiled.immutableReferences ?? {}).flat(),
+    ...Object.values(compiled.linkReferences ?? {}).flatMap((libraries) =>
+      Object.values(libraries).flat()
+    ),
+  ];
+  const expected = maskRanges(compiled.object.toLowerCase(), ranges);
+  const actual = maskRanges(onChain.toLowerCase(), ranges);
+
+  if (expected === actual) return "full";
+  const strippedExpected = stripMetadata(expected);
+  return strippedExpected.length > 0 && strippedExpected === stripMetadata(actual)
+    ? "partial"
+    : null;
+};
+
+const parseSrc = (src: string | undefined) => {
+  const [start, length, sourceId] = (src ?? "").split(":").map(Number);
+  return start === undefined || length === undefined || sourceId === undefined
+    ? null
+    : { start, length, sourceId };
+};
+
+/** Function and modifier ranges from the AST, for naming the code a finding sits in. */
+const collectFunctions = (node: AstNode, contract?: string): SourceMapData["functions"] => {
+  const owner = node.nodeType === "ContractDefinition" ? node.name : contract;
+  const own: SourceMapData["functions"] = [];
+  if (node.nodeType === "FunctionDefinition" || node.nodeType === "ModifierDefinition") {
+    const range = parseSrc(node.src);
+    const name = node.name || node.kind || "function";
+    if (range) own.push({ name: owner ? `${owner}.${name}` : name, ...range });
+  }
+  return [...own, ...(node.nodes ?? []).flatMap((child) => collectFunctions(child, owner))];
+};
+
+const buildSourceMap = (
+  output: CompilerOutput,
+  sources: Record<string, string>,
+  compiled: CompiledContract
+): SourceMapData => {
+  const entries = Object.entries(output.sources ?? {});
+  return {
+    runtimeSourceMap: compiled.evm.deployedBytecode.sourceMap,
+    sources: entries.map(([path, { id }]) => ({ id, path, content: sources[path] ?? "" })),
+    functions: entries.flatMap(([, { ast }]) => (ast ? collectFunctions(ast) : [])),
+  };
+};
+
+const requireContract = async (address: string, network?: string) => {
+  const normalized = normalizeAddress(address);
+  const networkName = getNetworkConfig(network ?? "mainnet").name;
+  const contract = await ContractModel.findOne({ address: normalized, network: networkName }).exec();
+  if (!contract) {
+    throw new HttpError(404, "Contract not found", { address: normalized, network: networkName });
+  }
+  return contract;
+};
+
+/**
+ * Compiles the sources and compares the runtime code against the contract's
+ * current on-chain code. On a match the source map and ABI are stored and
+ * picked up by every later scan of the same code.
+ */
+export const verifyContractSource = async ({
+  address,
+  network,
+  compilerVersion,
+  contractName,
+  sources,
+  settings = {},
+}: SourceVerificationInput): Promise<SourceVerificationResult> => {
+  const contract = await requireContract(address, network);
+
+  await assertProviderChainId(contract.network);
+  const onChain = (await getProvider(contract.network).getCode(contract.address)).slice(2);
+  if (onChain.length === 0) {
+    throw new HttpError(422, "Address has no code to verify against", {
+      address: contract.address,
+      network: contract.network,
+    });
+  }
+
+  const { version, output } = await compile(resolveRelease(compilerVersion), sources, settings);
+
+  const candidates = Object.entries(output.contracts ?? {}).flatMap(([path, contracts]) =>
+    Object.entries(contracts)
+      .filter(
+        ([name, compiled]) =>
+          compiled.evm.deployedBytecode.object.length > 0 &&
+          (!contractName || contractName === name || contractName === `${path}:${name}`)
+      )
+      .map(([name, compiled]) => ({ name: `${path}:${name}`, compiled }))
+  );
+  if (candidates.length === 0) {
+    throw new HttpError(422, "No deployable contract matches the requested name", {
+      contractName,
+    });
+  }
+
+  const matched = candidates
+    .map((candidate) => ({
+      ...candidate,
+      match: compareBytecode(candidate.compiled.evm.deployedBytecode, onChain),
+    }))
+    .find((candidate) => candidate.match !== null);
+  if (!matched?.match) {
+    throw new HttpError(422, "Compiled bytecode does not match the on-chain code", {
+      onChainBytes: onChain.length / 2,
+      candidates: candidates.map(({ name, compiled }) => ({
+        contractName: name,
+        compiledBytes: compiled.evm.deployedBytecode.object.length / 2,
+      })),
+    });
+  }
+
+  const bytecodeHash = hashBytecode(onChain);
+  const source = await VerifiedSourceModel.findOneAndUpdate(
+    { contract: contract._id, bytecodeHash },
+    {
+      $set: {
+        compilerVersion: version,
+        contractName: matched.name,
+        settings,
+        match: matched.match,
+        abi: matched.compiled.abi,
+        sourceMap: buildSourceMap(output, sources, matched.compiled),
+      },
+    },
+    { upsert: true, new: true }
+  ).exec();
+
+  contract.abi = matched.compiled.abi;
+  contract.verification = {
+    source: source._id as Types.ObjectId,
+    compilerVersion: source.compilerVersion,
+    contractName: source.contractName,
+    match: source.match,
+    bytecodeHash,
+    verifiedAt: new Date(),
+  };
+  await contract.save();
+
+  logger.info(
+    { address: contract.address, network: contract.network, contractName: matched.name },
+    "Verified contract source"
+  );
+  return { contract, source, match: matched.match };
+};
+
+export const getContractSource = async (
+  address: string,
+  network?: string
+): Promise<VerifiedSourceDocument | null> => {
+  const contract = await requireContract(address, network);
+  if (!contract.verification) return null;
+  return VerifiedSourceModel.findById(contract.verification.source).exec();
+};
+
+/** Verified source for exactly this code, if any; code changes invalidate verification. */
+export const findVerifiedSource = async (
+  contractId: Types.ObjectId,
+  bytecodeHash: string
+): Promise<VerifiedSourceDocument | null> =>
+  VerifiedSourceModel.findOne({ contract: contractId, bytecodeHash }).exec();
+
+export default {
+  verifyContractSource,
+  getContractSource,
+  findVerifiedSource,
+};
@@ -0,0 +1,86 @@
+import { AbstractProvider, decodeBytes32String, Interface } from "ethers";
+import { TokenMetadata, TokenStandard } from "../types/analysis";
+import logger from "../utils/logger";
+
+const tokenInterface = new Interface([
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+]);
+
+const call = async (
+  provider: AbstractProvider,
+  address: string,
+  fn: string,
+  blockTag?: number
+): Promise<string | null> => {
+  try {
+    const result = await provider.call({
+      to: address,
+      data: tokenInterface.encodeFunctionData(fn),
+      ...(blockTag !== undefined ? { blockTag } : {}),
+    });
+    return result === "0x" ? null : result;
+  } catch {
+    return null;
+  }
+};
+
+// Early tokens such as MKR return name and symbol as bytes32.
+const decodeText = (fn: string, result: string | null): string | undefined => {
+  if (!result) return undefined;
+  try {
+    return tokenInterface.decodeFunctionResult(fn, result)[0] as string;
+  } catch {
+    try {
+      return result.length === 66 ? decodeBytes32String(result) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+const decodeNumber = (fn: string, result: string | null): bigint | undefined => {
+  if (!result) return undefined;
+  try {
+    return tokenInterface.decodeFunctionResult(fn, result)[0] as bigint;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads the optional ERC-20 style metadata getters. Every call is allowed to
+ * fail; NFTs for instance rarely implement `decimals` or `totalSupply`.
+ */
+export const readTokenMetadata = async (
+  provider: AbstractProvider,
+  address: string,
+  standards: TokenStandard[],
+  blockTag?: number
+): Promise<TokenMetadata> => {
+  const fungible = standards.includes("erc20");
+  const [name, symbol, decimals, totalSupply] = await Promise.all([
+    call(provider, address, "name", blockTag),
+    call(provider, address, "symbol", blockTag),
+    fungible ? call(provider, address, "decimals", blockTag) : Promise.resolve(null),
+    call(provider, address, "totalSupply", blockTag),
+  ]);
+
+  const metadata: TokenMetadata = {};
+  const decodedName = decodeText("name", name);
+  const decodedSymbol = decodeText("symbol", symbol);
+  const decodedDecimals = decodeNumber("decimals", decimals);
+  const decodedSupply = decodeNumber("totalSupply", totalSupply);
+
+  if (decodedName !== undefined) metadata.name = decodedName;
+  if (decodedSymbol !== undefined) metadata.symbol = decodedSymbol;
+  if (decodedDecimals !== undefined) metadata.decimals = Number(decodedDecimals);
+  if (decodedSupply !== undefined) metadata.totalSupply = decodedSupply.toString();
+
+  logger.debug({ address, standards, metadata }, "Read token metadata");
+  return metadata;
+};
+
+export default readTokenMetadata;
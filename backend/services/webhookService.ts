@@ -0,0 +1,362 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { Types } from "mongoose";
+import config from "../config/env";
+import { ContractDocument } from "../models/contract";
+import WebhookDeliveryModel, {
+  WebhookAttempt,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+} from "../models/webhookDelivery";
+import WebhookSubscriptionModel, {
+  WebhookEvent,
+  WebhookFilters,
+  WebhookSubscriptionDocument,
+} from "../models/webhookSubscription";
+import { AnalysisReport, RiskLevel } from "../types/analysis";
+import HttpError from "../utils/httpError";
+import logger from "../utils/logger";
+import { resolvesToPrivateAddress } from "../utils/privateAddress";
+
+const riskLevels: RiskLevel[] = ["low", "medium", "high", "critical"];
+const riskRank = (level: RiskLevel): number => riskLevels.indexOf(level);
+
+export interface WebhookInput {
+  url?: string;
+  description?: string;
+  enabled?: boolean;
+  events?: WebhookEvent[];
+  /** A null `minRiskLevel` clears the threshold. */
+  filters?: Partial<Omit<WebhookFilters, "minRiskLevel">> & { minRiskLevel?: RiskLevel | null };
+}
+
+export interface ScanWebhookInput {
+  scanId: Types.ObjectId;
+  /** The contract as it was before this scan updated its risk. */
+  contract: ContractDocument;
+  report: Pick<AnalysisReport, "riskScore" | "riskLevel" | "findings" | "blockNumber">;
+}
+
+const generateSecret = (): string => `whsec_${randomBytes(32).toString("hex")}`;
+
+/** Receivers recompute this over `${timestamp}.${rawBody}` to verify a delivery. */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+const requireSubscription = async (
+  subscriptionId: string
+): Promise<WebhookSubscriptionDocument> => {
+  if (!Types.ObjectId.isValid(subscriptionId)) {
+    throw new HttpError(400, "Invalid webhook ID", { subscriptionId });
+  }
+  const subscription = await WebhookSubscriptionModel.findById(subscriptionId).exec();
+  if (!subscription) {
+    throw new HttpError(404, "Webhook not found", { subscriptionId });
+  }
+  return subscription;
+};
+
+const applyInput = (subscription: WebhookSubscriptionDocument, input: WebhookInput): void => {
+  if (input.url !== undefined) subscription.url = input.url;
+  if (input.description !== undefined) subscription.description = input.description;
+  if (input.enabled !== undefined) subscription.enabled = input.enabled;
+  if (input.events !== undefined) subscription.events = input.events;
+
+  const filters = input.filters;
+  if (!filters) return;
+  if (filters.networks !== undefined) subscription.filters.networks = filters.networks;
+  if (filters.labels !== undefined) subscription.filters.labels = filters.labels;
+  if (filters.findingIds !== undefined) subscription.filters.findingIds = filters.findingIds;
+  if (filters.minRiskLevel === null) {
+    subscription.set("filters.minRiskLevel", undefined);
+  } else if (filters.minRiskLevel) {
+    subscription.filters.minRiskLevel = filters.minRiskLevel;
+  }
+};
+
+export const listWebhooks = async (): Promise<WebhookSubscriptionDocument[]> =>
+  WebhookSubscriptionModel.find().sort({ createdAt: -1 }).exec();
+
+export const getWebhook = async (subscriptionId: string): Promise<WebhookSubscriptionDocument> =>
+  requireSubscription(subscriptionId);
+
+/** The secret is only returned here and on rotation; it is never serialized afterwards. */
+export const createWebhook = async (
+  input: WebhookInput & { url: string }
+): Promise<{ subscription: WebhookSubscriptionDocument; secret: string }> => {
+  const secret = generateSecret();
+  const subscription = new WebhookSubscriptionModel({ url: input.url, secret });
+  applyInput(subscription, input);
+  await subscription.save();
+  return { subscription, secret };
+};
+
+export const updateWebhook = async (
+  subscriptionId: string,
+  input: WebhookInput & { rotateSecret?: boolean }
+): Promise<{ subscription: WebhookSubscriptionDocument; secret?: string }> => {
+  const subscription = await requireSubscription(subscriptionId);
+  applyInput(subscription, input);
+  const secret = input.rotateSecret ? generateSecret() : undefined;
+  if (secret) subscription.secret = secret;
+  await subscription.save();
+  return { subscription, ...(secret ? { secret } : {}) };
+};
+
+export const deleteWebhook = async (
+  subscriptionId: string
+): Promise<WebhookSubscriptionDocument> => {
+  const subscription = await requireSubscription(subscriptionId);
+  await subscription.deleteOne();
+  return subscription;
+};
+
+export const listWebhookDeliveries = async (
+  subscriptionId: string,
+  {
+    status,
+    limit = 20,
+    skip = 0,
+  }: { status?: WebhookDeliveryStatus; limit?: number; skip?: number }
+): Promise<WebhookDeliveryDocument[]> => {
+  const subscription = await requireSubscription(subscriptionId);
+  return WebhookDeliveryModel.find({
+    subscription: subscription._id,
+    ...(status ? { status } : {}),
+  })
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(Math.min(limit, 100))
+    .exec();
+};
+
+const matchesFilters = (
+  filters: WebhookFilters,
+  contract: ContractDocument,
+  report: ScanWebhookInput["report"]
+): boolean => {
+  if (filters.networks.length > 0 && !filters.networks.includes(contract.network)) {
+    return false;
+  }
+  if (
+    filters.labels.length > 0 &&
+    !filters.labels.some((label) => contract.labels.includes(label))
+  ) {
+    return false;
+  }
+  if (filters.minRiskLevel && riskRank(report.riskLevel) < riskRank(filters.minRiskLevel)) {
+    return false;
+  }
+  if (
+    filters.findingIds.length > 0 &&
+    !report.findings.some((finding) => filters.findingIds.includes(finding.id))
+  ) {
+    return false;
+  }
+  return true;
+};
+
+const retryDelayMs = (attempts: number): number =>
+  config.webhooks.retryBaseSeconds * 1000 * 2 ** Math.max(attempts - 1, 0);
+
+/**
+ * Leases a due delivery so concurrent workers don't send it twice; the lease
+ * lapses on its own if this process dies mid-attempt.
+ */
+const claimDelivery = async (
+  filter: Record<string, unknown> = {}
+): Promise<WebhookDeliveryDocument | null> => {
+  const now = new Date();
+  return WebhookDeliveryModel.findOneAndUpdate(
+    { ...filter, status: "pending", nextAttemptAt: { $lte: now } },
+    { $set: { nextAttemptAt: new Date(now.getTime() + config.webhooks.timeoutMs * 2) } },
+    { new: true, sort: { nextAttemptAt: 1 } }
+  ).exec();
+};
+
+const sendDelivery = async (
+  delivery: WebhookDeliveryDocument,
+  subscription: WebhookSubscriptionDocument
+): Promise<WebhookAttempt> => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+  try {
+    // Checked on every attempt: a public hostname can be repointed after the
+    // subscription was validated.
+    if (!config.webhooks.allowPrivateUrls && (await resolvesToPrivateAddress(subscription.url))) {
+      return {
+        at: new Date(startedAt),
+        error: "URL resolves to a private address",
+        durationMs: Date.now() - startedAt,
+      };
+    }
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "web3-security-webhooks",
+        "X-Webhook-Id": String(delivery._id),
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookPayload(subscription.secret, timestamp, body),
+      },
+      body,
+      // A redirect could lead to a private address, so it counts as a failure.
+      redirect: "manual",
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+    });
+    return {
+      at: new Date(startedAt),
+      statusCode: response.status,
+      ...(response.ok ? {} : { error: `Unexpected status ${response.status}` }),
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      at: new Date(startedAt),
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+};
+
+const attemptDelivery = async (delivery: WebhookDeliveryDocument): Promise<void> => {
+  const subscription = await WebhookSubscriptionModel.findById(delivery.subscription).exec();
+  const attempt: WebhookAttempt =
+    subscription && subscription.enabled
+      ? await sendDelivery(delivery, subscription)
+      : { at: new Date(), error: "Webhook was deleted or disabled", durationMs: 0 };
+
+  delivery.attempts.push(attempt);
+  const attempts = delivery.attempts.length;
+  const succeeded = attempt.error === undefined;
+  const exhausted = !subscription?.enabled || attempts >= config.webhooks.maxAttempts;
+
+  if (succeeded) {
+    delivery.status = "succeeded";
+    delivery.deliveredAt = attempt.at;
+    delivery.set("nextAttemptAt", undefined);
+  } else if (exhausted) {
+    delivery.status = "failed";
+    delivery.set("nextAttemptAt", undefined);
+  } else {
+    delivery.nextAttemptAt = new Date(Date.now() + retryDelayMs(attempts));
+  }
+  await delivery.save();
+
+  const log = { deliveryId: delivery._id, event: delivery.event, attempts, ...attempt };
+  if (succeeded) {
+    logger.info(log, "Webhook delivered");
+  } else {
+    logger.warn({ ...log, status: delivery.status }, "Webhook delivery attempt failed");
+  }
+};
+
+/** Sends deliveries whose retry time has come; returns how many were attempted. */
+export const processDueWebhookDeliveries = async (limit = 50): Promise<number> => {
+  let processed = 0;
+  while (processed < limit) {
+    const delivery = await claimDelivery();
+    if (!delivery) break;
+    await attemptDelivery(delivery);
+    processed += 1;
+  }
+  return processed;
+};
+
+/**
+ * Events a scan raises: always `scan.completed`, and `risk.increased` when the
+ * level is above the contract's previous one. A contract's first scan is
+ * measured against "low", so one that is risky from the start is reported too.
+ */
+export const scanWebhookEvents = (
+  previousRiskLevel: RiskLevel | undefined,
+  riskLevel: RiskLevel
+): WebhookEvent[] =>
+  riskRank(riskLevel) > riskRank(previousRiskLevel ?? "low")
+    ? ["scan.completed", "risk.increased"]
+    : ["scan.completed"];
+
+/**
+ * Queues a `scan.completed` delivery for every matching subscription, plus a
+ * `risk.increased` one when the contract's risk level went up, and makes the
+ * first attempts in the background. Failed attempts are retried with exponential
+ * backoff by `processDueWebhookDeliveries`.
+ */
+export const dispatchScanWebhooks = async ({
+  scanId,
+  contract,
+  report,
+}: ScanWebhookInput): Promise<number> => {
+  const previousRiskLevel = contract.riskLevel;
+  const events = scanWebhookEvents(previousRiskLevel, report.riskLevel);
+
+  const subscriptions = await WebhookSubscriptionModel.find({
+    enabled: true,
+    events: { $in: events },
+  }).exec();
+
+  const now = new Date();
+  const deliveries = subscriptions.flatMap((subscription) =>
+    events
+      .filter((event) => subscription.events.includes(event))
+      .filter(() => matchesFilters(subscription.filters, contract, report))
+      .map((event) => {
+        const _id = new Types.ObjectId();
+        return {
+          _id,
+          subscription: subscription._id,
+          event,
+          scan: scanId,
+          contract: contract._id,
+          nextAttemptAt: now,
+          payload: {
+            id: String(_id),
+            event,
+            createdAt: now.toISOString(),
+            data: {
+              scanId: String(scanId),
+              contract: {
+                id: String(contract._id),
+                address: contract.address,
+                network: contract.network,
+                labels: contract.labels,
+              },
+              riskScore: report.riskScore,
+              riskLevel: report.riskLevel,
+              ...(previousRiskLevel ? { previousRiskLevel } : {}),
+              ...(report.blockNumber !== undefined ? { blockNumber: report.blockNumber } : {}),
+              findings: report.findings.map(({ id, title, severity }) => ({ id, title, severity })),
+            },
+          },
+        };
+      })
+  );
+  if (deliveries.length === 0) return 0;
+
+  await WebhookDeliveryModel.insertMany(deliveries);
+
+  // Slow receivers must not hold up the scan; deliveries are already persisted
+  // so anything lost here is picked up by the retry loop.
+  void (async () => {
+    for (const { _id } of deliveries) {
+      const delivery = await claimDelivery({ _id });
+      if (delivery) await attemptDelivery(delivery);
+    }
+  })().catch((error) => logger.error({ error, scanId }, "Webhook dispatch failed"));
+
+  return deliveries.length;
+};
+
+export default {
+  listWebhooks,
+  getWebhook,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+  dispatchScanWebhooks,
+  processDueWebhookDeliveries,
+  scanWebhookEvents,
+  signWebhookPayload,
+};
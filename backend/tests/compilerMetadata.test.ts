@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import decodeCompilerMetadata from "../services/analysis/compilerMetadata";
+import { SOLC_METADATA } from "./fixtures";
+
+describe("decodeCompilerMetadata", () => {
+  it("decodes the IPFS hash and version solc embeds", () => {
+    assert.deepEqual(decodeCompilerMetadata(SOLC_METADATA), {
+      compiler: "solc",
+      version: "0.8.37",
+      ipfs: "QmUYGEX9S7fz5iJ7Gk8bz2519Rogn6iUfggdNmSCUpTyMM",
+    });
+  });
+
+  it("accepts a 0x prefix", () => {
+    assert.equal(decodeCompilerMetadata(`0x${SOLC_METADATA}`)?.version, "0.8.37");
+  });
+
+  it("decodes vyper's map of version numbers", () => {
+    // {"vyper": [0, 3, 9]} followed by its length
+    assert.deepEqual(decodeCompilerMetadata("a1657679706572830003090012"), {
+      compiler: "vyper",
+      version: "0.3.9",
+    });
+  });
+
+  it("rejects bytes that aren't a complete CBOR value", () => {
+    assert.equal(decodeCompilerMetadata(SOLC_METADATA.slice(2)), undefined);
+    // A stray byte after the map
+    assert.equal(decodeCompilerMetadata(`${SOLC_METADATA.slice(0, -4)}000033`), undefined);
+    assert.equal(decodeCompilerMetadata("805050" + "0003"), undefined);
+    assert.equal(decodeCompilerMetadata("00"), undefined);
+  });
+
+  it("rejects CBOR maps without compiler keys", () => {
+    // {"a": 1}
+    assert.equal(decodeCompilerMetadata("a1616101" + "0004"), undefined);
+  });
+});
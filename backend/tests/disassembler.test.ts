@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import disassemble, { splitMetadata } from "../services/analysis/disassembler";
+import { SOLC_METADATA, SOLC_RUNTIME } from "./fixtures";
+import { compileRuntime } from "./solc";
+
+describe("splitMetadata", () => {
+  it("splits a solc CBOR trailer off the code", () => {
+    const { code, metadata } = splitMetadata(SOLC_RUNTIME);
+    assert.equal(metadata, SOLC_METADATA);
+    assert.equal(code, SOLC_RUNTIME.slice(0, -SOLC_METADATA.length));
+  });
+
+  it("keeps a tail whose length bytes don't frame compiler metadata", () => {
+    // Ends in 0x0003, which would declare a 3-byte trailer `805050`.
+    assert.deepEqual(splitMetadata("600160028050500003"), { code: "600160028050500003" });
+  });
+
+  it("leaves code too short for a trailer alone", () => {
+    assert.deepEqual(splitMetadata("00"), { code: "00" });
+  });
+});
+
+describe("disassemble", () => {
+  it("resolves every jump in solc output", () => {
+    const disassembly = disassemble(SOLC_RUNTIME);
+    assert.equal(disassembly.metadata, SOLC_METADATA);
+    assert.equal(disassembly.codeSize, SOLC_RUNTIME.length / 2 - SOLC_METADATA.length / 2);
+    assert.deepEqual(disassembly.unresolvedJumps, []);
+    assert.deepEqual(
+      disassembly.blocks.filter((block) => !block.reachable).map((block) => block.start),
+      [81]
+    );
+  });
+
+  it("follows a pushed jump target to its JUMPDEST", () => {
+    // PUSH1 4 JUMP STOP JUMPDEST CALLER SELFDESTRUCT
+    const disassembly = disassemble("600456005b33ff");
+    assert.deepEqual(disassembly.blockAt.get(0)?.successors, [4]);
+    assert.equal(disassembly.blockAt.get(3)?.reachable, false);
+    assert.equal(disassembly.blockAt.get(4)?.reachable, true);
+  });
+
+  it("treats every JUMPDEST as reachable from a computed jump", () => {
+    // PUSH1 3 PUSH1 5 ADD JUMP STOP STOP STOP JUMPDEST CALLER SELFDESTRUCT
+    const disassembly = disassemble("6003600501560000005b33ff");
+    assert.deepEqual(disassembly.unresolvedJumps, [5]);
+    assert.deepEqual(disassembly.blockAt.get(0)?.successors, [9]);
+    assert.deepEqual(
+      disassembly.blockAt.get(9)?.instructions.map((instruction) => instruction.name),
+      ["JUMPDEST", "CALLER", "SELFDESTRUCT"]
+    );
+    assert.equal(disassembly.blockAt.get(9)?.reachable, true);
+  });
+
+  it("keeps code after an internal function with more callers than tracked states", () => {
+    const functions = Array.from(
+      { length: 60 },
+      (_, i) =>
+        `function f${i}(uint a) external returns (uint) {
+          uint r = add(a, ${i});
+          if (r == 7) selfdestruct(payable(msg.sender));
+          return r;
+        }`
+    );
+    const disassembly = disassemble(
+      compileRuntime(
+        `pragma solidity ^0.8.0;
+        contract Shared {
+          function add(uint a, uint b) internal pure returns (uint) { return a + b; }
+          ${functions.join("\n")}
+        }`,
+        "Shared"
+      )
+    );
+
+    const selfdestructs = disassembly.blocks.filter((block) =>
+      block.instructions.some((instruction) => instruction.name === "SELFDESTRUCT")
+    );
+    assert.equal(selfdestructs.length, 60);
+    assert.ok(selfdestructs.every((block) => block.reachable));
+    // Only the INVALID solc places before the metadata is left over as data.
+    const dataBytes = disassembly.blocks
+      .filter((block) => !block.reachable)
+      .reduce((total, block) => total + block.length, 0);
+    assert.equal(dataBytes, 1);
+    // Widening loses the return addresses but they were never computed.
+    assert.deepEqual(disassembly.unresolvedJumps, []);
+  });
+
+  it("decodes the code section of an EOF container", () => {
+    const disassembly = disassemble("ef00010100040200010001040000000080000000");
+    assert.equal(disassembly.eof?.version, 1);
+    assert.deepEqual(
+      disassembly.blocks.map((block) => block.instructions.map((instruction) => instruction.name)),
+      [["STOP"]]
+    );
+  });
+});
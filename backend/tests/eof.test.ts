@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import parseEofContainer from "../services/analysis/eof";
+
+// magic, version 1, types 4 bytes, one 1-byte code section, no data, then
+// the type entry (0 inputs, non-returning, no stack) and STOP.
+const MINIMAL_CONTAINER = "ef0001" + "010004" + "0200010001" + "040000" + "00" + "00800000" + "00";
+
+describe("parseEofContainer", () => {
+  it("lays out the sections of a minimal container", () => {
+    assert.deepEqual(parseEofContainer(MINIMAL_CONTAINER), {
+      version: 1,
+      codeSections: [{ offset: 19, size: 1, inputs: 0, outputs: 0x80, maxStackIncrease: 0 }],
+      containerSections: [],
+      data: { offset: 20, size: 0, declaredSize: 0 },
+    });
+  });
+
+  it("reads nested containers with two- or four-byte sizes", () => {
+    const nested = MINIMAL_CONTAINER;
+    const nestedSize = nested.length / 2;
+    const header = (sizeBytes: number) =>
+      "ef0001" +
+      "010004" +
+      "0200010001" +
+      "030001" +
+      nestedSize.toString(16).padStart(sizeBytes * 2, "0") +
+      "040000" +
+      "00";
+    for (const sizeBytes of [2, 4]) {
+      const container = parseEofContainer(header(sizeBytes) + "00800000" + "00" + nested);
+      assert.deepEqual(container?.containerSections, [
+        { offset: header(sizeBytes).length / 2 + 5, size: nestedSize },
+      ]);
+    }
+  });
+
+  it("returns null for legacy code and malformed headers", () => {
+    assert.equal(parseEofContainer("6080604052"), null);
+    // Truncated before the code section
+    assert.equal(parseEofContainer(MINIMAL_CONTAINER.slice(0, -2)), null);
+    // Unknown version
+    assert.equal(parseEofContainer("ef0002" + MINIMAL_CONTAINER.slice(6)), null);
+    // Type section sized for two code sections
+    assert.equal(parseEofContainer(MINIMAL_CONTAINER.replace("010004", "010008")), null);
+  });
+});
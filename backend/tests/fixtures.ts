@@ -0,0 +1,16 @@
+/** CBOR trailer of {@link SOLC_RUNTIME}: IPFS hash and `solc: 0.8.37`, then its length. */
+export const SOLC_METADATA =
+  "a26469706673582212205c1fad916bea9ffe0023bdea7e484350288221c15d6d04451215db2642724b9c" +
+  "64736f6c63430008250033";
+
+/**
+ * `contract A { uint x; function set(uint v) external { x = v; } }` as
+ * deployed by solc 0.8.37 with the optimizer on (200 runs).
+ */
+export const SOLC_RUNTIME =
+  "6080604052348015600e575f5ffd5b50600436106026575f3560e01c806360fe47b114602a575b5f5ffd5b" +
+  "60396035366004603b565b5f55565b005b5f60208284031215604a575f5ffd5b503591905056fe" +
+  SOLC_METADATA;
+
+/** Creation code for {@link SOLC_RUNTIME}: a constructor that copies and returns it. */
+export const SOLC_CREATION = "6080604052348015600e575f5ffd5b50608780601a5f395ff3fe" + SOLC_RUNTIME;
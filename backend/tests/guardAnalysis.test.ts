@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ZeroAddress } from "ethers";
+import analyzeBytecode from "../services/analysis/bytecodeAnalyzer";
+import disassemble from "../services/analysis/disassembler";
+import analyzeGuards from "../services/analysis/guardAnalysis";
+import { compileRuntime } from "./solc";
+
+/**
+ * `guarded` owner-only functions and, optionally, an open `d3()`, all calling
+ * `_kill()`. With 40 guarded callers, `d3()`'s path into `_kill()` is among
+ * those past the per-block state cap.
+ */
+const killSwitch = (guarded: number, open: boolean): string =>
+  compileRuntime(
+    `pragma solidity ^0.8.0;
+    contract Kill {
+      address owner;
+      constructor() { owner = msg.sender; }
+      function _kill() internal { selfdestruct(payable(owner)); }
+      ${Array.from(
+        { length: guarded },
+        (_, i) => `function g${i}() external { require(msg.sender == owner); _kill(); }`
+      ).join("\n")}
+      ${open ? "function d3() external { _kill(); }" : ""}
+    }`,
+    "Kill"
+  );
+
+const selfdestructReach = (bytecode: string) => [
+  ...analyzeGuards(disassemble(bytecode), new Set(["SELFDESTRUCT"])).values(),
+];
+
+const selfdestructFinding = (bytecode: string) => {
+  const report = analyzeBytecode({
+    address: ZeroAddress,
+    bytecode,
+    rules: {},
+    scoringProfile: "standard",
+    hardFork: "shanghai",
+  });
+  const finding = report.findings.find((entry) => entry.id === "selfdestruct-usage");
+  assert.ok(finding);
+  return finding;
+};
+
+describe("analyzeGuards", () => {
+  it("finds the owner check on every path to a guarded instruction", () => {
+    assert.deepEqual(selfdestructReach(killSwitch(3, false)), [
+      { unguarded: false, guards: [{ kind: "storage", slot: "0x0" }] },
+    ]);
+  });
+
+  it("reports a path that skips the check", () => {
+    assert.deepEqual(selfdestructReach(killSwitch(3, true)), [{ unguarded: true, guards: [] }]);
+  });
+
+  it("marks instructions behind a helper with too many callers to track as incomplete", () => {
+    assert.deepEqual(selfdestructReach(killSwitch(40, true)), [
+      { unguarded: false, guards: [{ kind: "storage", slot: "0x0" }], incomplete: true },
+    ]);
+  });
+});
+
+describe("caller guards on opcode findings", () => {
+  it("lowers SELFDESTRUCT when every path checks the owner", () => {
+    const finding = selfdestructFinding(killSwitch(3, false));
+    assert.equal(finding.severity, "medium");
+    assert.match(finding.description, /Every path to SELFDESTRUCT first checks the caller/);
+  });
+
+  it("raises SELFDESTRUCT when a path skips the owner check", () => {
+    assert.equal(selfdestructFinding(killSwitch(3, true)).severity, "critical");
+  });
+
+  it("never lowers SELFDESTRUCT when some paths to it were not followed", () => {
+    const finding = selfdestructFinding(killSwitch(40, true));
+    assert.notEqual(finding.severity, "medium");
+    assert.doesNotMatch(finding.description, /Every path to SELFDESTRUCT first checks the caller/);
+    const accessControl = finding.metadata?.accessControl as { guardedProgramCounters: number[] };
+    assert.deepEqual(accessControl.guardedProgramCounters, []);
+  });
+});
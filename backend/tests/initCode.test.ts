@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import splitInitCode from "../services/analysis/initCode";
+import { SOLC_CREATION, SOLC_RUNTIME } from "./fixtures";
+
+describe("splitInitCode", () => {
+  it("finds the runtime code a solc constructor returns", () => {
+    const split = splitInitCode(SOLC_CREATION);
+    assert.equal(split?.runtimeCode, SOLC_RUNTIME);
+    assert.deepEqual(split?.summary, {
+      runtimeOffset: 26,
+      runtimeSize: SOLC_RUNTIME.length / 2,
+      trailingSize: 0,
+      createPcs: [],
+      create2Pcs: [],
+      storageWrites: [],
+    });
+  });
+
+  it("reports constructor storage writes and trailing constructor arguments", () => {
+    // SSTORE(0, 1), CODECOPY(0, 17, 2), RETURN(0, 2), runtime 0x6000, argument 0xff
+    const split = splitInitCode("6001600055" + "6002601160003960026000f3" + "6000" + "ff");
+    assert.equal(split?.runtimeCode, "6000");
+    assert.deepEqual(split?.summary.storageWrites, [{ pc: 4, slot: "0x0" }]);
+    assert.equal(split?.summary.trailingSize, 1);
+  });
+
+  it("returns null when nothing is copied out and returned", () => {
+    // Returns 32 bytes of memory without a CODECOPY
+    assert.equal(splitInitCode("602a60005260206000f3"), null);
+    assert.equal(splitInitCode(""), null);
+    assert.equal(splitInitCode("ef00010100040200010001040000000080000000"), null);
+  });
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isPrivateAddress, isPrivateUrl, resolvesToPrivateAddress } from "../utils/privateAddress";
+
+describe("isPrivateAddress", () => {
+  it("flags loopback, private, link-local and reserved addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.31.255.255",
+      "192.168.0.10",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "255.255.255.255",
+      "::1",
+      "::",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it("passes public addresses and anything that isn't an IP", () => {
+    for (const address of ["1.1.1.1", "172.32.0.1", "2606:4700:4700::1111", "example.com"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
+
+describe("isPrivateUrl", () => {
+  it("flags localhost names and private IP literals in any notation", () => {
+    for (const url of [
+      "http://localhost:3000/hook",
+      "https://api.localhost/hook",
+      "http://127.1/hook",
+      "http://2130706433/hook",
+      "http://[::1]:8080/hook",
+      "http://[::ffff:10.0.0.1]/hook",
+    ]) {
+      assert.equal(isPrivateUrl(url), true, url);
+    }
+  });
+
+  it("passes public hosts", () => {
+    assert.equal(isPrivateUrl("https://hooks.example.com/scan"), false);
+    assert.equal(isPrivateUrl("https://1.1.1.1/scan"), false);
+  });
+});
+
+describe("resolvesToPrivateAddress", () => {
+  it("decides IP literals and localhost without a lookup", async () => {
+    assert.equal(await resolvesToPrivateAddress("http://localhost/hook"), true);
+    assert.equal(await resolvesToPrivateAddress("http://192.168.1.1/hook"), true);
+    assert.equal(await resolvesToPrivateAddress("http://8.8.8.8/hook"), false);
+  });
+});
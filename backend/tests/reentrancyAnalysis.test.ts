@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ZeroAddress } from "ethers";
+import analyzeBytecode from "../services/analysis/bytecodeAnalyzer";
+import { compileRuntime } from "./solc";
+
+/** A vault whose `withdraw()` runs `body`; `_pay` sends the balance out with `call`. */
+const vault = (body: string, lock = false): string =>
+  compileRuntime(
+    `pragma solidity ^0.8.0;
+    contract Vault {
+      uint counter;
+      uint locked = 1;
+      mapping(address => uint) balances;
+      modifier nonReentrant() { require(locked == 1); locked = 2; _; locked = 1; }
+      function _tick() internal { counter += 1; }
+      function _send(address to) internal {
+        (bool ok,) = to.call{value: balances[to]}("");
+        require(ok);
+      }
+      function _pay(address to) internal { _send(to); balances[to] = 0; }
+      function withdraw() external ${lock ? "nonReentrant" : ""} { ${body} }
+    }`,
+    "Vault"
+  );
+
+const reentrancyFindings = (bytecode: string) =>
+  analyzeBytecode({
+    address: ZeroAddress,
+    bytecode,
+    rules: {},
+    scoringProfile: "standard",
+    hardFork: "prague",
+  }).findings.filter((finding) => finding.id === "reentrancy-state-write-after-call");
+
+describe("reentrancy detector", () => {
+  it("reports a storage write after a call without a lock", () => {
+    const [finding, ...rest] = reentrancyFindings(vault("_pay(msg.sender);"));
+    assert.equal(rest.length, 0);
+    assert.equal(finding?.severity, "high");
+    assert.equal(finding?.title, "State written after external call");
+  });
+
+  it("stays quiet when state is settled before the call", () => {
+    const bytecode = vault(
+      `uint amount = balances[msg.sender];
+      balances[msg.sender] = 0;
+      (bool ok,) = msg.sender.call{value: amount}("");
+      require(ok);`
+    );
+    assert.deepEqual(reentrancyFindings(bytecode), []);
+  });
+
+  it("lowers a write after a call behind a reentrancy lock", () => {
+    const [finding] = reentrancyFindings(vault("_pay(msg.sender);", true));
+    assert.equal(finding?.severity, "low");
+    assert.match(finding?.description ?? "", /reentrancy lock/);
+  });
+
+  it("reports an incomplete check instead of nothing when paths were dropped", () => {
+    // 40 calls to `_tick()` put its return past the per-block state cap.
+    const [finding, ...rest] = reentrancyFindings(
+      vault(`${"_tick(); ".repeat(40)}_pay(msg.sender);`)
+    );
+    assert.equal(rest.length, 0);
+    assert.equal(finding?.title, "Reentrancy check incomplete");
+    assert.equal(finding?.severity, "medium");
+    assert.deepEqual(finding?.metadata?.incompleteFunctions, ["0x3ccfd60b"]);
+  });
+});
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { makeError } from "ethers";
+import { parseScanJob } from "../queue/scanJob";
+import {
+  RetriesExhaustedError,
+  RetryableJobError,
+  backoffDelay,
+  isTransientError,
+  planJobFailure,
+} from "../utils/retry";
+
+const policy = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+const socketError = (code: string) => Object.assign(new Error(`connect ${code}`), { code });
+
+const namedError = (name: string) => Object.assign(new Error("lost connection"), { name });
+
+describe("isTransientError", () => {
+  it("accepts provider outages, lost connections and rate limits", () => {
+    for (const error of [
+      makeError("request timed out", "TIMEOUT"),
+      makeError("bad gateway", "SERVER_ERROR"),
+      namedError("MongoNetworkError"),
+      socketError("ECONNREFUSED"),
+      new Error("429 Too Many Requests"),
+      new Error("daily rate limit exceeded"),
+    ]) {
+      assert.equal(isTransientError(error), true, error.message);
+    }
+  });
+
+  it("accepts MongoDB errors labelled retryable", () => {
+    const error = Object.assign(new Error("write conflict"), {
+      hasErrorLabel: (label: string) => label === "RetryableWriteError",
+    });
+    assert.equal(isTransientError(error), true);
+  });
+
+  it("rejects failures that would repeat", () => {
+    for (const error of [
+      makeError("execution reverted", "CALL_EXCEPTION"),
+      new Error("Invalid bytecode"),
+      socketError("ENOENT"),
+      "TIMEOUT",
+      undefined,
+    ]) {
+      assert.equal(isTransientError(error), false, String(error));
+    }
+  });
+});
+
+describe("backoffDelay", () => {
+  beforeEach(() => {
+    mock.method(Math, "random", () => 1);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("doubles the delay per attempt up to the cap", () => {
+    assert.deepEqual(
+      [0, 1, 2, 3, 6].map((attempt) => backoffDelay(attempt, 1000, 30000)),
+      [1000, 1000, 2000, 4000, 30000]
+    );
+  });
+
+  it("jitters the whole delay", () => {
+    mock.method(Math, "random", () => 0.25);
+    assert.equal(backoffDelay(3, 1000, 30000), 1000);
+  });
+});
+
+describe("planJobFailure", () => {
+  beforeEach(() => {
+    mock.method(Math, "random", () => 1);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("retries a transient failure while attempts remain", () => {
+    assert.deepEqual(planJobFailure(makeError("timeout", "TIMEOUT"), 2, policy), {
+      action: "retry",
+      delayMs: 2000,
+    });
+  });
+
+  it("dead-letters a transient failure on the last attempt", () => {
+    assert.deepEqual(planJobFailure(makeError("timeout", "TIMEOUT"), 4, policy), {
+      action: "dead-letter",
+      reason: "retries-exhausted",
+      attempts: 4,
+    });
+  });
+
+  it("backs off by the job's own attempt count", () => {
+    assert.deepEqual(planJobFailure(new RetryableJobError("busy", 3, null), 9, policy), {
+      action: "retry",
+      delayMs: 4000,
+    });
+  });
+
+  it("dead-letters a job that ran out of retries with its attempt count", () => {
+    const error = new RetriesExhaustedError("gone", 4, makeError("timeout", "TIMEOUT"));
+    assert.deepEqual(planJobFailure(error, 1, policy), {
+      action: "dead-letter",
+      reason: "retries-exhausted",
+      attempts: 4,
+    });
+  });
+
+  it("dead-letters other errors right away", () => {
+    assert.deepEqual(planJobFailure(new Error("Invalid bytecode"), 1, policy), {
+      action: "dead-letter",
+      reason: "processing-error",
+      attempts: 1,
+    });
+  });
+});
+
+describe("parseScanJob", () => {
+  const job = {
+    scanId: "65f1c0ffee0000000000000a",
+    contractId: "65f1c0ffee0000000000000b",
+    address: "0x0000000000000000000000000000000000000001",
+  };
+
+  it("keeps the fields a job carries", () => {
+    assert.deepEqual(parseScanJob(JSON.stringify({ ...job, network: "sepolia", blockTag: 5 })), {
+      ...job,
+      network: "sepolia",
+      blockTag: 5,
+    });
+  });
+
+  it("rejects payloads the worker can't run", () => {
+    assert.throws(() => parseScanJob("not json"), SyntaxError);
+    assert.throws(() => parseScanJob(JSON.stringify({ ...job, scanId: "42" })));
+    assert.throws(() => parseScanJob(JSON.stringify({ ...job, blockTag: -1 })));
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+import { Types } from "mongoose";
+import { closeRedisClient } from "../cache/redisClient";
+import ScanModel from "../models/scan";
+import { compareScans } from "../services/scanDiffService";
+import { AnalysisFinding, RiskLevel } from "../types/analysis";
+import HttpError from "../utils/httpError";
+
+// The scan service opens the shared Redis connection on import.
+after(closeRedisClient);
+
+const contract = new Types.ObjectId();
+
+const finding = (id: string, severity: RiskLevel): AnalysisFinding => ({
+  id,
+  title: id,
+  description: id,
+  severity,
+});
+
+const scan = (fields: {
+  findings: AnalysisFinding[];
+  hits?: Record<string, number>;
+  riskScore?: number;
+  riskLevel?: RiskLevel;
+  bytecodeHash?: string;
+  status?: "succeeded" | "failed";
+}) =>
+  new ScanModel({
+    contract,
+    status: fields.status ?? "succeeded",
+    findings: fields.findings,
+    riskScore: fields.riskScore,
+    riskLevel: fields.riskLevel,
+    bytecodeHash: fields.bytecodeHash ?? "0xaa",
+    opcodeSummary: {
+      totalOpcodes: 100,
+      uniqueOpcodes: 40,
+      dangerousOpcodeHits: fields.hits ?? {},
+    },
+  });
+
+describe("compareScans", () => {
+  it("lists added, removed and re-rated findings", () => {
+    const diff = compareScans(
+      scan({ findings: [finding("call-usage", "medium"), finding("sstore-usage", "low")] }),
+      scan({ findings: [finding("call-usage", "high"), finding("selfdestruct-usage", "high")] })
+    );
+    assert.deepEqual(diff.findings.added.map((entry) => entry.id), ["selfdestruct-usage"]);
+    assert.deepEqual(diff.findings.removed.map((entry) => entry.id), ["sstore-usage"]);
+    assert.deepEqual(diff.findings.severityChanged, [
+      { id: "call-usage", title: "call-usage", from: "medium", to: "high" },
+    ]);
+  });
+
+  it("compares repeated finding ids occurrence by occurrence", () => {
+    const diff = compareScans(
+      scan({ findings: [finding("compiler-bug", "low")] }),
+      scan({ findings: [finding("compiler-bug", "low"), finding("compiler-bug", "medium")] })
+    );
+    assert.deepEqual(diff.findings.added.map((entry) => entry.severity), ["medium"]);
+    assert.deepEqual(diff.findings.removed, []);
+    assert.deepEqual(diff.findings.severityChanged, []);
+  });
+
+  it("reports score, level, bytecode and opcode changes", () => {
+    const diff = compareScans(
+      scan({ findings: [], riskScore: 4, riskLevel: "low", hits: { CALL: 2, SSTORE: 1 } }),
+      scan({
+        findings: [],
+        riskScore: 29,
+        riskLevel: "critical",
+        bytecodeHash: "0xbb",
+        hits: { CALL: 2, SELFDESTRUCT: 1 },
+      })
+    );
+    assert.equal(diff.riskScoreDelta, 25);
+    assert.equal(diff.riskLevelChanged, true);
+    assert.equal(diff.bytecodeChanged, true);
+    assert.deepEqual(diff.opcodeHitsDelta, { SSTORE: -1, SELFDESTRUCT: 1 });
+    assert.equal(diff.from.riskLevel, "low");
+    assert.equal(diff.to.riskScore, 29);
+  });
+
+  it("reports nothing between identical scans", () => {
+    const fields = { findings: [finding("call-usage", "medium")], riskScore: 4, hits: { CALL: 1 } };
+    const diff = compareScans(scan(fields), scan(fields));
+    assert.deepEqual(diff.findings, { added: [], removed: [], severityChanged: [] });
+    assert.equal(diff.riskScoreDelta, 0);
+    assert.equal(diff.bytecodeChanged, false);
+    assert.deepEqual(diff.opcodeHitsDelta, {});
+  });
+
+  it("refuses scans that didn't succeed", () => {
+    assert.throws(
+      () => compareScans(scan({ findings: [], status: "failed" }), scan({ findings: [] })),
+      (error: unknown) => error instanceof HttpError && error.statusCode === 409
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ZodError } from "zod";
+import { parseBatchBody } from "../routes/scanSchemas";
+import { parseCsv } from "../utils/csv";
+
+const ADDRESS = "0x0000000000000000000000000000000000000001";
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, quotes and newlines", () => {
+    assert.deepEqual(parseCsv('address,metadata\r\n0x1,"{""a"":1,\n""b"":2}"\n\n0x2,\n'), [
+      { address: "0x1", metadata: '{"a":1,\n"b":2}' },
+      { address: "0x2", metadata: "" },
+    ]);
+  });
+});
+
+describe("parseBatchBody", () => {
+  it("accepts a JSON array or an object with entries", () => {
+    const expected = {
+      source: "json",
+      entries: [{ request: { address: ADDRESS, network: "sepolia" } }],
+    };
+    assert.deepEqual(parseBatchBody([{ address: ADDRESS, network: "sepolia" }]), expected);
+    assert.deepEqual(
+      parseBatchBody({ entries: [{ address: ADDRESS, network: "sepolia" }] }),
+      expected
+    );
+  });
+
+  it("keeps invalid JSON entries with the reason", () => {
+    const [entry] = parseBatchBody([{ network: "sepolia", blockTag: -1 }]).entries;
+    assert.ok(entry && "error" in entry);
+    assert.equal(entry.address, "");
+    assert.equal(entry.network, "sepolia");
+    assert.equal(entry.error, "Validation failed");
+    assert.deepEqual(
+      (entry.details as { path: unknown[] }[]).map((issue) => issue.path),
+      [["blockTag"], ["address"]]
+    );
+  });
+
+  it("rejects a body that isn't a list of entries", () => {
+    assert.throws(() => parseBatchBody({ address: ADDRESS }), ZodError);
+    assert.throws(() => parseBatchBody(undefined), ZodError);
+  });
+
+  it("maps CSV columns onto entries", () => {
+    const csv = [
+      "address,network,labels,metadata,blockTag",
+      `${ADDRESS},sepolia,"hot; treasury ;","{""team"":""ops""}",19000000`,
+      `${ADDRESS},,,,0x${"ab".repeat(32)}`,
+    ].join("\n");
+    assert.deepEqual(parseBatchBody(csv), {
+      source: "csv",
+      entries: [
+        {
+          request: {
+            address: ADDRESS,
+            network: "sepolia",
+            labels: ["hot", "treasury"],
+            metadata: { team: "ops" },
+            blockTag: 19000000,
+          },
+        },
+        { request: { address: ADDRESS, blockTag: `0x${"ab".repeat(32)}` } },
+      ],
+    });
+  });
+
+  it("keeps CSV rows with broken JSON or bad fields with the reason", () => {
+    const { entries } = parseBatchBody(
+      `address,network,abi,blockTag\n${ADDRESS},sepolia,{not json},\n,,,latest`
+    );
+    assert.deepEqual(
+      entries.map((entry) => ("error" in entry ? [entry.address, entry.error] : null)),
+      [
+        [ADDRESS, "Invalid JSON in CSV row"],
+        ["", "Validation failed"],
+      ]
+    );
+    assert.equal(entries[0] && "error" in entries[0] ? entries[0].network : undefined, "sepolia");
+  });
+});
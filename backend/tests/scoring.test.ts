@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  evaluateRiskLevel,
+  getScoringProfile,
+  scoreFindings,
+  ScoringProfile,
+} from "../services/analysis/scoring";
+import { AnalysisFinding, RiskLevel } from "../types/analysis";
+
+const finding = (id: string, severity: RiskLevel, detected = true): AnalysisFinding => ({
+  id,
+  title: id,
+  description: id,
+  severity,
+  ...(detected ? { detector: { id, version: "1.0.0" } } : {}),
+});
+
+const profile = (name: string): ScoringProfile => {
+  const found = getScoringProfile(name);
+  assert.ok(found);
+  return found;
+};
+
+describe("scoreFindings", () => {
+  it("counts the most severe finding in a category in full and decays the rest", () => {
+    const breakdown = scoreFindings(
+      [
+        finding("call-usage", "medium"),
+        finding("delegatecall-usage", "critical"),
+        finding("callcode-usage", "high"),
+      ],
+      profile("standard")
+    );
+    assert.deepEqual(
+      breakdown.contributions.map(({ findingId, category, multiplier, contribution }) => ({
+        findingId,
+        category,
+        multiplier,
+        contribution,
+      })),
+      [
+        { findingId: "call-usage", category: "external-call", multiplier: 0.25, contribution: 1 },
+        {
+          findingId: "delegatecall-usage",
+          category: "external-call",
+          multiplier: 1,
+          contribution: 25,
+        },
+        { findingId: "callcode-usage", category: "external-call", multiplier: 0.5, contribution: 5 },
+      ]
+    );
+    assert.equal(breakdown.total, 31);
+    assert.equal(breakdown.profile, "standard");
+    assert.equal(breakdown.profileVersion, "1.0.0");
+  });
+
+  it("doesn't decay findings in different categories", () => {
+    const breakdown = scoreFindings(
+      [finding("call-usage", "high"), finding("selfdestruct-usage", "high")],
+      profile("standard")
+    );
+    assert.deepEqual(breakdown.contributions.map((entry) => entry.multiplier), [1, 1]);
+    assert.equal(breakdown.total, 20);
+  });
+
+  it("groups findings without a detector by their id", () => {
+    const breakdown = scoreFindings(
+      [finding("manual", "medium", false), finding("manual", "medium", false)],
+      profile("standard")
+    );
+    assert.deepEqual(
+      breakdown.contributions.map((entry) => [entry.category, entry.contribution]),
+      [
+        ["manual", 4],
+        ["manual", 2],
+      ]
+    );
+    assert.equal(breakdown.contributions[0]?.detectorId, undefined);
+  });
+
+  it("caps a finding's contribution", () => {
+    const [contribution] = scoreFindings([finding("sstore-usage", "high")], profile("standard"))
+      .contributions;
+    assert.deepEqual(contribution, {
+      findingId: "sstore-usage",
+      detectorId: "sstore-usage",
+      category: "storage",
+      severity: "high",
+      weight: 10,
+      multiplier: 1,
+      cap: 0.5,
+      contribution: 0.5,
+    });
+  });
+
+  it("sums flat weights under the legacy profile", () => {
+    const breakdown = scoreFindings(
+      [
+        finding("call-usage", "medium"),
+        finding("delegatecall-usage", "critical"),
+        finding("sstore-usage", "low"),
+      ],
+      profile("legacy")
+    );
+    assert.deepEqual(breakdown.contributions.map((entry) => entry.contribution), [3, 10, 1]);
+    assert.equal(breakdown.total, 14);
+  });
+
+  it("scores no findings as zero", () => {
+    assert.equal(scoreFindings([], profile("standard")).total, 0);
+  });
+});
+
+describe("evaluateRiskLevel", () => {
+  it("applies each profile's thresholds inclusively", () => {
+    const standard = profile("standard");
+    assert.deepEqual(
+      [4.99, 5, 11.99, 12, 24.99, 25].map((score) => evaluateRiskLevel(score, standard)),
+      ["low", "medium", "medium", "high", "high", "critical"]
+    );
+    const legacy = profile("legacy");
+    assert.deepEqual(
+      [5, 6, 12, 18].map((score) => evaluateRiskLevel(score, legacy)),
+      ["low", "medium", "high", "critical"]
+    );
+  });
+});
+
+describe("getScoringProfile", () => {
+  it("looks profiles up case-insensitively", () => {
+    assert.equal(getScoringProfile("Legacy")?.name, "legacy");
+    assert.equal(getScoringProfile("strict"), undefined);
+  });
+});
@@ -0,0 +1,3 @@
+// Loaded before every test file. Config insists on an RPC endpoint for
+// mainnet even though nothing under test connects to one.
+process.env.RPC_URL ??= "http://127.0.0.1:8545";
@@ -0,0 +1,25 @@
+import solc from "solc";
+
+interface SolcOutput {
+  errors?: { severity: string; formattedMessage: string }[];
+  contracts: Record<string, Record<string, { evm: { deployedBytecode: { object: string } } }>>;
+}
+
+const compiler = solc as unknown as { compile(input: string): string };
+
+/** Runtime bytecode of `contractName` from a single-file source, without the optimizer. */
+export const compileRuntime = (source: string, contractName: string): string => {
+  const input = {
+    language: "Solidity",
+    sources: { "Test.sol": { content: source } },
+    settings: { outputSelection: { "*": { "*": ["evm.deployedBytecode.object"] } } },
+  };
+  const output = JSON.parse(compiler.compile(JSON.stringify(input))) as SolcOutput;
+  const errors = (output.errors ?? []).filter((error) => error.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(errors.map((error) => error.formattedMessage).join("\n"));
+  }
+  const bytecode = output.contracts["Test.sol"]?.[contractName]?.evm.deployedBytecode.object;
+  if (!bytecode) throw new Error(`${contractName} not found in the compiler output`);
+  return bytecode;
+};
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { scanWebhookEvents, signWebhookPayload } from "../services/webhookService";
+
+describe("signWebhookPayload", () => {
+  const body = '{"event":"scan.completed"}';
+
+  it("signs `${timestamp}.${body}` with HMAC-SHA256", () => {
+    // printf '%s' '1700000000.{"event":"scan.completed"}' | openssl dgst -sha256 -hmac whsec_test
+    assert.equal(
+      signWebhookPayload("whsec_test", 1700000000, body),
+      "sha256=9c2a200e9ad9242d3a82185db400834e22b5d5acef8e2d9e777df0e65b0168d7"
+    );
+  });
+
+  it("binds the signature to the timestamp and secret", () => {
+    const signature = signWebhookPayload("whsec_test", 1700000000, body);
+    assert.notEqual(signWebhookPayload("whsec_test", 1700000001, body), signature);
+    assert.notEqual(signWebhookPayload("whsec_other", 1700000000, body), signature);
+  });
+});
+
+describe("scanWebhookEvents", () => {
+  it("raises risk.increased when the level goes up", () => {
+    assert.deepEqual(scanWebhookEvents("medium", "high"), ["scan.completed", "risk.increased"]);
+    assert.deepEqual(scanWebhookEvents("high", "high"), ["scan.completed"]);
+    assert.deepEqual(scanWebhookEvents("critical", "low"), ["scan.completed"]);
+  });
+
+  it("measures a first scan against low", () => {
+    assert.deepEqual(scanWebhookEvents(undefined, "medium"), [
+      "scan.completed",
+      "risk.increased",
+    ]);
+    assert.deepEqual(scanWebhookEvents(undefined, "low"), ["scan.completed"]);
+  });
+});
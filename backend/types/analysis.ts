@@ -2,6 +2,48 @@ import type { InterfaceAbi } from "ethers";
 
 export type RiskLevel = "low" | "medium" | "high" | "critical";
 
+/**
+ * Network upgrades the analyzer distinguishes, in activation order; only
+ * those that added opcodes or changed their semantics.
+ */
+export const hardForks = [
+  "frontier",
+  "homestead",
+  "byzantium",
+  "constantinople",
+  "istanbul",
+  "london",
+  "paris",
+  "shanghai",
+  "cancun",
+  "prague",
+  "osaka",
+] as const;
+
+export type HardFork = (typeof hardForks)[number];
+
+export const isHardFork = (value: string): value is HardFork =>
+  (hardForks as readonly string[]).includes(value);
+
+export interface DetectorRef {
+  id: string;
+  version: string;
+  /** Severity the detector reported before a rule override replaced it. */
+  originalSeverity?: RiskLevel;
+}
+
+/** Where an instruction came from, according to the verified source's source map. */
+export interface SourceLocation {
+  pc: number;
+  file: string;
+  /** 1-based. */
+  line: number;
+  /** 1-based, in bytes. */
+  column: number;
+  /** Enclosing function or modifier as `Contract.name`. */
+  function?: string;
+}
+
 export interface AnalysisFinding {
   id: string;
   title: string;
@@ -9,20 +51,195 @@ export interface AnalysisFinding {
   severity: RiskLevel;
   references?: string[];
   metadata?: Record<string, unknown>;
+  detector?: DetectorRef;
+  /** Set when the contract has verified source. */
+  sourceLocations?: SourceLocation[];
+}
+
+/** What the analyzer needs to map program counters back to verified source. */
+export interface SourceMapData {
+  /** Compressed `s:l:f:j:m` runtime source map, one entry per instruction. */
+  runtimeSourceMap: string;
+  /** Source files keyed by the compiler's source id. */
+  sources: Array<{ id: number; path: string; content: string }>;
+  functions: Array<{ name: string; sourceId: number; start: number; length: number }>;
+}
+
+export interface DetectorRule {
+  enabled: boolean;
+  severity?: RiskLevel;
 }
 
 export interface OpcodeSummary {
   totalOpcodes: number;
   dangerousOpcodeHits: Record<string, number>;
   uniqueOpcodes: number;
+  dataBytes: number;
+  metadataBytes: number;
+  /** Set for EOF containers. */
+  eof?: EofSummary;
+}
+
+export interface EofSummary {
+  version: number;
+  codeSections: number;
+  containerSections: number;
+  /** The data section holds constants, not unreachable code, so it isn't in `dataBytes`. */
+  dataSize: number;
+}
+
+/** What the constructor of submitted creation code does before it deploys. */
+export interface InitCodeSummary {
+  /** Start of the runtime code; the constructor is every byte before it. */
+  runtimeOffset: number;
+  runtimeSize: number;
+  /** Bytes after the runtime: constructor arguments and creation code of deployed children. */
+  trailingSize: number;
+  /** Program counters of reachable CREATE and CREATE2 instructions in the constructor. */
+  createPcs: number[];
+  create2Pcs: number[];
+  /** Storage the constructor initializes; `slot` is set when it is a constant. */
+  storageWrites: Array<{ pc: number; slot?: string }>;
+}
+
+export interface FunctionSummary {
+  selector: string;
+  entryPc: number;
+  signature?: string;
+  candidateSignatures?: string[];
+  dangerousOpcodes: Record<string, number[]>;
+  /** The function calls into shared code too often to trace every path; `dangerousOpcodes` may be missing some. */
+  partial?: boolean;
+}
+
+export type ProxyStandard = "eip-1167" | "eip-1967" | "eip-1967-beacon" | "eip-1822";
+
+export interface ProxyInfo {
+  standard: ProxyStandard;
+  implementation: string;
+  admin?: string;
+  beacon?: string;
+}
+
+export type CodeChangeKind =
+  | "metamorphic"
+  | "eoa-to-contract"
+  | "destroyed"
+  | "delegation-changed";
+
+export interface CodeChange {
+  kind: CodeChangeKind;
+  previousBytecodeHash: string;
+}
+
+/** An EOA whose code is an EIP-7702 delegation designator. */
+export interface DelegationInfo {
+  /** Address whose code runs when the EOA is called. */
+  target: string;
+  /** False when the delegate has no code, so calls to the EOA do nothing. */
+  targetHasCode?: boolean;
+  /** The delegate's latest completed scan; absent until it has been scanned. */
+  targetScan?: { scanId: string; riskScore: number; riskLevel: RiskLevel };
+  /** The delegate's code analyzed at the same block as the EOA, during the EOA's scan. */
+  targetAnalysis?: {
+    bytecodeHash: string;
+    riskScore: number;
+    riskLevel: RiskLevel;
+    findingIds: string[];
+  };
+}
+
+export type TokenStandard = "erc20" | "erc721" | "erc1155" | "erc4626";
+
+export interface TokenMetadata {
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  totalSupply?: string;
+}
+
+export interface TokenInfo extends TokenMetadata {
+  standards: TokenStandard[];
+}
+
+export interface TradeStep {
+  status: "succeeded" | "reverted";
+  /** Token units for transfers and sells, native wei for buys. */
+  amountIn: string;
+  /** What the router quoted, or the amount sent for plain transfers. */
+  expectedOut?: string;
+  amountOut?: string;
+  /** Share of the expected output withheld, in basis points. */
+  taxBps?: number;
+  revertReason?: string;
+}
+
+export interface TradeSimulation {
+  status: "completed" | "skipped" | "failed";
+  reason?: string;
+  blockNumber?: number;
+  router?: string;
+  pair?: string;
+  buy?: TradeStep;
+  transfer?: TradeStep;
+  sell?: TradeStep;
+  /** Set when a larger buy reverted after the base buy succeeded. */
+  maxTransaction?: {
+    largestSucceeded: string;
+    smallestReverted: string;
+    revertReason?: string;
+  };
+}
+
+/** Decoded from the CBOR trailer the compiler appends to the runtime code. */
+export interface CompilerMetadata {
+  compiler: "solc" | "vyper";
+  /** Absent for solc before 0.5.9, which did not embed its version. */
+  version?: string;
+  /** CIDv0 of the solc metadata JSON. */
+  ipfs?: string;
+  swarm?: { version: "bzzr0" | "bzzr1"; hash: string };
+  /** Set when the source enabled an experimental pragma. */
+  experimental?: boolean;
+}
+
+export interface ScoreContribution {
+  findingId: string;
+  detectorId?: string;
+  category: string;
+  severity: RiskLevel;
+  weight: number;
+  /** Diminishing-returns factor from earlier findings in the same category. */
+  multiplier: number;
+  cap?: number;
+  contribution: number;
+}
+
+export interface ScoreBreakdown {
+  profile: string;
+  profileVersion: string;
+  contributions: ScoreContribution[];
+  total: number;
 }
 
 export interface AnalysisReport {
   address: string;
   riskScore: number;
   riskLevel: RiskLevel;
+  scoreBreakdown: ScoreBreakdown;
   findings: AnalysisFinding[];
   opcodeSummary: OpcodeSummary;
+  functions: FunctionSummary[];
+  proxy?: ProxyInfo;
+  delegation?: DelegationInfo;
+  codeChange?: CodeChange;
+  token?: TokenInfo;
+  simulation?: TradeSimulation;
+  compiler?: CompilerMetadata;
+  /** Set when creation code was analyzed; the rest of the report covers its runtime code. */
+  initCode?: InitCodeSummary;
+  /** Fork whose opcode set and semantics the findings assume. */
+  hardFork: HardFork;
   bytecodeHash: string;
   balanceWei?: string;
   blockNumber?: number;
@@ -34,4 +251,7 @@ export interface ScanJobPayload {
   address: string;
   network?: string;
   abi?: InterfaceAbi;
+  scoringProfile?: string;
+  /** Block number or hash to analyze instead of the latest block. */
+  blockTag?: number | string;
 }
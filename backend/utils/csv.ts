@@ -0,0 +1,54 @@
+/**
+ * Parses RFC 4180 style CSV with a header row into one record per line.
+ * Quoted fields may contain commas, newlines and doubled quotes; blank lines
+ * are skipped.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  const nonEmpty = rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+  const [header, ...records] = nonEmpty;
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  return records.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? "").trim()]))
+  );
+};
+
+export default parseCsv;
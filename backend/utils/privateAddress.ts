@@ -0,0 +1,59 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+// Loopback, private, shared, link-local (cloud metadata), multicast and
+// reserved ranges: nothing an outbound request to a user-supplied URL should
+// reach. BlockList checks IPv4-mapped IPv6 addresses against the IPv4 ranges.
+const privateRanges = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv6");
+}
+
+/** Whether an IP address is outside the public internet; false for anything that isn't an IP. */
+export const isPrivateAddress = (address: string): boolean => {
+  const version = isIP(address);
+  return version !== 0 && privateRanges.check(address, version === 4 ? "ipv4" : "ipv6");
+};
+
+const hostOf = (url: string): string => new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+
+/**
+ * Whether a URL names a private host outright: `localhost` or a private IP
+ * literal. Hostnames that resolve to private addresses need
+ * {@link resolvesToPrivateAddress}.
+ */
+export const isPrivateUrl = (url: string): boolean => {
+  const host = hostOf(url).toLowerCase();
+  return host === "localhost" || host.endsWith(".localhost") || isPrivateAddress(host);
+};
+
+/** Whether any address the URL's host resolves to is private. */
+export const resolvesToPrivateAddress = async (url: string): Promise<boolean> => {
+  const host = hostOf(url);
+  if (isPrivateUrl(url)) return true;
+  if (isIP(host)) return false;
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  return addresses.some(({ address }) => isPrivateAddress(address));
+};
+
+export default isPrivateAddress;
@@ -1,25 +1,78 @@
-import { JsonRpcProvider } from "ethers";
-import config from "../config/env";
+import { existsSync } from "node:fs";
+import { AbstractProvider, FallbackProvider, JsonRpcProvider } from "ethers";
+import config, { NetworkConfig } from "../config/env";
+import HttpError from "./httpError";
 import logger from "./logger";
+import {
+  RecordingJsonRpcProvider,
+  ReplayJsonRpcProvider,
+  RpcFixtureStore,
+  rpcFixturePath,
+} from "./rpcFixtures";
 
-let provider: JsonRpcProvider | null = null;
+const providers = new Map<string, AbstractProvider>();
+const fixtureStores: RpcFixtureStore[] = [];
 
-export function getProvider(): JsonRpcProvider {
-  if (provider) return provider;
-  const url = config.rpcUrl;
-  provider = new JsonRpcProvider(url);
+export const getNetworkConfig = (network: string): NetworkConfig => {
+  const entry = config.networks[network.toLowerCase()];
+  if (!entry) {
+    throw new HttpError(400, "Unsupported network", {
+      network,
+      supported: Object.keys(config.networks),
+    });
+  }
+  return entry;
+};
+
+const createProvider = (networkConfig: NetworkConfig): AbstractProvider => {
+  const { mode, fixtureDir } = config.rpc;
+  const store =
+    mode === "live"
+      ? null
+      : new RpcFixtureStore(
+          rpcFixturePath(fixtureDir, networkConfig.name),
+          networkConfig.name,
+          networkConfig.chainId
+        );
+
+  if (store) {
+    fixtureStores.push(store);
+  }
+
+  if (mode === "replay" && store) {
+    if (!existsSync(store.path)) {
+      throw new Error(`RPC fixture ${store.path} not found for network ${networkConfig.name}`);
+    }
+    return new ReplayJsonRpcProvider(store);
+  }
+
+  const rpcProviders = networkConfig.rpcUrls.map((url) =>
+    store ? new RecordingJsonRpcProvider(url, store) : new JsonRpcProvider(url)
+  );
+  return rpcProviders.length === 1
+    ? (rpcProviders[0] as JsonRpcProvider)
+    : new FallbackProvider(rpcProviders, undefined, { quorum: 1 });
+};
+
+export function getProvider(network = "mainnet"): AbstractProvider {
+  const networkConfig = getNetworkConfig(network);
+  const existing = providers.get(networkConfig.name);
+  if (existing) return existing;
+
+  const provider = createProvider(networkConfig);
+  providers.set(networkConfig.name, provider);
 
   provider
     .getNetwork()
     .then((net) => {
       logger.info(
-        { network: net.name ?? net.chainId, chainId: net.chainId },
+        { network: networkConfig.name, chainId: net.chainId },
         "Connected to RPC network"
       );
     })
     .catch((err) =>
       logger.warn(
-        { error: err instanceof Error ? err.message : err },
+        { network: networkConfig.name, error: err instanceof Error ? err.message : err },
         "Warning: provider failed to detect network"
       )
     );
@@ -27,4 +80,19 @@ export function getProvider(): JsonRpcProvider {
   return provider;
 }
 
+export const assertProviderChainId = async (network: string): Promise<void> => {
+  const networkConfig = getNetworkConfig(network);
+  const { chainId } = await getProvider(networkConfig.name).getNetwork();
+  if (chainId !== BigInt(networkConfig.chainId)) {
+    throw new Error(
+      `RPC for network ${networkConfig.name} reports chainId ${chainId}, expected ${networkConfig.chainId}`
+    );
+  }
+};
+
+/** Writes buffered RPC recordings to their fixtures; a no-op outside record mode. */
+export const flushRpcFixtures = async (): Promise<void> => {
+  await Promise.all(fixtureStores.map((store) => store.flush()));
+};
+
 export default getProvider;
@@ -0,0 +1,121 @@
+import { isError } from "ethers";
+
+const transientRpcCodes = ["NETWORK_ERROR", "TIMEOUT", "SERVER_ERROR"] as const;
+
+const transientMongoErrors = new Set([
+  "MongoNetworkError",
+  "MongoNetworkTimeoutError",
+  "MongoServerSelectionError",
+  "MongoNotConnectedError",
+]);
+
+const transientSocketCodes = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+
+const rateLimitPattern = /rate.?limit|too many requests|\b429\b/i;
+
+/**
+ * True for failures that are likely to go away on their own: provider
+ * outages, timeouts and rate limits, and lost MongoDB connections. Anything
+ * else (bad input, reverted calls, analysis errors) fails the same way again.
+ */
+export const isTransientError = (error: unknown): boolean => {
+  if (!(error instanceof Error)) return false;
+  if (transientRpcCodes.some((code) => isError(error, code))) return true;
+  if (transientMongoErrors.has(error.name)) return true;
+
+  const { hasErrorLabel } = error as { hasErrorLabel?: (label: string) => boolean };
+  if (typeof hasErrorLabel === "function" && hasErrorLabel.call(error, "RetryableWriteError")) {
+    return true;
+  }
+
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === "string" && transientSocketCodes.has(code)) return true;
+
+  return rateLimitPattern.test(error.message);
+};
+
+/** Exponential backoff with full jitter, capped at `maxMs`. */
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number): number =>
+  Math.round(Math.random() * Math.min(maxMs, baseMs * 2 ** Math.max(attempt - 1, 0)));
+
+/**
+ * Thrown by a job that failed transiently and has attempts left; the consumer
+ * backs off and runs it again.
+ */
+export class RetryableJobError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: number,
+    public readonly cause: unknown
+  ) {
+    super(message);
+    this.name = "RetryableJobError";
+  }
+}
+
+/** Thrown by a job whose transient failures used up every attempt. */
+export class RetriesExhaustedError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: number,
+    public readonly cause: unknown
+  ) {
+    super(message);
+    this.name = "RetriesExhaustedError";
+  }
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type JobFailure =
+  | { action: "retry"; delayMs: number }
+  | {
+      action: "dead-letter";
+      reason: "retries-exhausted" | "processing-error";
+      attempts: number;
+    };
+
+/**
+ * What a consumer does once delivery `attempt` of a job failed with `error`:
+ * back off and run it again, or dead-letter it. A job's own attempt count,
+ * carried by the retry errors, takes precedence over the delivery count.
+ */
+export const planJobFailure = (
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy
+): JobFailure => {
+  if (
+    error instanceof RetryableJobError ||
+    (isTransientError(error) && attempt < policy.maxAttempts)
+  ) {
+    return {
+      action: "retry",
+      delayMs: backoffDelay(
+        error instanceof RetryableJobError ? error.attempts : attempt,
+        policy.baseDelayMs,
+        policy.maxDelayMs
+      ),
+    };
+  }
+  return {
+    action: "dead-letter",
+    reason:
+      error instanceof RetriesExhaustedError || isTransientError(error)
+        ? "retries-exhausted"
+        : "processing-error",
+    attempts: error instanceof RetriesExhaustedError ? error.attempts : attempt,
+  };
+};
+
+export default isTransientError;
@@ -0,0 +1,196 @@
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import {
+  JsonRpcApiProvider,
+  JsonRpcError,
+  JsonRpcPayload,
+  JsonRpcProvider,
+  JsonRpcResult,
+  Network,
+} from "ethers";
+import logger from "./logger";
+
+type RecordedResponse =
+  | { method: string; params: unknown; result: unknown }
+  | { method: string; params: unknown; error: JsonRpcError["error"] };
+
+export interface RpcFixture {
+  network: string;
+  chainId: number;
+  /** Keyed by method and JSON-encoded params; request ids are not recorded. */
+  responses: Record<string, RecordedResponse>;
+}
+
+export class RpcFixtureMissError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly params: unknown,
+    public readonly path: string
+  ) {
+    super(`No recorded response for ${method} ${JSON.stringify(params)} in ${path}`);
+    this.name = "RpcFixtureMissError";
+  }
+}
+
+const requestKey = (method: string, params: unknown): string =>
+  `${method} ${JSON.stringify(params)}`;
+
+const asArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value]);
+
+export const rpcFixturePath = (dir: string, network: string): string =>
+  join(dir, `${network}.json`);
+
+const FLUSH_INTERVAL_MS = 1000;
+
+const readFixture = async (path: string): Promise<RpcFixture | null> => {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as RpcFixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+/**
+ * One fixture file per network. Every provider of a network shares the same
+ * store, so fallback RPC URLs record into and replay from a single file.
+ * Recordings are buffered and flushed in the background: each flush merges
+ * them into whatever is on disk, so the API, worker and monitor can record
+ * into the same file without dropping each other's responses, and replaces
+ * the file through a rename so a reader never sees it half written.
+ */
+export class RpcFixtureStore {
+  private readonly fixture: RpcFixture;
+  /** Responses recorded since the last flush. */
+  private pending: Record<string, RecordedResponse> = {};
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly path: string,
+    network: string,
+    chainId: number
+  ) {
+    this.fixture = existsSync(path)
+      ? (JSON.parse(readFileSync(path, "utf8")) as RpcFixture)
+      : { network, chainId, responses: {} };
+  }
+
+  get chainId(): number {
+    return this.fixture.chainId;
+  }
+
+  lookup(payload: JsonRpcPayload): JsonRpcResult | JsonRpcError {
+    const recorded = this.fixture.responses[requestKey(payload.method, payload.params)];
+    if (!recorded) {
+      throw new RpcFixtureMissError(payload.method, payload.params, this.path);
+    }
+    return "error" in recorded
+      ? { id: payload.id, error: recorded.error }
+      : { id: payload.id, result: recorded.result };
+  }
+
+  /** Later responses to the same request replace earlier ones. */
+  record(payload: JsonRpcPayload, response: JsonRpcResult | JsonRpcError): void {
+    const { method, params } = payload;
+    const key = requestKey(method, params);
+    const recorded: RecordedResponse =
+      "error" in response
+        ? { method, params, error: response.error }
+        : { method, params, result: response.result };
+    this.fixture.responses[key] = recorded;
+    this.pending[key] = recorded;
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flush().catch((error) =>
+          logger.warn(
+            { path: this.path, error: error instanceof Error ? error.message : error },
+            "Failed to write RPC fixture"
+          )
+        );
+      }, FLUSH_INTERVAL_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  /** Writes pending recordings now; call before the process exits. */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.flushing = this.flushing.catch(() => undefined).then(() => this.writePending());
+    return this.flushing;
+  }
+
+  private async writePending(): Promise<void> {
+    const recorded = this.pending;
+    if (Object.keys(recorded).length === 0) return;
+    this.pending = {};
+
+    try {
+      const onDisk = await readFixture(this.path);
+      const merged: RpcFixture = {
+        network: this.fixture.network,
+        chainId: this.fixture.chainId,
+        responses: { ...onDisk?.responses, ...recorded },
+      };
+      const temporary = `${this.path}.${process.pid}.tmp`;
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(temporary, JSON.stringify(merged, null, 2));
+      await rename(temporary, this.path);
+    } catch (error) {
+      // Keep the recordings for the next flush; newer ones win.
+      this.pending = { ...recorded, ...this.pending };
+      throw error;
+    }
+  }
+}
+
+/** A live JSON-RPC provider that writes every request and response to a fixture. */
+export class RecordingJsonRpcProvider extends JsonRpcProvider {
+  constructor(
+    url: string,
+    private readonly store: RpcFixtureStore
+  ) {
+    super(url);
+  }
+
+  // Typed as results only upstream, but error responses come through here too.
+  override async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const responses = await super._send(payload);
+    for (const request of asArray(payload)) {
+      const response = responses.find((entry) => entry.id === request.id);
+      if (response) this.store.record(request, response as JsonRpcResult | JsonRpcError);
+    }
+    return responses;
+  }
+}
+
+/**
+ * Serves every request from a fixture and never touches the network. A
+ * request that was not recorded is an error rather than a silent fallback,
+ * so a replayed scan either reproduces the original or fails.
+ */
+export class ReplayJsonRpcProvider extends JsonRpcApiProvider {
+  constructor(private readonly store: RpcFixtureStore) {
+    const network = Network.from(store.chainId);
+    super(network, { staticNetwork: network, batchMaxCount: 1 });
+  }
+
+  override async _send(
+    payload: JsonRpcPayload | JsonRpcPayload[]
+  ): Promise<Array<JsonRpcResult | JsonRpcError>> {
+    try {
+      return asArray(payload).map((request) => this.store.lookup(request));
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : error },
+        "RPC replay fixture miss"
+      );
+      throw error;
+    }
+  }
+}
@@ -1,39 +1,132 @@
+import { EachMessagePayload } from "kafkajs";
 import config from "./config/env";
 import connectMongo, { disconnectMongo } from "./database/mongoClient";
 import getRedisClient, { closeRedisClient } from "./cache/redisClient";
 import { createKafkaConsumer, disconnectKafka } from "./queue/kafka";
+import { parseScanJob } from "./queue/scanJob";
+import { deadLetterScanJob } from "./services/deadLetterService";
 import { processScanJob } from "./services/scanService";
+import { seedSignatures } from "./services/signatureService";
+import { processDueWebhookDeliveries } from "./services/webhookService";
 import logger from "./utils/logger";
+import { flushRpcFixtures } from "./utils/provider";
+import { planJobFailure } from "./utils/retry";
 import { ScanJobPayload } from "./types/analysis";
 
+const HEARTBEAT_INTERVAL_MS = 3000;
+
+let webhookTimer: NodeJS.Timeout | null = null;
+let stopping = false;
+
+const retryWebhooks = async (): Promise<void> => {
+  try {
+    const retried = await processDueWebhookDeliveries();
+    if (retried > 0) {
+      logger.info({ retried }, "Retried webhook deliveries");
+    }
+  } catch (err) {
+    logger.error({ err }, "Webhook retry cycle failed");
+  } finally {
+    if (!stopping) {
+      webhookTimer = setTimeout(retryWebhooks, config.webhooks.retryPollSeconds * 1000);
+    }
+  }
+};
+
+// The group evicts consumers that go quiet, so long backoffs keep heartbeating.
+const waitWithHeartbeat = async (ms: number, heartbeat: () => Promise<void>): Promise<void> => {
+  const until = Date.now() + ms;
+  while (!stopping && Date.now() < until) {
+    const step = Math.min(HEARTBEAT_INTERVAL_MS, until - Date.now());
+    await new Promise((resolve) => setTimeout(resolve, step));
+    await heartbeat();
+  }
+};
+
+/**
+ * Runs one scan job, retrying transient failures with exponential backoff.
+ * Malformed messages and jobs that keep failing go to the dead-letter topic
+ * instead of blocking the partition.
+ */
+const handleMessage = async ({
+  topic,
+  partition,
+  message,
+  heartbeat,
+}: EachMessagePayload): Promise<void> => {
+  const value = message.value?.toString() ?? "";
+  const source = {
+    topic,
+    partition,
+    offset: message.offset,
+    value,
+    ...(message.key ? { key: message.key.toString() } : {}),
+  };
+
+  let payload: ScanJobPayload;
+  try {
+    payload = parseScanJob(value);
+  } catch (err) {
+    await deadLetterScanJob({ ...source, reason: "invalid-payload", error: err, attempts: 0 });
+    return;
+  }
+
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      await processScanJob(payload);
+      return;
+    } catch (err) {
+      const failure = planJobFailure(err, attempt, config.scanRetry);
+
+      if (failure.action === "retry") {
+        // Leave the offset uncommitted so the job is redelivered after restart.
+        if (stopping) throw err;
+        const { delayMs } = failure;
+        logger.warn({ err, scanId: payload.scanId, attempt, delayMs }, "Retrying scan job");
+        await waitWithHeartbeat(delayMs, heartbeat);
+        continue;
+      }
+
+      await deadLetterScanJob({
+        ...source,
+        payload,
+        reason: failure.reason,
+        error: err,
+        attempts: failure.attempts,
+      });
+      return;
+    }
+  }
+};
+
 const startWorker = async (): Promise<void> => {
   await connectMongo();
+  await seedSignatures();
   getRedisClient();
 
   const consumer = await createKafkaConsumer(`${config.kafka.clientId}-worker`);
   await consumer.subscribe({ topic: config.kafka.topic, fromBeginning: false });
 
   await consumer.run({
-    eachMessage: async ({ message }) => {
-      if (!message.value) {
-        logger.warn("Received message without value");
-        return;
-      }
-      try {
-        const payload = JSON.parse(message.value.toString()) as ScanJobPayload;
-        await processScanJob(payload);
-      } catch (err) {
-        logger.error({ err, message: message.value.toString() }, "Failed to process scan job");
-      }
-    },
+    eachMessage: handleMessage,
   });
 
   logger.info("Worker ready to process scan jobs");
+  await retryWebhooks();
 };
 
 const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
   logger.info({ signal }, "Worker shutting down");
-  await Promise.allSettled([disconnectMongo(), closeRedisClient(), disconnectKafka()]);
+  stopping = true;
+  if (webhookTimer) {
+    clearTimeout(webhookTimer);
+  }
+  await Promise.allSettled([
+    flushRpcFixtures(),
+    disconnectMongo(),
+    closeRedisClient(),
+    disconnectKafka(),
+  ]);
   process.exit(0);
 };
 